@@ -0,0 +1,344 @@
+import {
+  allAsync,
+  detailedRunAsync,
+  notAsync,
+  oneAsync,
+  runAsync,
+} from "./async";
+import {
+  always,
+  applyAll,
+  applyAllByPriority,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  applyRepeatedly,
+  applyToEach,
+  collectAll,
+  experiment,
+  injectFacts,
+  transformOutput,
+} from "./index";
+
+const passMatcher = async () => true;
+const failMatcher = async () => false;
+
+const makeRule = (pass: boolean, value: any) => ({
+  matcher: async () => pass,
+  action: async (facts: unknown, list: any[]) => list.concat(value),
+});
+
+describe("notAsync", () => {
+  test("inverts the outcome of an async matcher", async () => {
+    expect(await notAsync(passMatcher)()).toBe(false);
+    expect(await notAsync(failMatcher)()).toBe(true);
+  });
+
+  test("works with sync matchers", async () => {
+    expect(await notAsync(always)()).toBe(false);
+  });
+});
+
+describe("oneAsync", () => {
+  test("returns true when one matcher is true", async () => {
+    expect(await oneAsync([failMatcher, passMatcher])()).toBe(true);
+  });
+
+  test("returns false when all matchers are false", async () => {
+    expect(await oneAsync([failMatcher, failMatcher])()).toBe(false);
+  });
+
+  test("stops checking after the first passing matcher", async () => {
+    const spy = jest.fn(passMatcher);
+    expect(await oneAsync([passMatcher, spy])()).toBe(true);
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
+
+describe("allAsync", () => {
+  test("returns true when all matchers are true", async () => {
+    expect(await allAsync([passMatcher, always])()).toBe(true);
+  });
+
+  test("returns false when one matcher is false", async () => {
+    expect(await allAsync([passMatcher, failMatcher])()).toBe(false);
+  });
+
+  test("stops checking after the first failing matcher", async () => {
+    const spy = jest.fn(passMatcher);
+    expect(await allAsync([failMatcher, spy])()).toBe(false);
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
+
+describe("runAsync", () => {
+  test("runs async plain rules", async () => {
+    const [err, result] = await runAsync(makeRule(true, 1), null, []);
+    expect(err).toBe(null);
+    expect(result).toEqual([1]);
+  });
+
+  test("can be curried like run", async () => {
+    const [, result] = await runAsync(makeRule(true, 1))(null)([]);
+    expect(result).toEqual([1]);
+  });
+
+  test("returns the initial value if nothing matches", async () => {
+    const [, result] = await runAsync(makeRule(false, 1), null, []);
+    expect(result).toEqual([]);
+  });
+
+  test("supports sync and async rules mixed", async () => {
+    const syncRule = {
+      matcher: always,
+      action: (facts: unknown, list: any[]) => list.concat("sync"),
+    };
+    const rule = applyAll([syncRule, makeRule(true, "async")]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual(["sync", "async"]);
+  });
+
+  test("applyAll runs all matching rules in order", async () => {
+    const rule = applyAll([
+      makeRule(true, 1),
+      makeRule(false, 2),
+      makeRule(true, 3),
+    ]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([1, 3]);
+  });
+
+  test("applyFirst only runs the first matching rule", async () => {
+    const rule = applyFirst([
+      makeRule(false, 1),
+      makeRule(true, 2),
+      makeRule(true, 3),
+    ]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([2]);
+  });
+
+  test("applyFirst returns the initial value if no rule matches", async () => {
+    const rule = applyFirst([makeRule(false, 1)]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([]);
+  });
+
+  test("applyFirstByPriority awaits computed priorities", async () => {
+    const rule = applyFirstByPriority([
+      { priority: 2, rule: makeRule(true, 1) },
+      { priority: async () => 3, rule: makeRule(false, 2) },
+      { priority: async () => 1, rule: makeRule(true, 3) },
+    ]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([1]);
+  });
+
+  test("applyAllByPriority runs all matching rules by priority", async () => {
+    const rule = applyAllByPriority([
+      { priority: 1, rule: makeRule(true, 1) },
+      { priority: async () => 3, rule: makeRule(true, 2) },
+      { priority: 2, rule: makeRule(false, 3) },
+    ]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([2, 1]);
+  });
+
+  test("experiment runs the chosen variant and reports it", async () => {
+    const rule = experiment("checkout", {
+      key: "facts.id",
+      variants: [
+        { name: "off", weight: 0, rule: makeRule(true, 1) },
+        { name: "on", rule: makeRule(true, 2) },
+      ],
+    });
+    expect(await detailedRunAsync(rule, { id: 42 }, [])).toEqual([
+      null,
+      { foundMatch: true, value: [2], variants: { checkout: "on" } },
+    ]);
+    expect(await detailedRunAsync(rule, {}, [])).toEqual([
+      null,
+      { foundMatch: false, value: [] },
+    ]);
+  });
+
+  test("collectAll runs every rule on the incoming value", async () => {
+    const rule = collectAll(
+      [makeRule(true, 1), makeRule(false, 2), makeRule(true, 3)],
+      async (outputs) => outputs.map((output) => output.value)
+    );
+    expect(await runAsync(rule, null, [0])).toEqual([
+      null,
+      [
+        [0, 1],
+        [0, 3],
+      ],
+    ]);
+    expect(
+      await detailedRunAsync(collectAll([makeRule(false, 1)]), null, [0])
+    ).toEqual([null, { foundMatch: false, value: [0] }]);
+  });
+
+  test("applyToEach runs the rule for every item", async () => {
+    const rule = applyToEach(
+      {
+        matcher: async (facts: { skip: number }, item: number) =>
+          item !== facts.skip,
+        action: async (facts: unknown, item: number) => item * 2,
+      },
+      async (facts: { skip: number[] }, item: number, index: number) => ({
+        skip: facts.skip[index],
+      })
+    );
+    expect(await detailedRunAsync(rule, { skip: [1, 0] }, [1, 2])).toEqual([
+      null,
+      { foundMatch: true, value: [1, 4] },
+    ]);
+    expect(await detailedRunAsync(rule, { skip: [1] }, [1])).toEqual([
+      null,
+      { foundMatch: false, value: [1] },
+    ]);
+  });
+
+  test("applyRepeatedly runs the rule as long as it matches", async () => {
+    let calls = 0;
+    const rule = {
+      matcher: async (facts: unknown, list: number[]) => list.length < 3,
+      action: async (facts: unknown, list: number[]) => {
+        calls += 1;
+        return [...list, list.length];
+      },
+    };
+    expect(await runAsync(applyRepeatedly(3, rule), null, [])).toEqual([
+      null,
+      [0, 1, 2],
+    ]);
+    calls = 0;
+    const [err] = await runAsync(
+      applyRepeatedly(2, applyFirst([rule])),
+      null,
+      []
+    );
+    expect(err?.message).toBe(
+      'rule "repeat" at [] failed: rule still matched after 2 iterations'
+    );
+    expect(calls).toBe(2);
+  });
+
+  test("applyChain runs rules as long as they match", async () => {
+    const rule = applyChain([
+      makeRule(true, 1),
+      makeRule(true, 2),
+      makeRule(false, 3),
+      makeRule(true, 4),
+    ]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([1, 2]);
+  });
+
+  test("applyChain returns the initial value if the first rule doesn't match", async () => {
+    const rule = applyChain([makeRule(false, 1), makeRule(true, 2)]);
+    const [, result] = await runAsync(rule, null, []);
+    expect(result).toEqual([]);
+  });
+
+  test("applyIf awaits the outer matcher", async () => {
+    const [, passed] = await runAsync(
+      applyIf(passMatcher, makeRule(true, 1)),
+      null,
+      []
+    );
+    const [, failed] = await runAsync(
+      applyIf(failMatcher, makeRule(true, 1)),
+      null,
+      []
+    );
+    expect(passed).toEqual([1]);
+    expect(failed).toEqual([]);
+  });
+
+  test("injectFacts awaits the mapper", async () => {
+    const rule = injectFacts(async (facts: any) => ({ ...facts, extra: 2 }), {
+      matcher: async (facts: any) => facts.extra === 2,
+      action: async (facts: any) => facts.original + facts.extra,
+    });
+    const [, result] = await runAsync(rule, { original: 1 }, 0);
+    expect(result).toBe(3);
+  });
+
+  test("transformOutput awaits the transformer only if the rule matched", async () => {
+    const transformer = async (list: any[]) => list.concat("t");
+    const [, matched] = await runAsync(
+      transformOutput(transformer, makeRule(true, 1)),
+      null,
+      []
+    );
+    const [, missed] = await runAsync(
+      transformOutput(transformer, makeRule(false, 1)),
+      null,
+      []
+    );
+    expect(matched).toEqual([1, "t"]);
+    expect(missed).toEqual([]);
+  });
+
+  test("runs rules strictly sequentially", async () => {
+    const calls: string[] = [];
+    const slowRule = (name: string, ms: number) => ({
+      matcher: always,
+      action: async () => {
+        calls.push(`start ${name}`);
+        await new Promise((resolve) => {
+          setTimeout(resolve, ms);
+        });
+        calls.push(`end ${name}`);
+      },
+    });
+    await runAsync(
+      applyAll([slowRule("a", 10), slowRule("b", 0)]),
+      null,
+      undefined
+    );
+    expect(calls).toEqual(["start a", "end a", "start b", "end b"]);
+  });
+
+  test("returns a tuple with an error when a promise rejects", async () => {
+    const boomError = new Error("BOOM!");
+    const rule = {
+      matcher: passMatcher,
+      action: async () => {
+        throw boomError;
+      },
+    };
+    const [err, result] = await runAsync(rule, null, "");
+    expect(err?.cause).toBe(boomError);
+    expect(result).toBe(null);
+  });
+});
+
+describe("detailedRunAsync", () => {
+  test("returns the value and whether a rule matched", async () => {
+    const [err, result] = await detailedRunAsync(makeRule(true, 1), null, []);
+    expect(err).toBe(null);
+    expect(result).toEqual({ value: [1], foundMatch: true });
+  });
+
+  test("returns foundMatch `false` if no rule matched", async () => {
+    const [, result] = await detailedRunAsync(makeRule(false, 1), null, []);
+    expect(result).toEqual({ value: [], foundMatch: false });
+  });
+
+  test("returns a tuple with an error as the first item when things crash", async () => {
+    const boomError = new Error("BOOM!");
+    const rule = {
+      matcher: async () => {
+        throw boomError;
+      },
+      action: async () => "stuff",
+    };
+    const [err, result] = await detailedRunAsync(rule, null, "");
+    expect(err?.cause).toBe(boomError);
+    expect(result).toBe(null);
+  });
+});
@@ -0,0 +1,446 @@
+import { collectedOutput } from "./collect";
+import type { RuleError } from "./errors";
+import { handleError, toRuleError } from "./errors";
+import { variantIndex } from "./experiment";
+import { iterationLimitError, listValue, wouldMatchAsync } from "./iterate";
+import { priorityOrder } from "./priority";
+import { withVariants } from "./run";
+import type { RulePath } from "./tree";
+import type {
+  AsyncCollectRule,
+  AsyncEachRule,
+  AsyncExperimentRule,
+  AsyncMatcher,
+  AsyncPrioritizedRule,
+  AsyncRepeatRule,
+  AsyncRule,
+  AsyncRunner,
+  CollectedOutput,
+  RuleResult,
+} from "./types";
+import curryToArity from "./util";
+
+/* ASYNC RULES
+ * Same as the synchronous rules but matchers, actions, mappers and transformers
+ * are allowed to return promises. Rules are still evaluated strictly
+ * sequentially, so a rule only starts once the previous one has finished.
+ */
+
+/* ASYNC MATCHERS: like `not`, `one` and `all` but for matchers that might
+ * return promises. `oneAsync` and `allAsync` check the matchers one after
+ * another and stop as soon as the outcome is known.
+ */
+
+const notAsync =
+  (matcher: AsyncMatcher) =>
+  async (facts?: any, value?: any): Promise<boolean> =>
+    !(await matcher(facts, value));
+
+const oneAsync =
+  (matchers: AsyncMatcher[]) =>
+  (facts?: any, value?: any): Promise<boolean> =>
+    matchers.reduce(
+      async (passed: Promise<boolean>, check) =>
+        (await passed) || check(facts, value),
+      Promise.resolve(false)
+    );
+
+const allAsync =
+  (matchers: AsyncMatcher[]) =>
+  (facts?: any, value?: any): Promise<boolean> =>
+    matchers.reduce(
+      async (passed: Promise<boolean>, check) =>
+        (await passed) && check(facts, value),
+      Promise.resolve(true)
+    );
+
+/* RUNNING ASYNC RULES
+ * works exactly like `runHelp` but awaits every function of the rules.
+ * `path` is the position of the rule in the tree that is run, `variants`
+ * collects the variants chosen by experiments.
+ */
+
+const runHelpAsync = async (
+  rule: AsyncRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    return await runRuleAsync(rule, facts, state, path, variants);
+  } catch (err) {
+    throw toRuleError(err, rule, path, facts, state.value);
+  }
+};
+
+const runRuleAsync = async (
+  rule: AsyncRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  switch (rule.type) {
+    case "injected":
+      return runHelpAsync(
+        rule.childRule,
+        await rule.mapper(facts),
+        state,
+        [...path, 0],
+        variants
+      );
+    case "transformed": {
+      const { foundMatch, value } = await runHelpAsync(
+        rule.rule,
+        facts,
+        state,
+        [...path, 0],
+        variants
+      );
+      return {
+        foundMatch,
+        value: foundMatch ? await rule.transformer(value) : value,
+      };
+    }
+    case "if":
+      return (await rule.matcher(facts, state.value))
+        ? runHelpAsync(rule.rule, facts, state, [...path, 0], variants)
+        : { foundMatch: false, value: state.value };
+    case "guarded":
+      try {
+        return await runHelpAsync(
+          rule.rule,
+          facts,
+          state,
+          [...path, 0],
+          variants
+        );
+      } catch (err) {
+        return handleError(rule.policy, err as RuleError, state);
+      }
+    case "all":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runAllMatchingRulesAsync(rule.rules, facts, state, path, variants);
+    case "first":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runFirstMatchingRuleAsync(
+        rule.rules,
+        facts,
+        state,
+        path,
+        variants
+      );
+    case "chain":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runChainOfRulesAsync(rule.rules, facts, state, path, variants);
+    case "prioritized":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runRulesByPriorityAsync(rule, facts, state, path, variants);
+    case "experiment":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runExperimentAsync(rule, facts, state, path, variants);
+    case "collect":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runCollectedRulesAsync(rule, facts, state, path, variants);
+    case "each":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runForEachItemAsync(rule, facts, state, path, variants);
+    case "repeat":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runRepeatedlyAsync(rule, facts, state, path, variants);
+    default:
+      return (await rule.matcher(facts, state.value))
+        ? { foundMatch: true, value: await rule.action(facts, state.value) }
+        : { foundMatch: false, value: state.value };
+  }
+};
+
+const runAllMatchingRulesAsync = (
+  rules: AsyncRule[],
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  const reducer = async (
+    previousState: Promise<RuleResult>,
+    currentRule: AsyncRule,
+    index: number
+  ) => {
+    const currentState = await previousState;
+    const newState = await runHelpAsync(
+      currentRule,
+      facts,
+      currentState,
+      [...path, index],
+      variants
+    );
+    return {
+      foundMatch: currentState.foundMatch || newState.foundMatch,
+      value: newState.value,
+    };
+  };
+  return rules.reduce(reducer, Promise.resolve(state));
+};
+
+const runFirstMatchingRuleAsync = async (
+  rules: AsyncRule[],
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>,
+  index = 0
+): Promise<RuleResult> => {
+  const [nextRule, ...remainingRules] = rules;
+  if (!nextRule) {
+    return state;
+  }
+  const { foundMatch, value } = await runHelpAsync(
+    nextRule,
+    facts,
+    state,
+    [...path, index],
+    variants
+  );
+  return foundMatch
+    ? { foundMatch, value }
+    : runFirstMatchingRuleAsync(
+        remainingRules,
+        facts,
+        state,
+        path,
+        variants,
+        index + 1
+      );
+};
+
+const runChainOfRulesAsync = async (
+  rules: AsyncRule[],
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>,
+  index = 0
+): Promise<RuleResult> => {
+  const [nextRule, ...remainingRules] = rules;
+  if (!nextRule) {
+    return state;
+  }
+  const { foundMatch, value } = await runHelpAsync(
+    nextRule,
+    facts,
+    state,
+    [...path, index],
+    variants
+  );
+  return foundMatch
+    ? runChainOfRulesAsync(
+        remainingRules,
+        facts,
+        { foundMatch, value },
+        path,
+        variants,
+        index + 1
+      )
+    : state;
+};
+
+// computed priorities are awaited one after another, before any child rule runs
+const runRulesByPriorityAsync = async (
+  rule: AsyncPrioritizedRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  const priorities = await rule.priorities.reduce(
+    async (previous: Promise<number[]>, priority) => [
+      ...(await previous),
+      typeof priority === "function" ? await priority(facts) : priority,
+    ],
+    Promise.resolve([])
+  );
+  const order = priorityOrder(priorities);
+  const runAt = (index: number, currentState: RuleResult) =>
+    runHelpAsync(
+      rule.rules[index],
+      facts,
+      currentState,
+      [...path, index],
+      variants
+    );
+  if (rule.mode === "all") {
+    return order.reduce(async (previousState: Promise<RuleResult>, index) => {
+      const currentState = await previousState;
+      const newState = await runAt(index, currentState);
+      return {
+        foundMatch: currentState.foundMatch || newState.foundMatch,
+        value: newState.value,
+      };
+    }, Promise.resolve(state));
+  }
+  let position = 0;
+  while (position < order.length) {
+    // the rules have to run one after another
+    // eslint-disable-next-line no-await-in-loop
+    const { foundMatch, value } = await runAt(order[position], state);
+    if (foundMatch) {
+      return { foundMatch, value };
+    }
+    position += 1;
+  }
+  return state;
+};
+
+// only the variant the value at the key of the experiment is assigned to is
+// run, nothing is run when the key is missing
+const runExperimentAsync = async (
+  rule: AsyncExperimentRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  const index = variantIndex(rule, facts, state.value);
+  if (index < 0) {
+    return { foundMatch: false, value: state.value };
+  }
+  // eslint-disable-next-line no-param-reassign
+  variants[rule.experiment] = rule.variants[index];
+  return runHelpAsync(
+    rule.rules[index],
+    facts,
+    state,
+    [...path, index],
+    variants
+  );
+};
+
+// the child rules of a "collect" rule run one after another, all of them
+// receive the incoming value
+const runCollectedRulesAsync = async (
+  rule: AsyncCollectRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  const outputs = await rule.rules.reduce(
+    async (previous: Promise<CollectedOutput[]>, child, index) => {
+      const collected = await previous;
+      const { foundMatch, value } = await runHelpAsync(
+        child,
+        facts,
+        state,
+        [...path, index],
+        variants
+      );
+      return foundMatch
+        ? [...collected, collectedOutput(child, index, value)]
+        : collected;
+    },
+    Promise.resolve([])
+  );
+  if (outputs.length === 0) {
+    return { foundMatch: false, value: state.value };
+  }
+  return {
+    foundMatch: true,
+    value: rule.reducer ? await rule.reducer(outputs, state.value) : outputs,
+  };
+};
+
+// the items of an "each" rule are run one after another
+const runForEachItemAsync = async (
+  rule: AsyncEachRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>
+): Promise<RuleResult> => {
+  const results = await listValue(state.value).reduce(
+    async (previous: Promise<RuleResult[]>, item, index) => {
+      const done = await previous;
+      const result = await runHelpAsync(
+        rule.rule,
+        rule.mapper ? await rule.mapper(facts, item, index) : facts,
+        { foundMatch: false, value: item },
+        [...path, 0],
+        variants
+      );
+      return [...done, result];
+    },
+    Promise.resolve([])
+  );
+  const foundMatch = results.some((result) => result.foundMatch);
+  return foundMatch
+    ? { foundMatch, value: results.map((result) => result.value) }
+    : { foundMatch, value: state.value };
+};
+
+const runRepeatedlyAsync = async (
+  rule: AsyncRepeatRule,
+  facts: object,
+  state: RuleResult,
+  path: RulePath,
+  variants: Record<string, string>,
+  iterations = 0
+): Promise<RuleResult> => {
+  if (iterations === rule.maxIterations) {
+    if (await wouldMatchAsync(rule.rule, facts, state.value)) {
+      throw iterationLimitError(rule.maxIterations);
+    }
+    return { foundMatch: true, value: state.value };
+  }
+  const { foundMatch, value } = await runHelpAsync(
+    rule.rule,
+    facts,
+    { foundMatch: false, value: state.value },
+    [...path, 0],
+    variants
+  );
+  if (!foundMatch) {
+    return { foundMatch: iterations > 0, value: state.value };
+  }
+  return runRepeatedlyAsync(
+    rule,
+    facts,
+    { foundMatch, value },
+    path,
+    variants,
+    iterations + 1
+  );
+};
+
+// like detailedRun but for async rules, it returns a promise resolving to
+// the same tuple:
+//    [error, { value: <value>, foundMatch: <> }]
+// it takes no options, hooks, `explain`, `strict` and schemas only apply to
+// synchronous runs
+const detailedRunAsync: AsyncRunner<"detailed"> = curryToArity(
+  async (rule: AsyncRule, facts: object, initialValue: any) => {
+    const state = { foundMatch: false, value: initialValue };
+    const variants = {};
+    try {
+      const result = await runHelpAsync(rule, facts, state, [], variants);
+      return [null, withVariants(result, variants)];
+    } catch (err) {
+      return [err, null];
+    }
+  },
+  3
+);
+
+// like run but for async rules, it returns a promise resolving to a tuple
+// like [error, value], it takes no options either
+const runAsync: AsyncRunner<"value"> = curryToArity(
+  async (rule: AsyncRule, facts: object, initialValue: any) => {
+    const [err, result] = await detailedRunAsync(rule, facts, initialValue);
+    return [err, result ? result.value : null];
+  },
+  3
+);
+
+export { notAsync, oneAsync, allAsync, runAsync, detailedRunAsync };
@@ -0,0 +1,230 @@
+import {
+  always,
+  applyAll,
+  applyFirst,
+  applyIf,
+  dependsOn,
+  equals,
+  greaterThan,
+  injectFacts,
+  run,
+  runMany,
+} from "./index";
+
+type Product = { id: number; category: string; price?: number };
+
+const add = (value: string) => (facts: unknown, list: string[]) =>
+  [...list, value];
+
+const products: Product[] = [
+  { id: 1, category: "shoes", price: 80 },
+  { id: 2, category: "shirts", price: 20 },
+  { id: 3, category: "shoes", price: 120 },
+  { id: 4, category: "shoes" },
+  { id: 5, category: "hats", price: 15 },
+];
+
+describe("runMany", () => {
+  test("returns the result of run for every item", () => {
+    const rule = applyAll([
+      { matcher: equals("facts.category", "shoes"), action: add("shoes") },
+      { matcher: greaterThan("facts.price", 50), action: add("premium") },
+    ]);
+    const { results } = runMany(rule, products, []);
+    expect(results).toEqual(products.map((facts) => run(rule, facts, [])));
+    expect(results[2]).toEqual([null, ["shoes", "premium"]]);
+  });
+
+  test("uses the initial value of every item when given", () => {
+    const rule = { matcher: always, action: add("x") };
+    const { results } = runMany(rule, products.slice(0, 3), ["shared"], {
+      initialValues: [["first"], ["second"]],
+    });
+    expect(results).toEqual([
+      [null, ["first", "x"]],
+      [null, ["second", "x"]],
+      [null, ["shared", "x"]],
+    ]);
+  });
+
+  test("counts matches and errors without stopping the batch", () => {
+    const rule = applyFirst([
+      {
+        matcher: (facts: Product) => {
+          if (facts.id === 2) {
+            throw new Error("BOOM!");
+          }
+          return facts.category === "shoes";
+        },
+        action: add("shoes"),
+      },
+    ]);
+    const { results, stats } = runMany(rule, products, []);
+    expect(results[0]).toEqual([null, ["shoes"]]);
+    expect(results[1][0]?.message).toMatch(/BOOM!/);
+    expect(results[4]).toEqual([null, []]);
+    expect(stats).toEqual({
+      runs: 5,
+      matches: 3,
+      errors: 1,
+      cacheHits: 0,
+      cacheMisses: 0,
+    });
+  });
+
+  test("memoizes matchers by the facts they depend on", () => {
+    const isExpensive = jest.fn(
+      (facts: Product) => facts.category !== "hats" && facts.id > 0
+    );
+    const rule = applyIf(
+      dependsOn(["facts.category"], isExpensive),
+      applyAll([
+        { matcher: equals("facts.category", "shoes"), action: add("shoes") },
+        { matcher: always, action: add("always") },
+      ])
+    );
+    const { results, stats } = runMany(rule, products, [], { memoize: true });
+    expect(results).toEqual(products.map((facts) => run(rule, facts, [])));
+    expect(isExpensive).toHaveBeenCalledTimes(3 + 5);
+    // 3 categories for the first matcher, the condition isn't run for hats
+    // and `always` isn't memoized
+    expect(stats.cacheMisses).toBe(5);
+    expect(stats.cacheHits).toBe(4);
+  });
+
+  test("identical conditions share their results", () => {
+    const rule = applyAll([
+      { matcher: equals("facts.category", "shoes"), action: add("a") },
+      { matcher: equals("facts.category", "shoes"), action: add("b") },
+    ]);
+    const { stats } = runMany(rule, products, [], { memoize: true });
+    expect(stats.cacheMisses).toBe(3);
+    expect(stats.cacheHits).toBe(7);
+  });
+
+  test("tells missing facts apart from null", () => {
+    const rule = {
+      matcher: equals("facts.price", null),
+      action: add("null"),
+    };
+    const { results } = runMany(
+      rule,
+      [{ price: undefined }, { price: null }],
+      [],
+      { memoize: true }
+    );
+    expect(results).toEqual([
+      [null, []],
+      [null, ["null"]],
+    ]);
+  });
+
+  test("tells numbers JSON can't represent and look-alike strings apart", () => {
+    const isNull = jest.fn((facts: { price: unknown }) => facts.price === null);
+    const rule = {
+      matcher: dependsOn(["facts.price"], isNull),
+      action: add("null"),
+    };
+    const { results, stats } = runMany(
+      rule,
+      [
+        { price: NaN },
+        { price: Infinity },
+        { price: null },
+        { price: undefined },
+        { price: "__undefined__" },
+        { price: "null" },
+        { price: [NaN] },
+        { price: [null] },
+        { price: null },
+      ],
+      [],
+      { memoize: true }
+    );
+    expect(results.map(([, value]) => value)).toEqual([
+      [],
+      [],
+      ["null"],
+      [],
+      [],
+      [],
+      [],
+      [],
+      ["null"],
+    ]);
+    expect(stats).toMatchObject({ cacheHits: 1, cacheMisses: 8 });
+  });
+
+  test("evaluates matchers on maps and sets without memoizing them", () => {
+    type Roles = { roles: Map<string, boolean> | Set<string> };
+    const hasAdmin = jest.fn((facts: Roles) => facts.roles.has("admin"));
+    const rule = {
+      matcher: dependsOn(["facts.roles"], hasAdmin),
+      action: add("admin"),
+    };
+    const roles: Roles[] = [
+      { roles: new Map([["admin", true]]) },
+      { roles: new Map() },
+      { roles: new Set(["admin"]) },
+      { roles: new Set() },
+    ];
+    const { results, stats } = runMany(rule, roles, [], { memoize: true });
+    expect(results.map(([, value]) => value)).toEqual([
+      ["admin"],
+      [],
+      ["admin"],
+      [],
+    ]);
+    expect(hasAdmin).toHaveBeenCalledTimes(4);
+    expect(stats).toMatchObject({ cacheHits: 0, cacheMisses: 4 });
+  });
+
+  test("evaluates matchers on cyclic facts without memoizing them", () => {
+    type Node = { name: string; parent?: Node };
+    const root: Node = { name: "root" };
+    root.parent = root;
+    const isRoot = jest.fn((facts: Node) => facts.parent === facts);
+    const rule = {
+      matcher: dependsOn(["facts.parent"], isRoot),
+      action: add("root"),
+    };
+    const { results, stats } = runMany(rule, [root, root], [], {
+      memoize: true,
+    });
+    expect(results).toEqual([
+      [null, ["root"]],
+      [null, ["root"]],
+    ]);
+    expect(isRoot).toHaveBeenCalledTimes(2);
+    expect(stats).toMatchObject({ cacheHits: 0, cacheMisses: 2 });
+  });
+
+  test("memoizes matchers of injected facts by the injected facts", () => {
+    const rule = injectFacts((facts: Product) => ({ cheap: !facts.price }), {
+      matcher: equals("facts.cheap", true),
+      action: add("cheap"),
+    });
+    const { results, stats } = runMany(rule, products, [], { memoize: true });
+    expect(results[3]).toEqual([null, ["cheap"]]);
+    expect(stats.cacheMisses).toBe(2);
+  });
+
+  test("doesn't memoize conditions on the value", () => {
+    const rule = { matcher: equals("value.length", 0), action: add("x") };
+    const { stats } = runMany(rule, products, [], { memoize: true });
+    expect(stats.cacheHits + stats.cacheMisses).toBe(0);
+  });
+});
+
+describe("dependsOn", () => {
+  test("returns the matcher itself", () => {
+    const matcher = () => true;
+    expect(dependsOn(["facts.id"], matcher)).toBe(matcher);
+  });
+
+  test("only accepts paths into the facts", () => {
+    expect(() => dependsOn(["value.length"], () => true)).toThrow(
+      'dependency "value.length" must start with "facts"'
+    );
+  });
+});
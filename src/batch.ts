@@ -0,0 +1,206 @@
+import { compile } from "./compile";
+import type { ConditionDescriptor } from "./conditions";
+import { isCondition } from "./conditions";
+import { mapRules } from "./tree";
+import type { Matcher, Rule, RuleResult, RunResult } from "./types";
+import { getPath } from "./util";
+
+/* BATCH EVALUATION
+ * Run a rule for many facts at once, e.g. all products of a page. The rule is
+ * compiled once for the whole batch. Matchers which declare the facts they
+ * depend on can be memoized, so an expensive matcher runs once per distinct
+ * combination of these facts instead of once per item.
+ */
+
+// `runMany` options
+//  - initialValues: the initial value of every item, the item at the same
+//      index of `factsList` falls back to the shared initial value
+//  - memoize: reuse the results of matchers with known dependencies, see
+//      `dependsOn`
+type RunManyOptions<Input> = {
+  initialValues?: Input[];
+  memoize?: boolean;
+};
+
+// counted over all items of a batch
+//  - cacheHits / cacheMisses: how often a memoized matcher was skipped or
+//      evaluated, both stay 0 without `memoize`
+type RunManyStats = {
+  runs: number;
+  matches: number;
+  errors: number;
+  cacheHits: number;
+  cacheMisses: number;
+};
+
+type RunManyResult<Value> = {
+  results: RunResult<Value>[];
+  stats: RunManyStats;
+};
+
+const declaredDependencies = new WeakMap<Function, string[]>();
+
+// declare the facts a matcher depends on, paths are dot separated and start
+// with `facts` just like the paths of conditions
+// the matcher is returned as is, it must not depend on anything else,
+// including the current value
+// example:
+//   const isAdult = dependsOn(["facts.user.age"], (facts) => facts.user.age >= 18);
+const dependsOn = <M extends Matcher>(paths: string[], matcher: M): M => {
+  paths.forEach((path) => {
+    if (!/^facts(\.|$)/.test(path)) {
+      throw new Error(`dependency "${path}" must start with "facts"`);
+    }
+  });
+  declaredDependencies.set(matcher, paths);
+  return matcher;
+};
+
+const conditionPaths = (descriptor: ConditionDescriptor): string[] => {
+  switch (descriptor.op) {
+    case "not":
+      return conditionPaths(descriptor.condition);
+    case "one":
+    case "all":
+      return descriptor.conditions.flatMap(conditionPaths);
+    default:
+      return [descriptor.path];
+  }
+};
+
+// the facts a matcher depends on, `undefined` if they aren't known
+// conditions only checking facts don't need to declare them
+const dependenciesOf = (matcher: Function): string[] | undefined => {
+  if (declaredDependencies.has(matcher)) {
+    return declaredDependencies.get(matcher);
+  }
+  if (isCondition(matcher)) {
+    const paths = conditionPaths(matcher.condition);
+    return paths.every((path) => path.startsWith("facts")) ? paths : undefined;
+  }
+  return undefined;
+};
+
+// a key which tells apart every piece of plain data, unlike `JSON.stringify`
+// it keeps `undefined`, `NaN` and `Infinity` apart from `null`
+// anything else, like maps, sets, class instances or cyclic objects, has no
+// key because equal keys wouldn't mean equal data
+const dataKey = (data: unknown, parents: object[]): string | undefined => {
+  if (data === undefined || typeof data === "number") {
+    return Object.is(data, -0) ? "-0" : String(data);
+  }
+  if (data === null || typeof data === "string" || typeof data === "boolean") {
+    return JSON.stringify(data);
+  }
+  if (typeof data !== "object" || parents.includes(data)) {
+    return undefined;
+  }
+  const inner = [...parents, data];
+  if (Array.isArray(data)) {
+    const items = Array.from(data, (item) => dataKey(item, inner));
+    return items.includes(undefined) ? undefined : `[${items.join(",")}]`;
+  }
+  const prototype = Object.getPrototypeOf(data);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return undefined;
+  }
+  const properties = Object.entries(data).map(([name, item]) => {
+    const key = dataKey(item, inner);
+    return key === undefined ? undefined : `${JSON.stringify(name)}:${key}`;
+  });
+  return properties.includes(undefined)
+    ? undefined
+    : `{${properties.join(",")}}`;
+};
+
+const cacheKey = (paths: string[], facts: any): string | undefined =>
+  dataKey(
+    paths.map((path) => getPath(path, facts, undefined)),
+    []
+  );
+
+// replace all matchers with known dependencies by memoized matchers
+// identical conditions share their results
+// the returned counts are updated while the rule runs
+const memoizeMatchers = (rule: Rule) => {
+  const caches = new Map<unknown, Map<string, boolean>>();
+  const counts = { hits: 0, misses: 0 };
+  const memoized = (matcher: Matcher): Matcher => {
+    const paths = dependenciesOf(matcher);
+    if (!paths) {
+      return matcher;
+    }
+    const id = isCondition(matcher)
+      ? JSON.stringify(matcher.condition)
+      : matcher;
+    const cache = caches.get(id) || new Map<string, boolean>();
+    caches.set(id, cache);
+    return (facts, value) => {
+      const key = cacheKey(paths, facts);
+      if (key !== undefined && cache.has(key)) {
+        counts.hits += 1;
+        return cache.get(key) as boolean;
+      }
+      counts.misses += 1;
+      const passed = matcher(facts, value);
+      // without a key the matcher is evaluated every time
+      if (key !== undefined) {
+        cache.set(key, passed);
+      }
+      return passed;
+    };
+  };
+  return {
+    rule: mapRules(rule, (current) =>
+      current.type === undefined ||
+      current.type === "plain" ||
+      current.type === "if"
+        ? { ...current, matcher: memoized(current.matcher) }
+        : current
+    ),
+    counts,
+  };
+};
+
+// run a rule for every item of `factsList`, returns the results in the same
+// order, each like the result of `run`, along with stats of the whole batch
+// errors of single items don't stop the batch
+// example:
+//   const { results, stats } = runMany(rule, products, [], { memoize: true });
+const runMany = <Facts, Result, Input>(
+  rule: Rule<Facts, Result, Input>,
+  factsList: Facts[],
+  initialValue: Input,
+  { initialValues = [], memoize = false }: RunManyOptions<Input> = {}
+): RunManyResult<Result | Input> => {
+  const memoized = memoize ? memoizeMatchers(rule) : undefined;
+  const evaluate = compile(memoized ? memoized.rule : rule);
+  let matches = 0;
+  let errors = 0;
+  const results = factsList.map((facts, index): RunResult<Result | Input> => {
+    const [err, result] = evaluate(
+      facts,
+      index < initialValues.length ? initialValues[index] : initialValue
+    );
+    if (err) {
+      errors += 1;
+      return [err, null];
+    }
+    const { foundMatch, value } = result as RuleResult<Result | Input>;
+    matches += foundMatch ? 1 : 0;
+    return [null, value];
+  });
+  return {
+    results,
+    stats: {
+      runs: factsList.length,
+      matches,
+      errors,
+      cacheHits: memoized ? memoized.counts.hits : 0,
+      cacheMisses: memoized ? memoized.counts.misses : 0,
+    },
+  };
+};
+
+export { dependsOn, runMany };
+export type { RunManyOptions, RunManyResult, RunManyStats };
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+import { pathToFileURL } from "url";
+import { runCli } from "./cli";
+
+/* The `composable-rules` executable, see `./cli.ts` */
+
+const readStdin = () =>
+  new Promise<string>((resolve, reject) => {
+    let text = "";
+    process.stdin.setEncoding("utf8");
+    process.stdin.on("data", (chunk) => {
+      text += chunk;
+    });
+    process.stdin.on("end", () => resolve(text));
+    process.stdin.on("error", reject);
+  });
+
+runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readStdin,
+  stdinIsTTY: Boolean(process.stdin.isTTY),
+  importModule: (path) => import(pathToFileURL(path).href),
+}).then((code) => {
+  process.exitCode = code;
+});
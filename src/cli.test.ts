@@ -0,0 +1,181 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { CliEnvironment } from "./cli";
+import { runCli } from "./cli";
+import { always, applyAll, describeRule, equals } from "./index";
+
+const add = (value: string) => (facts: unknown, list: string[]) =>
+  [...list, value];
+
+const rule = applyAll([
+  describeRule(
+    { name: "germany" },
+    { matcher: equals("facts.country", "DE"), action: add("de") }
+  ),
+  { matcher: always, action: add("all") },
+]);
+
+let cwd: string;
+let output: { stdout: string; stderr: string };
+
+const environment = (stdin = "", stdinIsTTY = false): CliEnvironment => ({
+  cwd,
+  stdout: (text) => {
+    output.stdout += text;
+  },
+  stderr: (text) => {
+    output.stderr += text;
+  },
+  readStdin: async () => stdin,
+  stdinIsTTY,
+  importModule: async (path) =>
+    path === join(cwd, "rules.js")
+      ? { default: rule, other: { matcher: always, action: add("x") } }
+      : {},
+});
+
+const write = (file: string, data: unknown) =>
+  writeFileSync(join(cwd, file), JSON.stringify(data));
+
+beforeEach(() => {
+  cwd = mkdtempSync(join(tmpdir(), "composable-rules-"));
+  output = { stdout: "", stderr: "" };
+});
+
+afterEach(() => {
+  rmSync(cwd, { recursive: true });
+});
+
+describe("run", () => {
+  test("runs the rule with facts from stdin and a value from a file", async () => {
+    write("value.json", ["start"]);
+    const env = environment('{ "country": "DE" }');
+    expect(
+      await runCli(["run", "rules.js", "--value", "value.json"], env)
+    ).toBe(0);
+    expect(JSON.parse(output.stdout)).toEqual({
+      foundMatch: true,
+      value: ["start", "de", "all"],
+    });
+  });
+
+  test("explains why matchers failed", async () => {
+    write("value.json", []);
+    const env = environment('{ "country": "AT" }');
+    expect(
+      await runCli(
+        ["run", "rules.js", "--value", "value.json", "--explain"],
+        env
+      )
+    ).toBe(0);
+    expect(JSON.parse(output.stdout).explanations).toEqual([
+      {
+        path: [0],
+        label: "germany",
+        explanation: {
+          description: 'facts.country equals "DE"',
+          passed: false,
+          reason: 'facts.country was "AT", expected "DE"',
+        },
+      },
+    ]);
+  });
+
+  test("reports errors of the rule", async () => {
+    write("facts.json", { country: "DE" });
+    expect(
+      await runCli(["run", "rules.js", "--facts", "facts.json"], environment())
+    ).toBe(1);
+    expect(output.stderr).toContain('rule "germany" at [0] failed');
+  });
+
+  test("doesn't wait for facts from a terminal", async () => {
+    expect(await runCli(["run", "rules.js"], environment("", true))).toBe(2);
+    expect(output.stderr).toContain(
+      "--facts reads from stdin, which is a terminal, pass a file or pipe the JSON in"
+    );
+    write("facts.json", { country: "AT" });
+    expect(
+      await runCli(
+        ["run", "rules.js", "--facts", "facts.json", "--value", "-"],
+        environment("", true)
+      )
+    ).toBe(2);
+    expect(output.stderr).toContain("--value reads from stdin");
+  });
+
+  test("reports malformed JSON as a usage error", async () => {
+    expect(await runCli(["run", "rules.js"], environment("{ nope"))).toBe(2);
+    expect(output.stderr).toContain("stdin is not valid JSON");
+  });
+});
+
+describe("tree", () => {
+  test("prints the structure of the rule", async () => {
+    expect(await runCli(["tree", "rules.js"], environment())).toBe(0);
+    expect(output.stdout).toBe(
+      [
+        "all",
+        '  germany (plain) when facts.country equals "DE"',
+        "  plain",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("prints diagrams and other exports", async () => {
+    await runCli(["tree", "rules.js", "--export", "other"], environment());
+    expect(output.stdout).toBe("plain\n");
+    output.stdout = "";
+    await runCli(["tree", "rules.js", "--format", "mermaid"], environment());
+    expect(output.stdout).toMatch(/^flowchart TD/);
+    expect(
+      await runCli(["tree", "rules.js", "--format", "svg"], environment())
+    ).toBe(2);
+  });
+});
+
+describe("test", () => {
+  test("passes when every fixture produces the expected value", async () => {
+    write("de.json", {
+      name: "germany",
+      facts: { country: "DE" },
+      initialValue: [],
+      expected: ["de", "all"],
+    });
+    write("notes.txt", "ignored");
+    expect(await runCli(["test", "rules.js", "."], environment())).toBe(0);
+    expect(output.stdout).toBe("✓ germany\n1 of 1 fixtures passed\n");
+  });
+
+  test("fails when a fixture produces another value", async () => {
+    write("a.json", {
+      facts: { country: "AT" },
+      initialValue: [],
+      expected: ["at"],
+    });
+    write("b.json", { facts: { country: "DE" }, expected: [] });
+    expect(await runCli(["test", "rules.js", "."], environment())).toBe(1);
+    expect(output.stdout.split("\n")).toEqual([
+      '✗ a.json: expected ["at"], got ["all"]',
+      expect.stringContaining('✗ b.json: rule "germany" at [0] failed'),
+      "0 of 2 fixtures passed",
+      "",
+    ]);
+  });
+});
+
+describe("runCli", () => {
+  test("prints the usage for wrong arguments", async () => {
+    expect(await runCli(["--help"], environment())).toBe(0);
+    expect(output.stdout).toContain("Usage: composable-rules");
+    expect(await runCli(["lint", "rules.js"], environment())).toBe(2);
+    expect(output.stderr).toContain('unknown command "lint"');
+    expect(await runCli(["tree", "rules.js", "--depth"], environment())).toBe(
+      2
+    );
+    expect(await runCli(["tree", "missing.js"], environment())).toBe(2);
+    expect(output.stderr).toContain('missing.js has no export "default"');
+  });
+});
@@ -0,0 +1,275 @@
+import { readdir, readFile } from "fs/promises";
+import { extname, join, resolve } from "path";
+import { isDeepStrictEqual, parseArgs } from "util";
+import { describeCondition, isCondition } from "./conditions";
+import { toDot, toMermaid } from "./diagram";
+import type { Fixture } from "./diff";
+import { detailedRun } from "./run";
+import { listRules, ruleLabel } from "./tree";
+import type { Rule, RunOptions } from "./types";
+
+/* COMMAND LINE
+ * Run and inspect rules without writing a throwaway script. The commands
+ * load a module exporting a rule, the default export unless another one is
+ * named with `--export`. Only the environment they run in (output, stdin,
+ * loading modules) is passed in, so they can be run from tests as well.
+ */
+
+// what the commands need from the outside world, see `./bin.ts`
+// `stdinIsTTY` is true when stdin is a terminal instead of a pipe or file,
+// reading it would wait for input that never comes
+type CliEnvironment = {
+  cwd: string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => Promise<string>;
+  stdinIsTTY: boolean;
+  importModule: (path: string) => Promise<Record<string, unknown>>;
+};
+
+// a fixture of the `test` command, the rule is expected to produce
+// `expected` as its value
+type FixtureCase<Facts = any, Input = any> = Fixture<Facts, Input> & {
+  expected: unknown;
+};
+
+// thrown for wrong arguments, ends the command with exit code 2
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const usage = `Usage: composable-rules <command> <module> [options]
+
+Commands:
+  run <module>          run the rule with detailedRun and print the result
+  tree <module>         print the structure of the rule tree
+  test <module> <dir>   run every JSON fixture in the directory and compare
+                        the value with the expected one
+
+Options:
+  --export <name>       the export of the module holding the rule (default: default)
+  --facts <file>        run: JSON file with the facts, - for stdin (default: -)
+  --value <file>        run: JSON file with the initial value, - for stdin (default: null)
+  --explain             run: explain why the matchers of rules failed
+  --strict              run, test: fail rules which mutate the facts or values
+  --format <format>     tree: text, mermaid or dot (default: text)
+  --help                print this help
+
+Fixtures are JSON files like { "name", "facts", "initialValue", "expected" }.
+`;
+
+const parseJson = (text: string, source: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new UsageError(
+      `${source} is not valid JSON: ${(err as Error).message}`
+    );
+  }
+};
+
+const loadRule = async (
+  env: CliEnvironment,
+  path: string | undefined,
+  exportName = "default"
+): Promise<Rule> => {
+  if (!path) {
+    throw new UsageError("missing the module exporting the rule");
+  }
+  const module = await env.importModule(resolve(env.cwd, path));
+  if (!(exportName in module)) {
+    throw new UsageError(`${path} has no export "${exportName}"`);
+  }
+  return module[exportName] as Rule;
+};
+
+// reads JSON from a file or stdin for `-`
+const readJson = async (env: CliEnvironment, file: string) =>
+  file === "-"
+    ? parseJson(await env.readStdin(), "stdin")
+    : parseJson(await readFile(resolve(env.cwd, file), "utf8"), file);
+
+const matcherLabel = (rule: Rule) =>
+  (rule.type === undefined || rule.type === "plain" || rule.type === "if") &&
+  isCondition(rule.matcher)
+    ? ` when ${describeCondition(rule.matcher.condition)}`
+    : "";
+
+// one line for every rule, indented by its depth
+// example:
+//   all
+//     germany (plain) when facts.country equals "DE"
+const formatTree = (rule: Rule): string =>
+  listRules(rule)
+    .map(({ rule: current, path }) => {
+      const type = current.type || "plain";
+      const label = ruleLabel(current);
+      return `${"  ".repeat(path.length)}${label}${
+        label === type ? "" : ` (${type})`
+      }${matcherLabel(current)}`;
+    })
+    .join("\n");
+
+const runCommand = async (
+  env: CliEnvironment,
+  rule: Rule,
+  facts = "-",
+  value?: string,
+  options: RunOptions = {}
+) => {
+  if (facts === "-" && value === "-") {
+    throw new UsageError("only one of --facts and --value can be read from -");
+  }
+  if (env.stdinIsTTY && (facts === "-" || value === "-")) {
+    throw new UsageError(
+      `${
+        facts === "-" ? "--facts" : "--value"
+      } reads from stdin, which is a terminal, pass a file or pipe the JSON in`
+    );
+  }
+  const [err, result] = detailedRun(
+    rule,
+    (await readJson(env, facts)) as object,
+    value === undefined ? null : await readJson(env, value),
+    options
+  );
+  if (err) {
+    env.stderr(`${err.message}\n`);
+    return 1;
+  }
+  env.stdout(`${JSON.stringify(result, null, 2)}\n`);
+  return 0;
+};
+
+const treeCommand = (env: CliEnvironment, rule: Rule, format = "text") => {
+  const formatters: Record<string, (tree: Rule) => string> = {
+    text: formatTree,
+    mermaid: toMermaid,
+    dot: toDot,
+  };
+  if (!formatters[format]) {
+    throw new UsageError(
+      `unknown format "${format}", expected text, mermaid or dot`
+    );
+  }
+  env.stdout(`${formatters[format](rule)}\n`);
+  return 0;
+};
+
+// every JSON file of the directory in alphabetical order, fixtures without
+// a name are named after their file
+const loadFixtures = async (
+  env: CliEnvironment,
+  dir: string
+): Promise<FixtureCase[]> => {
+  const files = (await readdir(resolve(env.cwd, dir)))
+    .filter((file) => extname(file) === ".json")
+    .sort();
+  return Promise.all(
+    files.map(async (file) => {
+      const fixture = (await readJson(env, join(dir, file))) as FixtureCase;
+      if (typeof fixture !== "object" || fixture === null) {
+        throw new UsageError(`${file} must contain a fixture object`);
+      }
+      return { ...fixture, name: fixture.name ?? file };
+    })
+  );
+};
+
+const testCommand = async (
+  env: CliEnvironment,
+  rule: Rule,
+  dir: string | undefined,
+  strict = false
+) => {
+  if (!dir) {
+    throw new UsageError("missing the directory of fixtures");
+  }
+  const fixtures = await loadFixtures(env, dir);
+  const failures = fixtures.filter(
+    ({ name, facts, initialValue, expected }) => {
+      const [err, result] = detailedRun(rule, facts, initialValue ?? null, {
+        strict,
+      });
+      if (err) {
+        env.stdout(`✗ ${name}: ${err.message}\n`);
+        return true;
+      }
+      if (!isDeepStrictEqual(result.value, expected)) {
+        env.stdout(
+          `✗ ${name}: expected ${JSON.stringify(
+            expected
+          )}, got ${JSON.stringify(result.value)}\n`
+        );
+        return true;
+      }
+      env.stdout(`✓ ${name}\n`);
+      return false;
+    }
+  );
+  env.stdout(
+    `${fixtures.length - failures.length} of ${
+      fixtures.length
+    } fixtures passed\n`
+  );
+  return failures.length === 0 ? 0 : 1;
+};
+
+// run the command line with the arguments after the script name, resolves
+// to the exit code: 0 on success, 1 when the rule failed or a fixture didn't
+// match and 2 for wrong arguments
+// example:
+//   runCli(["run", "./rules.js", "--facts", "facts.json"], env)
+const runCli = async (args: string[], env: CliEnvironment): Promise<number> => {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        export: { type: "string" },
+        facts: { type: "string" },
+        value: { type: "string" },
+        format: { type: "string" },
+        explain: { type: "boolean" },
+        strict: { type: "boolean" },
+        help: { type: "boolean" },
+      },
+    });
+    const [command, modulePath, dir] = positionals;
+    if (values.help || !command) {
+      env.stdout(usage);
+      return values.help ? 0 : 2;
+    }
+    if (!["run", "tree", "test"].includes(command)) {
+      throw new UsageError(`unknown command "${command}"`);
+    }
+    const rule = await loadRule(env, modulePath, values.export);
+    if (command === "run") {
+      return await runCommand(env, rule, values.facts, values.value, {
+        explain: values.explain,
+        strict: values.strict,
+      });
+    }
+    if (command === "tree") {
+      return treeCommand(env, rule, values.format);
+    }
+    return await testCommand(env, rule, dir, values.strict);
+  } catch (err) {
+    env.stderr(`${(err as Error).message}\n`);
+    // parseArgs throws errors with codes like ERR_PARSE_ARGS_UNKNOWN_OPTION
+    if (
+      err instanceof UsageError ||
+      String((err as { code?: string }).code).startsWith("ERR_PARSE_ARGS")
+    ) {
+      env.stderr(`\n${usage}`);
+      return 2;
+    }
+    return 1;
+  }
+};
+
+export { runCli };
+export type { CliEnvironment, FixtureCase };
@@ -0,0 +1,81 @@
+import {
+  collectedOutput,
+  concatOutputs,
+  mergeOutputs,
+  uniqueOutputsBy,
+} from "./collect";
+
+const output = <Value>(value: Value, index = 0) => ({ index, value });
+
+describe("collectedOutput", () => {
+  test("names the producing rule by its index, id and name", () => {
+    expect(collectedOutput({ id: "vip", name: "VIP badge" }, 2, "vip")).toEqual(
+      { index: 2, id: "vip", name: "VIP badge", value: "vip" }
+    );
+  });
+
+  test("leaves out what the rule doesn't have", () => {
+    const collected = collectedOutput({ description: "no id" }, 0, null);
+    expect(collected).toEqual({ index: 0, value: null });
+    expect(Object.keys(collected)).toEqual(["index", "value"]);
+  });
+});
+
+describe("mergeOutputs", () => {
+  test("merges the outputs into a new object, later ones win", () => {
+    const first = { a: 1, b: 1 };
+    const merged = mergeOutputs([output(first), output({ b: 2 }, 1)]);
+    expect(merged).toEqual({ a: 1, b: 2 });
+    expect(first).toEqual({ a: 1, b: 1 });
+  });
+
+  test("returns an empty object without outputs", () => {
+    expect(mergeOutputs([])).toEqual({});
+  });
+});
+
+describe("concatOutputs", () => {
+  test("joins the outputs, flattening lists one level deep", () => {
+    expect(
+      concatOutputs<string | string[]>([
+        output("a"),
+        output(["b", "c"], 1),
+        output([["d"]], 2),
+      ])
+    ).toEqual(["a", "b", "c", ["d"]]);
+  });
+});
+
+describe("uniqueOutputsBy", () => {
+  const badges = [
+    output([
+      { id: "new", label: "New" },
+      { id: "sale", label: "Sale" },
+    ]),
+    output({ id: "sale", label: "Sale!" }, 1),
+  ];
+
+  test("keeps the first item for every value of a property", () => {
+    expect(uniqueOutputsBy("id")(badges)).toEqual([
+      { id: "new", label: "New" },
+      { id: "sale", label: "Sale" },
+    ]);
+  });
+
+  test("keeps the first item for every key returned by a function", () => {
+    expect(
+      uniqueOutputsBy((badge: { label: string }) => badge.label.length)(badges)
+    ).toEqual([
+      { id: "new", label: "New" },
+      { id: "sale", label: "Sale" },
+      { id: "sale", label: "Sale!" },
+    ]);
+  });
+
+  test("treats items without the property as having the key undefined", () => {
+    expect(uniqueOutputsBy("id")([output([null, {}, 1, { id: 1 }])])).toEqual([
+      null,
+      { id: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { CollectedOutput, RuleMeta } from "./types";
+
+/* COLLECTING OUTPUTS
+ * The child rules of a "collect" rule don't see each other's output, every
+ * one of them receives the same incoming value. The outputs of the matching
+ * ones are collected along with the rule producing them and combined by a
+ * reducer, e.g. to gather all badges that apply to a product. Shared by all
+ * ways of running rules.
+ */
+
+// the output of the child rule at `index`
+const collectedOutput = (
+  rule: RuleMeta,
+  index: number,
+  value: unknown
+): CollectedOutput => ({
+  index,
+  ...(rule.id === undefined ? {} : { id: rule.id }),
+  ...(rule.name === undefined ? {} : { name: rule.name }),
+  value,
+});
+
+// a reducer merging the outputs, which have to be objects, into one object,
+// later outputs overwrite properties of earlier ones
+const mergeOutputs = <Value extends object>(
+  outputs: CollectedOutput<Value>[]
+): Value => Object.assign({}, ...outputs.map((output) => output.value));
+
+// a reducer joining the outputs into one list, outputs which are lists are
+// flattened
+const concatOutputs = <Item>(
+  outputs: CollectedOutput<Item | Item[]>[]
+): Item[] => outputs.flatMap((output) => output.value);
+
+// creates a reducer joining the outputs into one list like `concatOutputs`
+// and keeping only the first item for every key, `key` is the name of a
+// property of the items or a function returning the key of an item
+// example:
+//   collectAll(badgeRules, uniqueOutputsBy("id"))
+const uniqueOutputsBy =
+  <Item>(key: string | ((item: Item) => unknown)) =>
+  (outputs: CollectedOutput<Item | Item[]>[]): Item[] => {
+    const keyOf = typeof key === "function" ? key : (item: any) => item?.[key];
+    const seen = new Set();
+    return concatOutputs(outputs).filter((item) => {
+      const itemKey = keyOf(item);
+      if (seen.has(itemKey)) {
+        return false;
+      }
+      seen.add(itemKey);
+      return true;
+    });
+  };
+
+export { collectedOutput, concatOutputs, mergeOutputs, uniqueOutputsBy };
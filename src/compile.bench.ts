@@ -0,0 +1,109 @@
+import type { Rule } from "./index";
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyIf,
+  compile,
+  detailedRun,
+  injectFacts,
+  transformOutput,
+} from "./index";
+
+/* BENCHMARKS
+ * Compare `detailedRun` with evaluators created by `compile` for a few typical
+ * shapes of rule trees. Run them with `npm run bench`, they are not part of
+ * the tests.
+ */
+
+type Facts = { id: number; country: string };
+
+const add = (value: number) => (facts: Facts, list: number[]) =>
+  [...list, value];
+const isCountry = (country: string) => (facts: Facts) =>
+  facts.country === country;
+const isOdd = (facts: Facts) => facts.id % 2 === 1;
+
+// many alternatives of which one matches towards the end
+const longFirst = applyFirst(
+  Array.from({ length: 500 }, (_, index) => ({
+    matcher: isCountry(`C${index}`),
+    action: add(index),
+  }))
+);
+
+// every rule runs and passes the value on
+const longChain = applyChain(
+  Array.from({ length: 500 }, (_, index) => ({
+    matcher: always,
+    action: (facts: Facts, list: number[]) =>
+      list.length > 10 ? list : add(index)(facts, list),
+  }))
+);
+
+// a tree mixing all combinators, like the rules of a page
+const mixedTree = applyAll(
+  Array.from({ length: 20 }, (_, index) =>
+    applyIf(
+      index % 2 === 0 ? always : isOdd,
+      injectFacts(
+        (facts: Facts) => ({ ...facts, id: facts.id + index }),
+        transformOutput(
+          (list: number[]) => list.slice(-5),
+          applyFirst([
+            { matcher: isCountry("AT"), action: add(index) },
+            applyChain([
+              { matcher: isOdd, action: add(index) },
+              { matcher: always, action: add(-index) },
+            ]),
+            { matcher: always, action: add(0) },
+          ])
+        )
+      )
+    )
+  )
+);
+
+const factsList: Facts[] = Array.from({ length: 100 }, (_, id) => ({
+  id,
+  country: id % 10 === 0 ? "C450" : "DE",
+}));
+
+// runs per millisecond, measured for at least `duration` milliseconds
+const measure = (fn: (facts: Facts) => unknown, duration = 500) => {
+  const start = performance.now();
+  let runs = 0;
+  while (performance.now() - start < duration) {
+    factsList.forEach(fn);
+    runs += factsList.length;
+  }
+  return runs / (performance.now() - start);
+};
+
+const benchmarks: [string, Rule<Facts, number[]>][] = [
+  ["applyFirst with 500 rules", longFirst],
+  ["applyChain with 500 rules", longChain],
+  ["tree of mixed rules", mixedTree],
+];
+
+describe("compile vs. detailedRun", () => {
+  test.each(benchmarks)("%s", (name, rule) => {
+    const evaluate = compile(rule);
+    factsList.forEach((facts) =>
+      expect(evaluate(facts, [])).toEqual(detailedRun(rule, facts, []))
+    );
+    const interpreted = measure((facts) => detailedRun(rule, facts, []));
+    const compiled = measure((facts) => evaluate(facts, []));
+    // eslint-disable-next-line no-console
+    console.log(
+      [
+        name,
+        `  detailedRun: ${interpreted.toFixed(1)} runs/ms`,
+        `  compile:     ${compiled.toFixed(1)} runs/ms (${(
+          compiled / interpreted
+        ).toFixed(2)}x)`,
+      ].join("\n")
+    );
+  });
+});
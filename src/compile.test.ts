@@ -0,0 +1,270 @@
+import type { Rule } from "./index";
+import {
+  always,
+  applyAll,
+  applyAllByPriority,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  applyRepeatedly,
+  applyToEach,
+  collectAll,
+  compile,
+  concatOutputs,
+  detailedRun,
+  experiment,
+  injectFacts,
+  onError,
+  RuleError,
+  transformOutput,
+} from "./index";
+
+type Facts = { country: string; count: number };
+
+const isCountry = (country: string) => (facts: Facts) =>
+  facts.country === country;
+const hasLength = (length: number) => (facts: Facts, list: any[]) =>
+  list.length === length;
+const add = (value: any) => (facts: Facts, list: any[]) => [...list, value];
+const rule = (matcher: (facts: Facts, list: any[]) => boolean, value: any) => ({
+  matcher,
+  action: add(value),
+});
+const fail = () => false;
+
+const examples: [string, Rule<Facts, any[]>][] = [
+  ["plain rule", rule(isCountry("DE"), "de")],
+  [
+    "applyAll",
+    applyAll([rule(isCountry("DE"), "de"), rule(always, 1), rule(fail, 2)]),
+  ],
+  [
+    "applyFirst",
+    applyFirst([rule(isCountry("AT"), "at"), rule(isCountry("DE"), "de")]),
+  ],
+  [
+    "applyChain",
+    applyChain([rule(always, 1), rule(isCountry("DE"), "de"), rule(always, 2)]),
+  ],
+  [
+    "applyIf",
+    applyIf(isCountry("DE"), applyAll([rule(always, 1), rule(fail, 2)])),
+  ],
+  [
+    "injectFacts",
+    injectFacts(
+      (facts: Facts) => ({ ...facts, country: "DE" }),
+      rule(isCountry("DE"), "de")
+    ),
+  ],
+  [
+    "transformOutput",
+    transformOutput(
+      (list: any[]) => [...list].reverse(),
+      applyChain([rule(always, 1), rule(hasLength(1), 2)])
+    ),
+  ],
+  [
+    "applyFirstByPriority",
+    applyFirstByPriority([
+      { priority: 1, rule: rule(always, 1) },
+      { priority: (facts: Facts) => facts.count, rule: rule(always, 2) },
+      { priority: 5, rule: rule(isCountry("DE"), "de") },
+    ]),
+  ],
+  [
+    "applyAllByPriority",
+    applyAllByPriority([
+      { priority: 1, rule: rule(always, 1) },
+      { priority: (facts: Facts) => facts.count, rule: rule(fail, 2) },
+      { priority: 5, rule: rule(isCountry("DE"), "de") },
+      { priority: 5, rule: rule(always, 3) },
+    ]),
+  ],
+  [
+    "experiment",
+    applyAll([
+      experiment("by country", {
+        key: "facts.country",
+        variants: [
+          { name: "a", rule: rule(always, "a") },
+          { name: "b", weight: 2, rule: rule(hasLength(0), "b") },
+        ],
+      }),
+      experiment("without key", {
+        key: "facts.missing",
+        variants: [{ name: "a", rule: rule(always, "never") }],
+      }),
+    ]),
+  ],
+  [
+    "collectAll",
+    applyAll([
+      collectAll([rule(always, "a"), rule(fail, "b"), rule(hasLength(0), "c")]),
+      collectAll([rule(always, "d"), rule(always, "e")], concatOutputs),
+      collectAll([rule(fail, "never")]),
+    ]),
+  ],
+  [
+    "applyToEach",
+    applyAll<Facts, any[]>([
+      applyToEach({
+        matcher: (facts: Facts, item: number) => item === 0,
+        action: (facts: Facts, item: number) => item + facts.count,
+      }),
+      applyToEach(
+        { matcher: always, action: (facts: Facts) => facts.count },
+        (facts: Facts, item: number, index: number) => ({
+          ...facts,
+          count: index,
+        })
+      ),
+    ]),
+  ],
+  [
+    "applyRepeatedly",
+    applyAll([
+      applyRepeatedly(
+        3,
+        rule((facts, list) => list.length < 3, 1)
+      ),
+      onError("skip", applyRepeatedly(2, rule(isCountry("DE"), "de"))),
+      applyRepeatedly(
+        4,
+        applyFirst([rule((facts, list) => list.length < 5, 2)])
+      ),
+    ]),
+  ],
+  ["empty lists", applyAll([applyFirst([]), applyChain([]), applyAll([])])],
+  [
+    // rules which don't match return the state they were run with, which
+    // counts as a match when a previous rule matched
+    "state passed on from previous rules",
+    applyAll([
+      rule(isCountry("DE"), "de"),
+      applyFirst([
+        applyChain([rule(fail, 1)]),
+        applyFirst([]),
+        rule(always, 2),
+      ]),
+      applyChain([applyFirst([rule(fail, 3)]), rule(always, 4)]),
+    ]),
+  ],
+  [
+    "deeply combined rules",
+    applyFirst([
+      applyIf(
+        hasLength(5),
+        transformOutput((list: any[]) => list.slice(1), rule(always, "x"))
+      ),
+      applyChain([
+        applyAll([rule(isCountry("AT"), "at"), rule(hasLength(0), 0)]),
+        injectFacts(
+          (facts: Facts) => ({ ...facts, count: facts.count + 1 }),
+          applyFirst([
+            rule((facts) => facts.count > 2, "many"),
+            rule(always, "few"),
+          ])
+        ),
+      ]),
+    ]),
+  ],
+];
+
+const factsList: Facts[] = [
+  { country: "DE", count: 0 },
+  { country: "AT", count: 2 },
+  { country: "CH", count: 5 },
+];
+
+describe("compile", () => {
+  describe.each(examples)("%s", (name, example) => {
+    const evaluate = compile(example);
+    test.each(factsList)("behaves like detailedRun for %o", (facts) => {
+      [[], [0], [0, 0, 0, 0, 0]].forEach((initialValue) => {
+        expect(evaluate(facts, initialValue)).toEqual(
+          detailedRun(example, facts, initialValue)
+        );
+      });
+    });
+  });
+
+  test("can be curried", () => {
+    const evaluate = compile(rule(isCountry("DE"), "de"));
+    expect(evaluate({ country: "DE", count: 0 })([])).toEqual([
+      null,
+      { foundMatch: true, value: ["de"] },
+    ]);
+  });
+
+  test("returns errors like detailedRun", () => {
+    const failing = applyAll([
+      rule(always, 1),
+      applyIf(always, {
+        matcher: always,
+        action: (): any[] => {
+          throw new Error("BOOM!");
+        },
+      }),
+    ]);
+    const [err, result] = compile(failing)({ country: "DE", count: 0 }, []);
+    expect(result).toBe(null);
+    expect(err).toBeInstanceOf(RuleError);
+    expect(err).toEqual(
+      detailedRun(failing, { country: "DE", count: 0 }, [])[0]
+    );
+    expect(err).toMatchObject({ path: [1, 0], value: [1] });
+  });
+
+  test("applies error policies like detailedRun", () => {
+    const throwing = (message: string) => ({
+      matcher: () => {
+        throw new Error(message);
+      },
+      action: add("never"),
+    });
+    const guarded = applyAll([
+      rule(always, 1),
+      onError("skip", applyAll([rule(always, 2), throwing("skip")])),
+      onError(
+        { fallback: ["fallback"] },
+        applyFirst([rule(fail, 3), throwing("fallback")])
+      ),
+      rule(always, 4),
+    ]);
+    const facts = { country: "DE", count: 0 };
+    expect(compile(guarded)(facts, [])).toEqual(
+      detailedRun(guarded, facts, [])
+    );
+    expect(compile(guarded)(facts, [])).toEqual([
+      null,
+      { foundMatch: true, value: ["fallback", 4] },
+    ]);
+    const aborting = onError("skip", onError("abort", throwing("abort")));
+    const [err] = compile(aborting)(facts, []);
+    expect(err).toMatchObject({ path: [0, 0] });
+  });
+
+  test("doesn't overflow the stack for long lists of rules", () => {
+    const rules = Array.from({ length: 100000 }, () => rule(fail, 1));
+    const evaluate = compile(
+      applyChain([applyFirst(rules), applyAll(rules), rule(always, 2)])
+    );
+    expect(evaluate({ country: "DE", count: 0 }, [])).toEqual([
+      null,
+      { foundMatch: false, value: [] },
+    ]);
+  });
+
+  test("doesn't overflow the stack for deeply nested rules", () => {
+    const nested = Array.from({ length: 10000 }).reduce<Rule>(
+      (acc) => transformOutput((x: any) => x, acc),
+      rule(always, "x")
+    );
+    expect(compile(nested)({ country: "DE", count: 0 }, [])).toEqual([
+      null,
+      { foundMatch: true, value: ["x"] },
+    ]);
+  });
+});
@@ -0,0 +1,357 @@
+import { collectedOutput } from "./collect";
+import type { RuleError } from "./errors";
+import { handleError, toRuleError } from "./errors";
+import { variantIndex } from "./experiment";
+import { iterationLimitError, listValue, wouldMatch } from "./iterate";
+import { priorityOrder } from "./priority";
+import { withVariants } from "./run";
+import type { RulePath } from "./tree";
+import { childRules } from "./tree";
+import type {
+  CollectedOutput,
+  Rule,
+  RuleResult,
+  RunOutput,
+  RunWithFacts,
+} from "./types";
+import curryToArity from "./util";
+
+/* COMPILING RULES
+ * `detailedRun` walks the rule tree recursively on every run. `compile` walks
+ * it only once and returns an evaluator which runs the rules with an explicit
+ * stack instead of recursion, so neither long lists of rules nor deeply
+ * nested rules can overflow the call stack.
+ */
+
+// a rule of the compiled tree, `index` is its position among the child rules
+// of its parent
+type Node = {
+  rule: Rule;
+  parent?: Node;
+  index: number;
+  children: Node[];
+};
+
+// a rule that is being run
+//  - state: the state the rule was run with
+//  - current: the state built up by the child rules of "all" and "chain"
+//      rules, the outputs for the items of "each" rules
+//  - next: the index of the next child rule to run, for "each" and "repeat"
+//      rules the number of times their child rule was started
+//  - order: the indexes of the child rules of "prioritized" rules in the order
+//      they are run, `next` is an index into it
+//  - outputs: the outputs of the matching child rules of "collect" rules
+type Frame = {
+  node: Node;
+  facts: any;
+  state: RuleResult;
+  current: RuleResult;
+  next: number;
+  order?: number[];
+  outputs?: CollectedOutput[];
+};
+
+const compileTree = (rule: Rule): Node => {
+  const root: Node = { rule, index: 0, children: [] };
+  const pending = [root];
+  while (pending.length > 0) {
+    const node = pending.pop() as Node;
+    node.children = childRules(node.rule).map((child, index) => ({
+      rule: child,
+      parent: node,
+      index,
+      children: [],
+    }));
+    node.children.forEach((child) => pending.push(child));
+  }
+  return root;
+};
+
+// paths are only needed for errors, so they are not stored on every node
+const pathOf = (node: Node): RulePath => {
+  const path: RulePath = [];
+  let current = node;
+  while (current.parent) {
+    path.unshift(current.index);
+    current = current.parent;
+  }
+  return path;
+};
+
+const frameFor = (node: Node, facts: any, state: RuleResult): Frame => ({
+  node,
+  facts,
+  state,
+  current: state,
+  next: 0,
+});
+
+// remove the rules which are affected by an error from the stack, up to the
+// closest rule combined with `onError` that handles the error
+// that rule stays on the stack and the result of its policy is returned
+const unwind = (stack: Frame[], error: RuleError): RuleResult => {
+  stack.pop();
+  while (stack.length > 0) {
+    const { node, state } = stack[stack.length - 1];
+    if (node.rule.type === "guarded") {
+      try {
+        return handleError(node.rule.policy, error, state);
+      } catch (err) {
+        // the error has to end the run
+      }
+    }
+    stack.pop();
+  }
+  throw error;
+};
+
+// works exactly like `runHelp`, every step either starts a child rule of the
+// rule on top of the stack or finishes that rule
+const evaluate = (root: Node, facts: any, initialValue: any): RuleResult => {
+  const variants: Record<string, string> = {};
+  const stack = [
+    frameFor(root, facts, { foundMatch: false, value: initialValue }),
+  ];
+  // the result of the rule that finished last, passed on to the rule that ran it
+  let result: RuleResult | undefined;
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const { node, state } = frame;
+    const { rule, children } = node;
+    const childResult = result;
+    let child: Frame | undefined;
+    result = undefined;
+    try {
+      switch (rule.type) {
+        case "injected":
+          if (childResult) {
+            result = childResult;
+          } else {
+            child = frameFor(children[0], rule.mapper(frame.facts), state);
+          }
+          break;
+        case "transformed":
+          if (childResult) {
+            const { foundMatch, value } = childResult;
+            result = {
+              foundMatch,
+              value: foundMatch ? rule.transformer(value) : value,
+            };
+          } else {
+            child = frameFor(children[0], frame.facts, state);
+          }
+          break;
+        case "if":
+          if (childResult) {
+            result = childResult;
+          } else if (rule.matcher(frame.facts, state.value)) {
+            child = frameFor(children[0], frame.facts, state);
+          } else {
+            result = { foundMatch: false, value: state.value };
+          }
+          break;
+        case "guarded":
+          if (childResult) {
+            result = childResult;
+          } else {
+            child = frameFor(children[0], frame.facts, state);
+          }
+          break;
+        case "all":
+          if (childResult) {
+            frame.current = {
+              foundMatch: frame.current.foundMatch || childResult.foundMatch,
+              value: childResult.value,
+            };
+          }
+          if (frame.next < children.length) {
+            child = frameFor(children[frame.next], frame.facts, frame.current);
+          } else {
+            result = frame.current;
+          }
+          break;
+        case "first":
+          if (childResult?.foundMatch) {
+            result = { foundMatch: true, value: childResult.value };
+          } else if (frame.next < children.length) {
+            child = frameFor(children[frame.next], frame.facts, state);
+          } else {
+            result = state;
+          }
+          break;
+        case "chain":
+          if (childResult && !childResult.foundMatch) {
+            result = frame.current;
+          } else {
+            if (childResult) {
+              frame.current = { foundMatch: true, value: childResult.value };
+            }
+            if (frame.next < children.length) {
+              child = frameFor(
+                children[frame.next],
+                frame.facts,
+                frame.current
+              );
+            } else {
+              result = frame.current;
+            }
+          }
+          break;
+        case "prioritized": {
+          frame.order =
+            frame.order ||
+            priorityOrder(
+              rule.priorities.map((priority) =>
+                typeof priority === "function"
+                  ? priority(frame.facts)
+                  : priority
+              )
+            );
+          const nextChild = children[frame.order[frame.next]];
+          if (rule.mode === "all") {
+            if (childResult) {
+              frame.current = {
+                foundMatch: frame.current.foundMatch || childResult.foundMatch,
+                value: childResult.value,
+              };
+            }
+            if (nextChild) {
+              child = frameFor(nextChild, frame.facts, frame.current);
+            } else {
+              result = frame.current;
+            }
+          } else if (childResult?.foundMatch) {
+            result = { foundMatch: true, value: childResult.value };
+          } else if (nextChild) {
+            child = frameFor(nextChild, frame.facts, state);
+          } else {
+            result = state;
+          }
+          break;
+        }
+        case "experiment": {
+          if (childResult) {
+            result = childResult;
+            break;
+          }
+          const index = variantIndex(rule, frame.facts, state.value);
+          if (index < 0) {
+            result = { foundMatch: false, value: state.value };
+          } else {
+            variants[rule.experiment] = rule.variants[index];
+            child = frameFor(children[index], frame.facts, state);
+          }
+          break;
+        }
+        case "collect": {
+          frame.outputs = frame.outputs || [];
+          if (childResult?.foundMatch) {
+            const index = frame.next - 1;
+            frame.outputs.push(
+              collectedOutput(children[index].rule, index, childResult.value)
+            );
+          }
+          if (frame.next < children.length) {
+            child = frameFor(children[frame.next], frame.facts, state);
+          } else if (frame.outputs.length === 0) {
+            result = { foundMatch: false, value: state.value };
+          } else {
+            result = {
+              foundMatch: true,
+              value: rule.reducer
+                ? rule.reducer(frame.outputs, state.value)
+                : frame.outputs,
+            };
+          }
+          break;
+        }
+        case "each": {
+          const items = listValue(state.value);
+          if (frame.next === 0) {
+            frame.current = { foundMatch: false, value: [] };
+          }
+          if (childResult) {
+            frame.current.foundMatch =
+              frame.current.foundMatch || childResult.foundMatch;
+            frame.current.value.push(childResult.value);
+          }
+          if (frame.next < items.length) {
+            const item = items[frame.next];
+            child = frameFor(
+              children[0],
+              rule.mapper
+                ? rule.mapper(frame.facts, item, frame.next)
+                : frame.facts,
+              { foundMatch: false, value: item }
+            );
+          } else {
+            result = frame.current.foundMatch
+              ? frame.current
+              : { foundMatch: false, value: state.value };
+          }
+          break;
+        }
+        case "repeat":
+          if (childResult && !childResult.foundMatch) {
+            result = { foundMatch: frame.next > 1, value: frame.current.value };
+          } else {
+            if (childResult) {
+              frame.current = { foundMatch: true, value: childResult.value };
+            }
+            if (frame.next < rule.maxIterations) {
+              child = frameFor(children[0], frame.facts, {
+                foundMatch: false,
+                value: frame.current.value,
+              });
+            } else if (
+              wouldMatch(children[0].rule, frame.facts, frame.current.value)
+            ) {
+              throw iterationLimitError(rule.maxIterations);
+            } else {
+              result = frame.current;
+            }
+          }
+          break;
+        default:
+          result = rule.matcher(frame.facts, state.value)
+            ? { foundMatch: true, value: rule.action(frame.facts, state.value) }
+            : { foundMatch: false, value: state.value };
+      }
+    } catch (err) {
+      result = unwind(
+        stack,
+        toRuleError(err, rule, pathOf(node), frame.facts, state.value)
+      );
+    }
+    if (child) {
+      frame.next += 1;
+      stack.push(child);
+    } else {
+      stack.pop();
+    }
+  }
+  return withVariants(result as RuleResult, variants);
+};
+
+// turn a rule into an evaluator which can be run many times, it takes the
+// `facts` and an initial value and returns the same as `detailedRun` without
+// options, it takes none, so hooks, `explain`, `strict` and schemas don't apply
+// the evaluator is faster and won't overflow the call stack for big trees,
+// changes made to the rule after compiling it are not picked up
+// example:
+//   const evaluate = compile(rule);
+//   const [err, { value, foundMatch }] = evaluate(facts, initialValue);
+const compile = <Facts, Result, Input>(
+  rule: Rule<Facts, Result, Input>
+): RunWithFacts<Facts, Input, RunOutput<"detailed", Result | Input>> => {
+  const root = compileTree(rule);
+  return curryToArity((facts: Facts, initialValue: Input) => {
+    try {
+      return [null, evaluate(root, facts, initialValue)];
+    } catch (err) {
+      return [err, null];
+    }
+  }, 2);
+};
+
+export { compile };
@@ -0,0 +1,285 @@
+import {
+  condition,
+  dateBetween,
+  describeCondition,
+  equals,
+  exists,
+  explainCondition,
+  greaterThan,
+  inRollout,
+  isCondition,
+  isIn,
+  lessThan,
+  matches,
+} from "./conditions";
+import { all, always, applyIf, not, one, run } from "./index";
+
+const facts = {
+  country: "AT",
+  price: 12,
+  user: { name: "Jane" },
+  url: "https://chip.de/news",
+  currentDate: new Date("2023-07-15T12:00:00Z"),
+};
+
+describe("condition builders", () => {
+  test("equals", () => {
+    expect(equals("facts.country", "AT")(facts)).toBe(true);
+    expect(equals("facts.country", "DE")(facts)).toBe(false);
+  });
+
+  test("isIn", () => {
+    expect(isIn("facts.country", ["DE", "AT"])(facts)).toBe(true);
+    expect(isIn("facts.country", ["DE", "CH"])(facts)).toBe(false);
+  });
+
+  test("greaterThan and lessThan", () => {
+    expect(greaterThan("facts.price", 10)(facts)).toBe(true);
+    expect(greaterThan("facts.price", 12)(facts)).toBe(false);
+    expect(lessThan("facts.price", 13)(facts)).toBe(true);
+    expect(lessThan("facts.user", 13)(facts)).toBe(false);
+  });
+
+  test("exists", () => {
+    expect(exists("facts.user.name")(facts)).toBe(true);
+    expect(exists("facts.user.age")(facts)).toBe(false);
+    expect(exists("facts.missing.deeply.nested")(facts)).toBe(false);
+  });
+
+  test("matches", () => {
+    expect(matches("facts.url", /CHIP\.de/i)(facts)).toBe(true);
+    expect(matches("facts.url", "^http:")(facts)).toBe(false);
+    expect(matches("facts.price", "12")(facts)).toBe(false);
+  });
+
+  test("dateBetween includes both ends of the range", () => {
+    expect(
+      dateBetween("facts.currentDate", "2023-07-01", "2023-08-31")(facts)
+    ).toBe(true);
+    expect(
+      dateBetween(
+        "facts.currentDate",
+        facts.currentDate,
+        Date.UTC(2024, 0)
+      )(facts)
+    ).toBe(true);
+    expect(
+      dateBetween("facts.currentDate", "2023-08-01", "2023-08-31")(facts)
+    ).toBe(false);
+    expect(dateBetween("facts.missing", "2023-08-01", "2023-08-31")({})).toBe(
+      false
+    );
+  });
+
+  test("inRollout passes for a stable share of the values", () => {
+    const ids = Array.from({ length: 1000 }, (_, index) => `user-${index}`);
+    const share = (percentage: number, salt: string) =>
+      ids.filter((id) => inRollout("facts.id", percentage, salt)({ id }));
+    const twenty = share(20, "checkout");
+    expect(twenty.length).toBeGreaterThan(150);
+    expect(twenty.length).toBeLessThan(250);
+    expect(share(20, "checkout")).toEqual(twenty);
+    expect(share(50, "checkout")).toEqual(expect.arrayContaining(twenty));
+    expect(share(20, "search")).not.toEqual(twenty);
+    expect(share(0, "checkout")).toEqual([]);
+    expect(share(100, "checkout")).toEqual(ids);
+    expect(inRollout("facts.id", 100, "checkout")({})).toBe(false);
+  });
+
+  test("paths can point to the current value", () => {
+    expect(equals("value", 3)(facts, 3)).toBe(true);
+    expect(greaterThan("value.length", 1)(facts, [1, 2])).toBe(true);
+  });
+
+  test("conditions can be used as matchers of rules", () => {
+    const rule = applyIf(equals("facts.country", "AT"), {
+      matcher: greaterThan("facts.price", 10),
+      action: () => "expensive in Austria",
+    });
+    expect(run(rule, facts, null)).toEqual([null, "expensive in Austria"]);
+  });
+});
+
+describe("combining conditions", () => {
+  test("not, one and all create conditions when combining conditions", () => {
+    const combined = all([
+      not(equals("facts.country", "DE")),
+      one([exists("facts.user"), exists("facts.admin")]),
+    ]);
+    expect(isCondition(combined)).toBe(true);
+    expect(combined(facts)).toBe(true);
+    expect(combined({ ...facts, country: "DE" })).toBe(false);
+    expect(combined({ country: "AT" })).toBe(false);
+  });
+
+  test("combining conditions with plain matchers creates plain matchers", () => {
+    const combined = all([equals("facts.country", "AT"), always]);
+    expect(isCondition(combined)).toBe(false);
+    expect(combined(facts)).toBe(true);
+  });
+});
+
+describe("describeCondition", () => {
+  test("prints conditions in a human readable way", () => {
+    const combined = all([
+      not(equals("facts.country", "DE")),
+      one([
+        isIn("facts.country", ["AT", "CH"]),
+        greaterThan("facts.price", 10),
+        lessThan("facts.price", 2),
+      ]),
+      exists("facts.user"),
+      matches("facts.url", /chip/i),
+      dateBetween("facts.currentDate", "2023-07-01", "2023-08-31"),
+    ]);
+    expect(describeCondition(combined.condition)).toBe(
+      '(not facts.country equals "DE" and (facts.country is one of ["AT","CH"] or facts.price is greater than 10 or facts.price is less than 2) and facts.user exists and facts.url matches /chip/i and facts.currentDate is between 2023-07-01T00:00:00.000Z and 2023-08-31T00:00:00.000Z)'
+    );
+  });
+});
+
+describe("explainCondition", () => {
+  test("explains why a check failed", () => {
+    expect(explainCondition(equals("facts.country", "DE"), facts)).toEqual({
+      description: 'facts.country equals "DE"',
+      passed: false,
+      reason: 'facts.country was "AT", expected "DE"',
+    });
+  });
+
+  test("explains rollouts", () => {
+    expect(
+      explainCondition(inRollout("facts.user.name", 0, "beta"), facts)
+    ).toEqual({
+      description: 'facts.user.name is in the 0% rollout "beta"',
+      passed: false,
+      reason: 'facts.user.name was "Jane", expected in the 0% rollout "beta"',
+    });
+  });
+
+  test("explains missing values", () => {
+    expect(explainCondition(exists("facts.user.age"), facts).reason).toBe(
+      "facts.user.age was undefined, expected to exist"
+    );
+  });
+
+  test("formats dates as ISO strings", () => {
+    const explanation = explainCondition(
+      dateBetween("facts.currentDate", "2023-08-01", "2023-08-31"),
+      facts
+    );
+    expect(explanation.reason).toBe(
+      "facts.currentDate was 2023-07-15T12:00:00.000Z, expected between 2023-08-01T00:00:00.000Z and 2023-08-31T00:00:00.000Z"
+    );
+  });
+
+  test("explains all combined conditions", () => {
+    const combined = one([
+      not(exists("facts.user")),
+      all([greaterThan("facts.price", 20), matches("facts.url", "chip")]),
+    ]);
+    expect(explainCondition(combined, facts)).toEqual({
+      description:
+        "(not facts.user exists or (facts.price is greater than 20 and facts.url matches /chip/))",
+      passed: false,
+      children: [
+        {
+          description: "not facts.user exists",
+          passed: false,
+          children: [{ description: "facts.user exists", passed: true }],
+        },
+        {
+          description:
+            "(facts.price is greater than 20 and facts.url matches /chip/)",
+          passed: false,
+          children: [
+            {
+              description: "facts.price is greater than 20",
+              passed: false,
+              reason: "facts.price was 12, expected greater than 20",
+            },
+            { description: "facts.url matches /chip/", passed: true },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe("condition", () => {
+  test("creates a condition from its descriptor", () => {
+    const created = condition({
+      op: "all",
+      conditions: [{ op: "equals", path: "facts.country", expected: "AT" }],
+    });
+    expect(created(facts)).toBe(true);
+  });
+
+  test("throws for invalid descriptors", () => {
+    expect(() => condition(null as any)).toThrow("condition must be an object");
+    expect(() => condition({ op: "nope" } as any)).toThrow(
+      'condition.op "nope" is unknown'
+    );
+    expect(() => condition({ op: "one" } as any)).toThrow(
+      "condition.conditions must be a list"
+    );
+    expect(() =>
+      condition({
+        op: "not",
+        condition: { op: "exists", path: "country" },
+      })
+    ).toThrow('condition.condition.path must start with "facts" or "value"');
+  });
+
+  test("throws for fields which don't fit the check", () => {
+    expect(() =>
+      condition({ op: "in", path: "facts.country", expected: "DE" } as any)
+    ).toThrow(
+      "condition.expected must be a list of strings, numbers, booleans or null"
+    );
+    expect(() =>
+      condition({ op: "equals", path: "facts.country", expected: {} } as any)
+    ).toThrow("condition.expected must be a string, number, boolean or null");
+    expect(() => greaterThan("facts.price", "10" as any)).toThrow(
+      "condition.expected must be a number"
+    );
+    expect(() => lessThan("facts.price", NaN)).toThrow(
+      "condition.expected must be a number"
+    );
+  });
+
+  test("throws for invalid regular expressions, dates and percentages", () => {
+    expect(() => matches("facts.url", "(chip")).toThrow(
+      "condition.pattern is not a valid regular expression"
+    );
+    expect(() =>
+      condition({ op: "matches", path: "facts.url", pattern: "a", flags: "z" })
+    ).toThrow("condition.pattern is not a valid regular expression");
+    expect(() =>
+      condition({ op: "matches", path: "facts.url", pattern: "[" })
+    ).toThrow("condition.pattern is not a valid regular expression");
+    expect(() =>
+      dateBetween("facts.currentDate", "2023-07-01", "next week")
+    ).toThrow("condition.to must be a valid date");
+    expect(() =>
+      condition({
+        op: "dateBetween",
+        path: "facts.currentDate",
+        from: "soon",
+        to: "2023-08-31",
+      })
+    ).toThrow("condition.from must be a valid date");
+    expect(() => inRollout("facts.user.name", 101, "beta")).toThrow(
+      "condition.percentage must be a number from 0 to 100"
+    );
+    expect(() => inRollout("facts.user.name", -1, "beta")).toThrow(
+      "condition.percentage must be a number from 0 to 100"
+    );
+  });
+
+  test("compiles regular expressions once", () => {
+    const global = matches("facts.url", /chip/g);
+    expect(global(facts)).toBe(true);
+    expect(global(facts)).toBe(true);
+  });
+});
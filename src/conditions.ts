@@ -0,0 +1,402 @@
+import { bucketOf } from "./experiment";
+import { getPath } from "./util";
+
+/* CONDITIONS
+ * are matchers built from a small set of declarative checks on the facts or
+ * the current value, e.g. `equals('facts.country', 'DE')`. They can be used
+ * anywhere a matcher is accepted but unlike plain matcher functions they can
+ * also be printed, serialized and explain why they passed or failed.
+ * Combining conditions with `not`, `one` and `all` results in a condition.
+ */
+
+type Primitive = string | number | boolean | null;
+
+// the data describing a condition, paths are dot separated and start with
+// either `facts` or `value`, like `facts.user.country`
+type ConditionDescriptor =
+  | { op: "equals"; path: string; expected: Primitive }
+  | { op: "in"; path: string; expected: Primitive[] }
+  | { op: "greaterThan" | "lessThan"; path: string; expected: number }
+  | { op: "exists"; path: string }
+  | { op: "matches"; path: string; pattern: string; flags?: string }
+  | { op: "dateBetween"; path: string; from: string; to: string }
+  | { op: "rollout"; path: string; percentage: number; salt: string }
+  | { op: "not"; condition: ConditionDescriptor }
+  | { op: "one" | "all"; conditions: ConditionDescriptor[] };
+
+// conditions can check any facts and values, so they fit every rule
+type Condition = ((facts?: any, value?: any) => boolean) & {
+  condition: ConditionDescriptor;
+};
+
+// the outcome of evaluating a condition
+//  - reason: only set for failed checks, like `facts.country was "AT", expected "DE"`
+//  - children: the explanations of the conditions combined with not, one or all
+type ConditionExplanation = {
+  description: string;
+  passed: boolean;
+  reason?: string;
+  children?: ConditionExplanation[];
+};
+
+const leafOps = [
+  "equals",
+  "in",
+  "greaterThan",
+  "lessThan",
+  "exists",
+  "matches",
+  "dateBetween",
+  "rollout",
+];
+
+const toTime = (date: any) =>
+  date instanceof Date ? date.getTime() : new Date(date).getTime();
+
+// the regular expressions of "matches" conditions, compiled once when the
+// condition is created
+const patterns = new WeakMap<ConditionDescriptor, RegExp>();
+
+const patternOf = (descriptor: ConditionDescriptor & { op: "matches" }) => {
+  let pattern = patterns.get(descriptor);
+  if (!pattern) {
+    pattern = new RegExp(descriptor.pattern, descriptor.flags);
+    patterns.set(descriptor, pattern);
+  }
+  // global and sticky expressions continue where the last test stopped
+  pattern.lastIndex = 0;
+  return pattern;
+};
+
+const format = (value: any) =>
+  value instanceof Date ? value.toISOString() : JSON.stringify(value);
+
+const check = (descriptor: ConditionDescriptor, actual: any): boolean => {
+  switch (descriptor.op) {
+    case "equals":
+      return actual === descriptor.expected;
+    case "in":
+      return descriptor.expected.includes(actual);
+    case "greaterThan":
+      return typeof actual === "number" && actual > descriptor.expected;
+    case "lessThan":
+      return typeof actual === "number" && actual < descriptor.expected;
+    case "exists":
+      return actual !== undefined && actual !== null;
+    case "matches":
+      return typeof actual === "string" && patternOf(descriptor).test(actual);
+    case "dateBetween": {
+      const time = actual == null ? NaN : toTime(actual);
+      return time >= toTime(descriptor.from) && time <= toTime(descriptor.to);
+    }
+    case "rollout":
+      return (
+        actual !== undefined &&
+        actual !== null &&
+        bucketOf(actual, descriptor.salt) * 100 < descriptor.percentage
+      );
+    default:
+      return false;
+  }
+};
+
+// what a check expects, used to explain why it failed
+const expectation = (descriptor: ConditionDescriptor): string => {
+  switch (descriptor.op) {
+    case "equals":
+      return format(descriptor.expected);
+    case "in":
+      return `one of ${format(descriptor.expected)}`;
+    case "greaterThan":
+      return `greater than ${descriptor.expected}`;
+    case "lessThan":
+      return `less than ${descriptor.expected}`;
+    case "exists":
+      return "to exist";
+    case "matches":
+      return `to match /${descriptor.pattern}/${descriptor.flags || ""}`;
+    case "dateBetween":
+      return `between ${descriptor.from} and ${descriptor.to}`;
+    case "rollout":
+      return `in the ${descriptor.percentage}% rollout ${format(
+        descriptor.salt
+      )}`;
+    default:
+      return "";
+  }
+};
+
+// a human readable description of a condition
+const describeCondition = (descriptor: ConditionDescriptor): string => {
+  switch (descriptor.op) {
+    case "equals":
+      return `${descriptor.path} equals ${format(descriptor.expected)}`;
+    case "in":
+    case "greaterThan":
+    case "lessThan":
+    case "dateBetween":
+    case "rollout":
+      return `${descriptor.path} is ${expectation(descriptor)}`;
+    case "exists":
+      return `${descriptor.path} exists`;
+    case "matches":
+      return `${descriptor.path} matches /${descriptor.pattern}/${
+        descriptor.flags || ""
+      }`;
+    case "not":
+      return `not ${describeCondition(descriptor.condition)}`;
+    default:
+      return `(${descriptor.conditions
+        .map(describeCondition)
+        .join(descriptor.op === "one" ? " or " : " and ")})`;
+  }
+};
+
+// evaluate a condition and explain the outcome, unlike running the condition
+// as a matcher all combined conditions are evaluated to give a full picture
+const explainDescriptor = (
+  descriptor: ConditionDescriptor,
+  facts: any,
+  value: any
+): ConditionExplanation => {
+  const description = describeCondition(descriptor);
+  switch (descriptor.op) {
+    case "not": {
+      const child = explainDescriptor(descriptor.condition, facts, value);
+      return { description, passed: !child.passed, children: [child] };
+    }
+    case "one":
+    case "all": {
+      const children = descriptor.conditions.map((condition) =>
+        explainDescriptor(condition, facts, value)
+      );
+      const passed =
+        descriptor.op === "one"
+          ? children.some((child) => child.passed)
+          : children.every((child) => child.passed);
+      return { description, passed, children };
+    }
+    default: {
+      const actual = getPath(descriptor.path, facts, value);
+      return check(descriptor, actual)
+        ? { description, passed: true }
+        : {
+            description,
+            passed: false,
+            reason: `${descriptor.path} was ${
+              actual === undefined ? "undefined" : format(actual)
+            }, expected ${expectation(descriptor)}`,
+          };
+    }
+  }
+};
+
+const evaluate = (
+  descriptor: ConditionDescriptor,
+  facts: any,
+  value: any
+): boolean => {
+  switch (descriptor.op) {
+    case "not":
+      return !evaluate(descriptor.condition, facts, value);
+    case "one":
+      return descriptor.conditions.some((condition) =>
+        evaluate(condition, facts, value)
+      );
+    case "all":
+      return descriptor.conditions.every((condition) =>
+        evaluate(condition, facts, value)
+      );
+    default:
+      return check(descriptor, getPath(descriptor.path, facts, value));
+  }
+};
+
+const isPrimitive = (value: unknown) =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && !Number.isNaN(value);
+
+// throws if the fields of a check don't fit its op
+const validateLeaf = (descriptor: any, path: string): void => {
+  switch (descriptor.op) {
+    case "equals":
+      if (!isPrimitive(descriptor.expected)) {
+        throw new Error(
+          `${path}.expected must be a string, number, boolean or null`
+        );
+      }
+      break;
+    case "in":
+      if (
+        !Array.isArray(descriptor.expected) ||
+        !descriptor.expected.every(isPrimitive)
+      ) {
+        throw new Error(
+          `${path}.expected must be a list of strings, numbers, booleans or null`
+        );
+      }
+      break;
+    case "greaterThan":
+    case "lessThan":
+      if (!isNumber(descriptor.expected)) {
+        throw new Error(`${path}.expected must be a number`);
+      }
+      break;
+    case "matches":
+      if (
+        typeof descriptor.pattern !== "string" ||
+        (descriptor.flags !== undefined && typeof descriptor.flags !== "string")
+      ) {
+        throw new Error(`${path}.pattern and ${path}.flags must be strings`);
+      }
+      try {
+        patternOf(descriptor);
+      } catch (err) {
+        throw new Error(
+          `${path}.pattern is not a valid regular expression: ${
+            (err as Error).message
+          }`
+        );
+      }
+      break;
+    case "dateBetween":
+      ["from", "to"].forEach((key) => {
+        if (
+          typeof descriptor[key] !== "string" ||
+          Number.isNaN(toTime(descriptor[key]))
+        ) {
+          throw new Error(`${path}.${key} must be a valid date`);
+        }
+      });
+      break;
+    case "rollout":
+      if (
+        !isNumber(descriptor.percentage) ||
+        descriptor.percentage < 0 ||
+        descriptor.percentage > 100
+      ) {
+        throw new Error(`${path}.percentage must be a number from 0 to 100`);
+      }
+      if (typeof descriptor.salt !== "string") {
+        throw new Error(`${path}.salt must be a string`);
+      }
+      break;
+    default:
+  }
+};
+
+// throws if the data doesn't describe a valid condition
+const validateDescriptor = (descriptor: any, path = "condition"): void => {
+  if (typeof descriptor !== "object" || descriptor === null) {
+    throw new Error(`${path} must be an object`);
+  }
+  const { op } = descriptor;
+  if (op === "not") {
+    validateDescriptor(descriptor.condition, `${path}.condition`);
+  } else if (op === "one" || op === "all") {
+    if (!Array.isArray(descriptor.conditions)) {
+      throw new Error(`${path}.conditions must be a list`);
+    }
+    descriptor.conditions.forEach((condition: any, index: number) =>
+      validateDescriptor(condition, `${path}.conditions[${index}]`)
+    );
+  } else if (!leafOps.includes(op)) {
+    throw new Error(`${path}.op ${JSON.stringify(op)} is unknown`);
+  } else if (
+    typeof descriptor.path !== "string" ||
+    !/^(facts|value)(\.|$)/.test(descriptor.path)
+  ) {
+    throw new Error(`${path}.path must start with "facts" or "value"`);
+  } else {
+    validateLeaf(descriptor, path);
+  }
+};
+
+// create a condition from its descriptor, e.g. from deserialized data
+const condition = (descriptor: ConditionDescriptor): Condition => {
+  validateDescriptor(descriptor);
+  return Object.assign(
+    (facts?: any, value?: any) => evaluate(descriptor, facts, value),
+    { condition: descriptor }
+  );
+};
+
+const isCondition = (matcher: unknown): matcher is Condition =>
+  typeof matcher === "function" && "condition" in matcher;
+
+// explain why a condition passed or failed for the given facts and value
+const explainCondition = (
+  matcher: Condition,
+  facts?: any,
+  value?: any
+): ConditionExplanation => explainDescriptor(matcher.condition, facts, value);
+
+/* CONDITION BUILDERS */
+
+const equals = (path: string, expected: Primitive) =>
+  condition({ op: "equals", path, expected });
+
+const isIn = (path: string, expected: Primitive[]) =>
+  condition({ op: "in", path, expected });
+
+const greaterThan = (path: string, expected: number) =>
+  condition({ op: "greaterThan", path, expected });
+
+const lessThan = (path: string, expected: number) =>
+  condition({ op: "lessThan", path, expected });
+
+const exists = (path: string) => condition({ op: "exists", path });
+
+const matches = (path: string, pattern: RegExp | string) =>
+  condition(
+    pattern instanceof RegExp
+      ? { op: "matches", path, pattern: pattern.source, flags: pattern.flags }
+      : { op: "matches", path, pattern }
+  );
+
+// invalid dates are kept as they are, so creating the condition reports them
+const isoDate = (date: Date | string | number) => {
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? String(date) : new Date(time).toISOString();
+};
+
+// dates can be given as `Date`s, timestamps or ISO strings, both ends of the
+// range are included
+const dateBetween = (
+  path: string,
+  from: Date | string | number,
+  to: Date | string | number
+) =>
+  condition({
+    op: "dateBetween",
+    path,
+    from: isoDate(from),
+    to: isoDate(to),
+  });
+
+// passes for a stable share of `percentage` percent of the values at `path`,
+// e.g. user ids, the same value and salt always get the same outcome
+// raising the percentage keeps the values which passed before, a different
+// salt selects an unrelated share
+// example:
+//   inRollout("facts.user.id", 20, "new-checkout")
+const inRollout = (path: string, percentage: number, salt: string) =>
+  condition({ op: "rollout", path, percentage, salt });
+
+export {
+  condition,
+  isCondition,
+  describeCondition,
+  explainCondition,
+  equals,
+  isIn,
+  greaterThan,
+  lessThan,
+  exists,
+  matches,
+  dateBetween,
+  inRollout,
+};
+export type { Condition, ConditionDescriptor, ConditionExplanation };
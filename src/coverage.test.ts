@@ -0,0 +1,200 @@
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  createCoverage,
+  describeRule,
+  formatCoverage,
+  onError,
+  RuleError,
+  tracedRun,
+} from "./index";
+
+type Facts = { country: string };
+
+const add = (value: string) => (facts: Facts, list: string[]) =>
+  [...list, value];
+const isCountry = (country: string) => (facts: Facts) =>
+  facts.country === country;
+
+const rule = applyAll([
+  applyIf(
+    isCountry("DE"),
+    describeRule(
+      { name: "German offer" },
+      { matcher: always, action: add("de") }
+    )
+  ),
+  applyFirst([
+    { matcher: isCountry("AT"), action: add("at") },
+    describeRule({ id: "fallback" }, { matcher: always, action: add("x") }),
+    { matcher: always, action: add("unreachable") },
+  ]),
+  applyChain([
+    { matcher: isCountry("CH"), action: add("ch") },
+    { matcher: always, action: add("swiss") },
+  ]),
+]);
+
+describe("createCoverage", () => {
+  test("runs the rule like run and detailedRun", () => {
+    const coverage = createCoverage(rule);
+    expect(coverage.run({ country: "DE" }, [])).toEqual([null, ["de", "x"]]);
+    expect(coverage.detailedRun({ country: "AT" })([])).toEqual([
+      null,
+      { foundMatch: true, value: ["at"] },
+    ]);
+  });
+
+  test("counts runs, matches and matcher outcomes of every rule", () => {
+    const coverage = createCoverage(rule);
+    coverage.run({ country: "DE" }, []);
+    coverage.run({ country: "AT" }, []);
+    coverage.run({ country: "CH" }, []);
+    const report = coverage.report();
+    expect(report.runs).toBe(3);
+    expect(
+      report.rules.map(({ path, runs, matches }) => [path, runs, matches])
+    ).toEqual([
+      [[], 3, 3],
+      [[0], 3, 1],
+      [[0, 0], 1, 1],
+      [[1], 3, 3],
+      [[1, 0], 3, 1],
+      [[1, 1], 2, 2],
+      [[1, 2], 0, 0],
+      // the chain passes on the match of the rules before it
+      [[2], 3, 3],
+      [[2, 0], 3, 1],
+      [[2, 1], 1, 1],
+    ]);
+    expect(report.rules[1]).toEqual({
+      path: [0],
+      type: "if",
+      label: "if",
+      runs: 3,
+      matches: 1,
+      errors: 0,
+      matcher: { evaluated: 3, passed: 1, failed: 2 },
+    });
+    expect(report.rules[2].label).toBe("German offer");
+    expect(report.rules[3].matcher).toBeUndefined();
+  });
+
+  test("lists rules that were never run or never matched", () => {
+    const coverage = createCoverage(rule);
+    coverage.run({ country: "FR" }, []);
+    const { neverRun, neverMatched } = coverage.report();
+    expect(neverRun).toEqual([
+      [0, 0],
+      [1, 2],
+      [2, 1],
+    ]);
+    expect(neverMatched).toEqual([[0], [1, 0], [2, 0]]);
+  });
+
+  test("records runs which threw", () => {
+    const failing = applyAll([
+      onError("skip", {
+        matcher: always,
+        action: (): string[] => {
+          throw new Error("BOOM!");
+        },
+      }),
+      { matcher: isCountry("DE"), action: add("de") },
+      {
+        matcher: (facts: Facts) => {
+          if (facts.country === "AT") {
+            throw new Error("BOOM!");
+          }
+          return false;
+        },
+        action: add("never"),
+      },
+    ]);
+    const coverage = createCoverage(failing);
+    expect(coverage.run({ country: "DE" }, [])).toEqual([null, ["de"]]);
+    const [err] = coverage.run({ country: "AT" }, []);
+    expect(err).toBeInstanceOf(RuleError);
+    const report = coverage.report();
+    expect(report.runs).toBe(2);
+    expect(report.rules.map(({ runs, errors }) => [runs, errors])).toEqual([
+      [2, 1],
+      [2, 0],
+      [2, 2],
+      [2, 0],
+      [2, 1],
+    ]);
+    expect(report.rules[4].matcher).toEqual({
+      evaluated: 1,
+      passed: 0,
+      failed: 1,
+    });
+  });
+
+  test("records traces of other runs", () => {
+    const coverage = createCoverage(rule);
+    const [, result] = tracedRun(rule, { country: "CH" }, []);
+    coverage.record(result!.trace);
+    expect(coverage.report().rules[9].runs).toBe(1);
+  });
+
+  test("counts the child rules of prioritized rules by their position", () => {
+    const prioritized = applyFirstByPriority([
+      { priority: 1, rule: { matcher: always, action: add("low") } },
+      { priority: 2, rule: { matcher: isCountry("DE"), action: add("de") } },
+    ]);
+    const coverage = createCoverage(prioritized);
+    coverage.run({ country: "AT" }, []);
+    expect(
+      coverage
+        .report()
+        .rules.map(({ path, runs, matches }) => [path, runs, matches])
+    ).toEqual([
+      [[], 1, 1],
+      [[0], 1, 1],
+      [[1], 1, 0],
+    ]);
+  });
+
+  test("the report can be stored as JSON", () => {
+    const coverage = createCoverage(rule);
+    coverage.run({ country: "DE" }, []);
+    const report = coverage.report();
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
+
+describe("formatCoverage", () => {
+  test("formats the report as a table", () => {
+    const coverage = createCoverage(rule);
+    coverage.run({ country: "DE" }, []);
+    coverage.run({ country: "CH" }, []);
+    expect(formatCoverage(coverage.report())).toBe(
+      [
+        "Rule coverage over 2 runs: 9 of 10 rules run (90%), 8 of 10 rules matched (80%)",
+        "",
+        "path    rule              runs  matched  matcher  errors",
+        "[]      all                  2        2                0",
+        "[0]       if                 2        1      1/2       0",
+        "[0, 0]      German offer     1        1      1/1       0",
+        "[1]       first              2        2                0",
+        "[1, 0]      plain            2        0      0/2       0  never matched",
+        "[1, 1]      fallback         2        2      2/2       0",
+        "[1, 2]      plain            0        0      0/0       0  never run",
+        "[2]       chain              2        2                0",
+        "[2, 0]      plain            2        1      1/2       0",
+        "[2, 1]      plain            1        1      1/1       0",
+      ].join("\n")
+    );
+  });
+
+  test("reports rules of a collector which never ran", () => {
+    expect(formatCoverage(createCoverage(rule).report())).toMatch(
+      /^Rule coverage over 0 runs: 0 of 10 rules run \(0%\), 0 of 10 rules matched \(0%\)/
+    );
+  });
+});
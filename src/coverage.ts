@@ -0,0 +1,203 @@
+import { runWithTrace } from "./run";
+import type { RulePath } from "./tree";
+import { listRules, ruleLabel } from "./tree";
+import type {
+  Rule,
+  RuleTrace,
+  RuleType,
+  RunOutput,
+  RunWithFacts,
+} from "./types";
+import curryToArity from "./util";
+
+/* COVERAGE
+ * Like code coverage but for rule trees: a coverage collector runs a rule
+ * many times, e.g. for all fixtures of a test suite, and counts for every
+ * rule of the tree how often it was run, matched and threw. This shows which
+ * rules never fire and which rules of `applyFirst` and `applyChain` are never
+ * even reached.
+ */
+
+// how often a matcher was evaluated, only reported for plain and "if" rules
+type MatcherCoverage = {
+  evaluated: number;
+  passed: number;
+  failed: number;
+};
+
+type RuleCoverage = {
+  path: RulePath;
+  type: RuleType;
+  label: string;
+  runs: number;
+  matches: number;
+  errors: number;
+  matcher?: MatcherCoverage;
+};
+
+// the JSON report of a coverage collector
+//  - runs: how often the rule was run
+//  - rules: the coverage of every rule of the tree, depth first
+//  - neverRun: the paths of rules which were never run, like rules of
+//      `applyFirst` following a rule that always matched
+//  - neverMatched: the paths of rules which were run but never matched
+type CoverageReport = {
+  runs: number;
+  rules: RuleCoverage[];
+  neverRun: RulePath[];
+  neverMatched: RulePath[];
+};
+
+type Coverage<Facts, Result, Input> = {
+  run: RunWithFacts<Facts, Input, RunOutput<"value", Result | Input>>;
+  detailedRun: RunWithFacts<
+    Facts,
+    Input,
+    RunOutput<"detailed", Result | Input>
+  >;
+  record: (trace: RuleTrace) => void;
+  report: () => CoverageReport;
+};
+
+// create a coverage collector for a rule, it has the same `run` and
+// `detailedRun` as the library but only takes the facts and initial value
+// every run is recorded, traces of other runs (see `tracedRun`) can be added
+// with `record`
+// example:
+//   const coverage = createCoverage(rule);
+//   fixtures.forEach(({ facts }) => coverage.run(facts, []));
+//   console.log(formatCoverage(coverage.report()));
+const createCoverage = <Facts, Result, Input>(
+  rule: Rule<Facts, Result, Input>
+): Coverage<Facts, Result, Input> => {
+  const entries = listRules(rule);
+  const indexes = new Map(
+    entries.map(({ path }, index) => [path.join("."), index])
+  );
+  const counts = entries.map(() => ({
+    runs: 0,
+    matches: 0,
+    errors: 0,
+    passed: 0,
+    failed: 0,
+  }));
+  let runs = 0;
+
+  const visit = (trace: RuleTrace, path: RulePath) => {
+    const count = counts[indexes.get(path.join(".")) as number];
+    count.runs += 1;
+    count.matches += trace.foundMatch ? 1 : 0;
+    count.errors += trace.error ? 1 : 0;
+    count.passed += trace.matcherPassed === true ? 1 : 0;
+    count.failed += trace.matcherPassed === false ? 1 : 0;
+    // "prioritized" rules run their child rules in the recorded order
+    trace.children.forEach((child, position) =>
+      visit(child, [...path, trace.order ? trace.order[position] : position])
+    );
+  };
+
+  const record = (trace: RuleTrace) => {
+    runs += 1;
+    visit(trace, []);
+  };
+
+  const detailedRun = curryToArity((facts: Facts, initialValue: Input) => {
+    const [err, result, trace] = runWithTrace(rule, facts as any, initialValue);
+    record(trace);
+    return result ? [null, result] : [err, null];
+  }, 2);
+
+  const report = (): CoverageReport => {
+    const rules = entries.map(({ rule: current, path }, index) => {
+      const { runs: ruleRuns, matches, errors, passed, failed } = counts[index];
+      const type = current.type || "plain";
+      return {
+        path,
+        type,
+        label: ruleLabel(current),
+        runs: ruleRuns,
+        matches,
+        errors,
+        ...(type === "plain" || type === "if"
+          ? { matcher: { evaluated: passed + failed, passed, failed } }
+          : {}),
+      };
+    });
+    return {
+      runs,
+      rules,
+      neverRun: rules
+        .filter((entry) => entry.runs === 0)
+        .map(({ path }) => path),
+      neverMatched: rules
+        .filter((entry) => entry.runs > 0 && entry.matches === 0)
+        .map(({ path }) => path),
+    };
+  };
+
+  return {
+    run: curryToArity((facts: Facts, initialValue: Input) => {
+      const [err, result] = detailedRun(facts, initialValue);
+      return result ? [null, result.value] : [err, null];
+    }, 2),
+    detailedRun,
+    record,
+    report,
+  };
+};
+
+const percentage = (part: number, total: number) =>
+  `${total === 0 ? 100 : Math.floor((part / total) * 100)}%`;
+
+const coverageNote = ({ runs, matches }: RuleCoverage) => {
+  if (runs === 0) {
+    return "never run";
+  }
+  return matches === 0 ? "never matched" : "";
+};
+
+// format a coverage report as a human readable table
+const formatCoverage = (report: CoverageReport): string => {
+  const total = report.rules.length;
+  const matched = report.rules.filter((entry) => entry.matches > 0).length;
+  const run = total - report.neverRun.length;
+  const rows = [
+    ["path", "rule", "runs", "matched", "matcher", "errors", ""],
+    ...report.rules.map((entry) => [
+      `[${entry.path.join(", ")}]`,
+      `${"  ".repeat(entry.path.length)}${entry.label}`,
+      `${entry.runs}`,
+      `${entry.matches}`,
+      entry.matcher ? `${entry.matcher.passed}/${entry.matcher.evaluated}` : "",
+      `${entry.errors}`,
+      coverageNote(entry),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) =>
+        // numbers are aligned to the right
+        column < 2 || column === row.length - 1
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join("  ")
+      .trimEnd()
+  );
+  const runSummary = `${run} of ${total} rules run (${percentage(run, total)})`;
+  const matchSummary = `${matched} of ${total} rules matched (${percentage(
+    matched,
+    total
+  )})`;
+  return [
+    `Rule coverage over ${report.runs} runs: ${runSummary}, ${matchSummary}`,
+    "",
+    ...lines,
+  ].join("\n");
+};
+
+export { createCoverage, formatCoverage };
+export type { Coverage, CoverageReport, RuleCoverage, MatcherCoverage };
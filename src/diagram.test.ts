@@ -0,0 +1,171 @@
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  describeRule,
+  equals,
+  experiment,
+  onError,
+  toDot,
+  toMermaid,
+  tracedRun,
+} from "./index";
+
+const add = (value: string) => (facts: unknown, list: string[]) =>
+  [...list, value];
+
+const rule = applyAll([
+  applyIf(
+    equals("facts.country", "DE"),
+    describeRule(
+      { name: "German offer", description: 'adds "de"' },
+      { matcher: always, action: add("de") }
+    )
+  ),
+  applyFirst([
+    { matcher: () => false, action: add("never") },
+    describeRule({ id: "fallback" }, { matcher: always, action: add("x") }),
+    { matcher: always, action: add("unreachable") },
+  ]),
+]);
+
+describe("toMermaid", () => {
+  test("renders the rule tree as a flowchart", () => {
+    expect(toMermaid(rule)).toBe(
+      [
+        "flowchart TD",
+        '  n0["applyAll: every matching rule, in order"]',
+        '  n1["applyIf<br/>when facts.country equals #quot;DE#quot;"]',
+        '  n2["rule<br/>German offer<br/>adds #quot;de#quot;"]',
+        '  n3["applyFirst: first matching rule only"]',
+        '  n4["rule"]',
+        '  n5["rule<br/>fallback"]',
+        '  n6["rule"]',
+        "  n0 -->|1| n1",
+        "  n1 --> n2",
+        "  n0 -->|2| n3",
+        "  n3 -->|1| n4",
+        "  n3 -->|2| n5",
+        "  n3 -->|3| n6",
+      ].join("\n")
+    );
+  });
+
+  test("highlights a recorded run", () => {
+    const [, result] = tracedRun(rule, { country: "AT" }, []);
+    const lines = toMermaid(rule, { trace: result?.trace }).split("\n");
+    expect(lines).toContain("  class n0,n3,n5 matched");
+    expect(lines).toContain("  class n1,n4 notMatched");
+    expect(lines).toContain("  class n2,n6 notRun");
+    expect(lines).toContain("  linkStyle 2,4 stroke:#28a745,stroke-width:2px");
+    expect(lines).toContain("  classDef matched fill:#d4edda,stroke:#28a745");
+  });
+
+  test("highlights rules which threw", () => {
+    const failing = onError(
+      "skip",
+      applyChain([
+        {
+          matcher: always,
+          action: () => {
+            throw new Error("BOOM!");
+          },
+        },
+      ])
+    );
+    const [, result] = tracedRun(failing, null, []);
+    const mermaid = toMermaid(failing, { trace: result?.trace });
+    expect(mermaid).toContain('  n0["onError: skip"]');
+    expect(mermaid).toContain(
+      '  n1["applyChain: in order, until a rule doesn\'t match"]'
+    );
+    expect(mermaid).toContain("  class n0 notMatched");
+    expect(mermaid).toContain("  class n1,n2 failed");
+    expect(mermaid).not.toContain("linkStyle");
+  });
+
+  test("shows priorities and highlights prioritized rules by position", () => {
+    const prioritized = applyFirstByPriority([
+      { priority: 1, rule: { matcher: always, action: add("low") } },
+      { priority: () => 2, rule: { matcher: () => false, action: add("x") } },
+    ]);
+    const [, result] = tracedRun(prioritized, null, []);
+    const lines = toMermaid(prioritized, { trace: result?.trace }).split("\n");
+    expect(lines).toContain(
+      '  n0["applyFirstByPriority: matching rule with the highest priority only"]'
+    );
+    expect(lines).toContain("  n0 -->|priority 1| n1");
+    expect(lines).toContain("  n0 -->|computed priority| n2");
+    expect(lines).toContain("  class n0,n1 matched");
+    expect(lines).toContain("  class n2 notMatched");
+  });
+  test("shows the variants of experiments and highlights the chosen one", () => {
+    const split = experiment("checkout", {
+      key: "facts.id",
+      variants: [
+        {
+          name: "control",
+          weight: 3,
+          rule: { matcher: always, action: add("a") },
+        },
+        {
+          name: "beta",
+          weight: 0,
+          rule: { matcher: always, action: add("b") },
+        },
+      ],
+    });
+    const [, result] = tracedRun(split, { id: 1 }, []);
+    const lines = toMermaid(split, { trace: result?.trace }).split("\n");
+    expect(lines).toContain(
+      '  n0["experiment #quot;checkout#quot; by facts.id"]'
+    );
+    expect(lines).toContain("  n0 -->|control: 100%| n1");
+    expect(lines).toContain("  n0 -->|beta: 0%| n2");
+    expect(lines).toContain("  class n0,n1 matched");
+    expect(lines).toContain("  class n2 notRun");
+  });
+});
+
+describe("toDot", () => {
+  test("renders the rule tree as a graph", () => {
+    expect(toDot(rule)).toBe(
+      [
+        "digraph rules {",
+        "  node [shape=box];",
+        '  n0 [label="applyAll: every matching rule, in order"];',
+        '  n1 [label="applyIf\\nwhen facts.country equals \\"DE\\""];',
+        '  n2 [label="rule\\nGerman offer\\nadds \\"de\\""];',
+        '  n3 [label="applyFirst: first matching rule only"];',
+        '  n4 [label="rule"];',
+        '  n5 [label="rule\\nfallback"];',
+        '  n6 [label="rule"];',
+        '  n0 -> n1 [label="1"];',
+        '  n1 -> n2 [label=""];',
+        '  n0 -> n3 [label="2"];',
+        '  n3 -> n4 [label="1"];',
+        '  n3 -> n5 [label="2"];',
+        '  n3 -> n6 [label="3"];',
+        "}",
+      ].join("\n")
+    );
+  });
+
+  test("highlights a recorded run", () => {
+    const [, result] = tracedRun(rule, { country: "DE" }, []);
+    const dot = toDot(rule, { trace: result?.trace });
+    expect(dot).toContain(
+      '  n2 [label="rule\\nGerman offer\\nadds \\"de\\"", style="filled", fillcolor="#d4edda", color="#28a745"];'
+    );
+    expect(dot).toContain(
+      '  n6 [label="rule", style="filled,dashed", fillcolor="#ffffff", color="#ced4da"];'
+    );
+    expect(dot).toContain(
+      '  n1 -> n2 [label="", color="#28a745", penwidth=2];'
+    );
+    expect(dot).toContain('  n3 -> n4 [label="1"];');
+  });
+});
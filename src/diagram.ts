@@ -0,0 +1,244 @@
+import { describeCondition, isCondition } from "./conditions";
+import type { RulePath } from "./tree";
+import { listRules } from "./tree";
+import type { AsyncRule, RuleTrace } from "./types";
+
+/* DIAGRAMS
+ * Render a rule tree as a Mermaid flowchart or a Graphviz (DOT) graph, so
+ * combined rules can be reviewed without reading the code. Each rule becomes
+ * a node, child rules are connected in the order they are run.
+ * When a trace recorded by `tracedRun` is passed, the rules which matched,
+ * didn't match, threw or weren't run at all are highlighted.
+ */
+
+type DiagramOptions = {
+  trace?: RuleTrace;
+};
+
+// how a rule did in the recorded run
+type NodeStatus = "matched" | "notMatched" | "failed" | "notRun";
+
+type DiagramNode = {
+  id: string;
+  lines: string[];
+  status?: NodeStatus;
+};
+
+type DiagramEdge = {
+  from: string;
+  to: string;
+  label: string;
+};
+
+// how each type of rule runs its child rules
+const typeLabels = {
+  plain: "rule",
+  injected: "injectFacts",
+  transformed: "transformOutput",
+  if: "applyIf",
+  guarded: "onError",
+  all: "applyAll: every matching rule, in order",
+  first: "applyFirst: first matching rule only",
+  chain: "applyChain: in order, until a rule doesn't match",
+  prioritized: {
+    first: "applyFirstByPriority: matching rule with the highest priority only",
+    all: "applyAllByPriority: every matching rule, highest priority first",
+  },
+  experiment: "experiment",
+  collect: "collectAll: every matching rule, each on the incoming value",
+  each: "applyToEach: for every item of the list",
+  repeat: "applyRepeatedly: while it matches",
+};
+
+const matcherLabel = (matcher: Function) =>
+  isCondition(matcher) ? describeCondition(matcher.condition) : undefined;
+
+const ruleLines = (rule: AsyncRule): string[] => {
+  let heading: string;
+  if (rule.type === "guarded") {
+    heading = `${typeLabels.guarded}: ${
+      typeof rule.policy === "string" ? rule.policy : "fallback"
+    }`;
+  } else if (rule.type === "prioritized") {
+    heading = typeLabels.prioritized[rule.mode];
+  } else if (rule.type === "experiment") {
+    heading = `${typeLabels.experiment} "${rule.experiment}" by ${rule.key}`;
+  } else if (rule.type === "repeat") {
+    heading = `${typeLabels.repeat}, at most ${rule.maxIterations} times`;
+  } else {
+    heading = typeLabels[rule.type || "plain"];
+  }
+  const condition =
+    (rule.type === undefined || rule.type === "plain" || rule.type === "if") &&
+    matcherLabel(rule.matcher);
+  return [
+    heading,
+    rule.name || rule.id,
+    rule.description,
+    condition ? `when ${condition}` : undefined,
+  ].filter((line): line is string => !!line);
+};
+
+// the trace of the rule at `path`, when the rule was run at all
+// child rules are run starting with the first one, so the traces of the
+// children line up with the child rules, except for "prioritized" rules
+// which record the order they ran their child rules in and "each" and
+// "repeat" rules whose child rule ran several times, the first run is shown
+const traceAt = (trace: RuleTrace, path: RulePath) =>
+  path.reduce<RuleTrace | undefined>(
+    (current, index) =>
+      current?.children[current.order ? current.order.indexOf(index) : index],
+    trace
+  );
+
+const statusOf = (trace: RuleTrace | undefined): NodeStatus => {
+  if (!trace) {
+    return "notRun";
+  }
+  if (trace.error) {
+    return "failed";
+  }
+  return trace.foundMatch ? "matched" : "notMatched";
+};
+
+// child rules of lists are numbered in the order they are run, child rules
+// of "prioritized" rules show their priority and variants of experiments
+// their name and share instead
+const edgeLabel = (parent: AsyncRule, index: number) => {
+  if (parent.type === "experiment") {
+    const total = parent.weights.reduce((sum, weight) => sum + weight, 0);
+    const share = total > 0 ? (parent.weights[index] / total) * 100 : 0;
+    return `${parent.variants[index]}: ${Number(share.toFixed(2))}%`;
+  }
+  if (parent.type === "prioritized") {
+    const priority = parent.priorities[index];
+    return typeof priority === "number"
+      ? `priority ${priority}`
+      : "computed priority";
+  }
+  return ["all", "first", "chain", "collect"].includes(parent.type || "")
+    ? `${index + 1}`
+    : "";
+};
+
+const buildDiagram = (rule: AsyncRule, { trace }: DiagramOptions) => {
+  const entries = listRules(rule).map((entry, index) => ({
+    ...entry,
+    id: `n${index}`,
+  }));
+  const byPath = new Map(entries.map((entry) => [entry.path.join("."), entry]));
+  const nodes: DiagramNode[] = entries.map(({ rule: current, path, id }) => ({
+    id,
+    lines: ruleLines(current),
+    status: trace && statusOf(traceAt(trace, path)),
+  }));
+  const edges: DiagramEdge[] = entries.slice(1).map(({ path, id }) => {
+    const parent = byPath.get(
+      path.slice(0, -1).join(".")
+    ) as (typeof entries)[0];
+    const index = path[path.length - 1];
+    return {
+      from: parent.id,
+      to: id,
+      label: edgeLabel(parent.rule, index),
+    };
+  });
+  return { nodes, edges };
+};
+
+const statusColors: Record<NodeStatus, { fill: string; stroke: string }> = {
+  matched: { fill: "#d4edda", stroke: "#28a745" },
+  notMatched: { fill: "#f8f9fa", stroke: "#6c757d" },
+  failed: { fill: "#f8d7da", stroke: "#dc3545" },
+  notRun: { fill: "#ffffff", stroke: "#ced4da" },
+};
+
+const escapeMermaid = (text: string) =>
+  text.replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+
+// render a rule tree as a Mermaid flowchart
+// example:
+//   const [, result] = tracedRun(rule, facts, initialValue);
+//   toMermaid(rule, { trace: result.trace });
+const toMermaid = (rule: AsyncRule, options: DiagramOptions = {}): string => {
+  const { nodes, edges } = buildDiagram(rule, options);
+  const lines = [
+    "flowchart TD",
+    ...nodes.map(
+      ({ id, lines: text }) =>
+        `  ${id}["${text.map(escapeMermaid).join("<br/>")}"]`
+    ),
+    ...edges.map(({ from, to, label }) =>
+      label ? `  ${from} -->|${label}| ${to}` : `  ${from} --> ${to}`
+    ),
+  ];
+  if (!options.trace) {
+    return lines.join("\n");
+  }
+  const statuses = Object.keys(statusColors) as NodeStatus[];
+  const status = new Map(nodes.map((node) => [node.id, node.status]));
+  const matchedEdges = edges
+    .map((edge, index) => ({ edge, index }))
+    .filter(({ edge }) => status.get(edge.to) === "matched")
+    .map(({ index }) => index);
+  return [
+    ...lines,
+    ...statuses.map(
+      (name) =>
+        `  classDef ${name} fill:${statusColors[name].fill},stroke:${statusColors[name].stroke}`
+    ),
+    ...statuses
+      .map((name) => nodes.filter((node) => node.status === name))
+      .filter((group) => group.length > 0)
+      .map(
+        (group) =>
+          `  class ${group.map((node) => node.id).join(",")} ${group[0].status}`
+      ),
+    ...(matchedEdges.length > 0
+      ? [
+          `  linkStyle ${matchedEdges.join(",")} stroke:${
+            statusColors.matched.stroke
+          },stroke-width:2px`,
+        ]
+      : []),
+  ].join("\n");
+};
+
+const escapeDot = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+// render a rule tree as a Graphviz graph in the DOT language
+// example:
+//   toDot(rule) // render with `dot -Tsvg`
+const toDot = (rule: AsyncRule, options: DiagramOptions = {}): string => {
+  const { nodes, edges } = buildDiagram(rule, options);
+  const nodeStyle = (status?: NodeStatus) =>
+    status
+      ? `, style="filled${status === "notRun" ? ",dashed" : ""}", fillcolor="${
+          statusColors[status].fill
+        }", color="${statusColors[status].stroke}"`
+      : "";
+  const status = new Map(nodes.map((node) => [node.id, node.status]));
+  const edgeStyle = (to: string) =>
+    status.get(to) === "matched"
+      ? `, color="${statusColors.matched.stroke}", penwidth=2`
+      : "";
+  return [
+    "digraph rules {",
+    "  node [shape=box];",
+    ...nodes.map(
+      ({ id, lines: text, status: nodeStatus }) =>
+        `  ${id} [label="${text.map(escapeDot).join("\\n")}"${nodeStyle(
+          nodeStatus
+        )}];`
+    ),
+    ...edges.map(
+      ({ from, to, label }) =>
+        `  ${from} -> ${to} [label="${label}"${edgeStyle(to)}];`
+    ),
+    "}",
+  ].join("\n");
+};
+
+export { toMermaid, toDot };
+export type { DiagramOptions };
@@ -0,0 +1,250 @@
+import type { Rule, SerializedRule } from "./index";
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  createRegistry,
+  describeRule,
+  deserialize,
+  diffRules,
+  equals,
+  formatRuleDiff,
+  serialize,
+} from "./index";
+
+type Facts = { country: string };
+
+const add = (value: string) => (facts: Facts, list: string[]) =>
+  [...list, value];
+const named = (name: string, matcher = always) =>
+  describeRule({ name }, { matcher, action: add(name) });
+
+const germany = named("germany", equals("facts.country", "DE"));
+const austria = named("austria", equals("facts.country", "AT"));
+const fallback = named("fallback");
+
+describe("diffRules", () => {
+  test("finds no changes between equal trees", () => {
+    const rule = applyFirst([germany, austria, fallback]);
+    expect(diffRules(rule, applyFirst([germany, austria, fallback]))).toEqual({
+      changes: [],
+    });
+  });
+
+  test("finds added, removed and moved rules", () => {
+    const swiss = named("swiss");
+    const before = applyFirst([germany, austria, swiss, fallback]);
+    const after = applyFirst([austria, germany, fallback, named("italy")]);
+    expect(diffRules(before, after).changes).toEqual([
+      { kind: "removed", before: [2], label: "swiss" },
+      { kind: "moved", before: [0], after: [1], label: "germany" },
+      { kind: "added", after: [3], label: "italy" },
+    ]);
+  });
+
+  test("finds changed types, fields and functions", () => {
+    const before = describeRule(
+      { id: "offers" },
+      applyFirst([germany, applyIf(always, austria)])
+    );
+    const after = describeRule(
+      { id: "offers", tags: ["2024"] },
+      applyAll([
+        { ...germany, matcher: equals("facts.country", "CH") },
+        applyIf(equals("facts.country", "AT"), { ...austria, name: "at" }),
+      ])
+    );
+    expect(diffRules(before, after).changes).toEqual([
+      {
+        kind: "typeChanged",
+        before: [],
+        after: [],
+        label: "offers",
+        from: "first",
+        to: "all",
+      },
+      {
+        kind: "changed",
+        before: [],
+        after: [],
+        label: "offers",
+        field: "tags",
+        from: "nothing",
+        to: '["2024"]',
+      },
+      {
+        kind: "changed",
+        before: [0],
+        after: [0],
+        label: "germany",
+        field: "matcher",
+        from: 'facts.country equals "DE"',
+        to: 'facts.country equals "CH"',
+      },
+      {
+        kind: "changed",
+        before: [1],
+        after: [1],
+        label: "if",
+        field: "matcher",
+        from: "always",
+        to: 'facts.country equals "AT"',
+      },
+      {
+        kind: "changed",
+        before: [1, 0],
+        after: [1, 0],
+        label: "at",
+        field: "name",
+        from: '"austria"',
+        to: '"at"',
+      },
+    ]);
+  });
+
+  test("pairs rules without names in order", () => {
+    const before = applyChain([
+      { matcher: always, action: add("a") },
+      { matcher: always, action: add("b") },
+    ]);
+    const after = applyChain([
+      { matcher: always, action: add("a") },
+      { matcher: always, action: add("b") },
+    ]);
+    expect(
+      diffRules(before, after).changes.map(
+        (change) => change.kind === "changed" && change.field
+      )
+    ).toEqual(["action", "action"]);
+  });
+
+  test("compares priorities of child rules", () => {
+    const before = applyFirstByPriority([
+      { priority: 1, rule: germany },
+      { priority: 2, rule: austria },
+    ]);
+    const after = applyFirstByPriority([
+      { priority: 3, rule: germany },
+      { priority: 2, rule: austria },
+    ]);
+    expect(diffRules(before, after).changes).toEqual([
+      {
+        kind: "changed",
+        before: [0],
+        after: [0],
+        label: "germany",
+        field: "priority",
+        from: "1",
+        to: "3",
+      },
+    ]);
+  });
+
+  test("compares functions created by a registry by their reference", () => {
+    const registry = createRegistry({
+      matchers: { always: () => always },
+      actions: { add: ({ value }) => add(value) },
+    });
+    const rule = applyAll([
+      {
+        matcher: registry.matcher("always"),
+        action: registry.action("add", { value: "b" }),
+      },
+    ]);
+    const [, serialized] = serialize(rule);
+    const [, copy] = deserialize(registry, serialized as SerializedRule);
+    expect(diffRules(rule, copy as Rule).changes).toEqual([]);
+    const changed = applyAll([
+      {
+        matcher: registry.matcher("always"),
+        action: registry.action("add", { value: "c" }),
+      },
+    ]);
+    expect(formatRuleDiff(diffRules(rule, changed))).toBe(
+      [
+        "1 change to the rule tree:",
+        '  ~ [0] plain: action changed from add({"value":"b"}) to add({"value":"c"})',
+      ].join("\n")
+    );
+  });
+
+  test("reports fixtures with different outputs", () => {
+    const before = applyFirst([germany, austria, fallback]);
+    const after = applyFirst([austria, fallback]);
+    const fixtures = [
+      { name: "germany", facts: { country: "DE" }, initialValue: [] },
+      { facts: { country: "AT" }, initialValue: [] },
+    ];
+    const diff = diffRules(before, after, { fixtures });
+    expect(diff.outputs).toEqual({
+      fixtures: 2,
+      differences: [
+        {
+          index: 0,
+          name: "germany",
+          facts: { country: "DE" },
+          before: { foundMatch: true, value: ["germany"] },
+          after: { foundMatch: true, value: ["fallback"] },
+        },
+      ],
+    });
+    expect(formatRuleDiff(diff)).toBe(
+      [
+        "1 change to the rule tree:",
+        "  - [0] germany: removed",
+        "",
+        "1 of 2 fixtures produce different outputs:",
+        '  #0 germany {"country":"DE"}: ["germany"] -> ["fallback"]',
+      ].join("\n")
+    );
+  });
+
+  test("reports errors as outputs", () => {
+    const broken = {
+      matcher: always,
+      action: () => {
+        throw new Error("broken");
+      },
+    };
+    const diff = diffRules(applyAll([germany]), applyAll([germany, broken]), {
+      fixtures: [{ facts: { country: "AT" }, initialValue: [] }],
+    });
+    expect(diff.outputs?.differences[0].before).toEqual({
+      foundMatch: false,
+      value: [],
+    });
+    expect(diff.outputs?.differences[0].after).toEqual({
+      error: expect.stringContaining("broken"),
+    });
+  });
+});
+
+describe("formatRuleDiff", () => {
+  test("formats every kind of change", () => {
+    const before = applyFirst([germany, austria, named("swiss")]);
+    const after = applyAll([
+      austria,
+      { ...germany, matcher: equals("facts.country", "CH") },
+      named("italy"),
+    ]);
+    expect(formatRuleDiff(diffRules(before, after))).toBe(
+      [
+        "5 changes to the rule tree:",
+        "  ! [] all: applyFirst became applyAll",
+        "  - [2] swiss: removed",
+        "  > [1] germany: moved from [0]",
+        '  ~ [1] germany: matcher changed from facts.country equals "DE" to facts.country equals "CH"',
+        "  + [2] italy: added",
+      ].join("\n")
+    );
+  });
+
+  test("tells when there are no changes", () => {
+    expect(formatRuleDiff(diffRules(germany, germany))).toBe(
+      "No changes to the rule tree"
+    );
+  });
+});
@@ -0,0 +1,440 @@
+import { describeCondition, isCondition } from "./conditions";
+import { runFromRoot } from "./run";
+import { registeredRef } from "./serialize";
+import type { RulePath } from "./tree";
+import { childRules, ruleLabel } from "./tree";
+import type { AsyncRule, Rule, RuleType } from "./types";
+import { isEqual } from "./util";
+
+/* DIFFING RULES
+ * Reviewing a change to a big combined rule is hard, the code rarely shows
+ * how the tree changed. `diffRules` compares two versions of a rule tree rule
+ * by rule and, given fixtures, runs both versions to find the facts which
+ * produce different outputs.
+ */
+
+// facts and an initial value to run both versions of a rule with
+type Fixture<Facts = any, Input = any> = {
+  name?: string;
+  facts: Facts;
+  initialValue: Input;
+};
+
+// a change between two versions of a rule tree
+// `before` is the path of a rule in the old tree, `after` in the new one,
+// `label` the label of the rule (see `ruleLabel`) in the newer version
+//  - added / removed: the rule and all its child rules were added or removed
+//  - moved: the rule runs in another position among its siblings
+//  - typeChanged: the rule is now combined differently, e.g. `applyFirst`
+//      became `applyAll`, its child rules are still compared
+//  - changed: a field of the rule changed, like its matcher or name
+//      `from` and `to` describe the old and the new value
+type RuleChange =
+  | { kind: "added"; after: RulePath; label: string }
+  | { kind: "removed"; before: RulePath; label: string }
+  | { kind: "moved"; before: RulePath; after: RulePath; label: string }
+  | {
+      kind: "typeChanged";
+      before: RulePath;
+      after: RulePath;
+      label: string;
+      from: RuleType;
+      to: RuleType;
+    }
+  | {
+      kind: "changed";
+      before: RulePath;
+      after: RulePath;
+      label: string;
+      field: string;
+      from: string;
+      to: string;
+    };
+
+// the output of a rule for a fixture, the message of the error if it threw
+type FixtureOutput = { foundMatch: boolean; value: any } | { error: string };
+
+type OutputDifference<Facts = any> = {
+  index: number;
+  name?: string;
+  facts: Facts;
+  before: FixtureOutput;
+  after: FixtureOutput;
+};
+
+// `outputs` is only set when fixtures were passed
+//  - fixtures: the number of fixtures both versions were run with
+//  - differences: the fixtures which produced different outputs
+type RuleDiff<Facts = any> = {
+  changes: RuleChange[];
+  outputs?: {
+    fixtures: number;
+    differences: OutputDifference<Facts>[];
+  };
+};
+
+// the functions every type of rule contains, they are compared by identity
+// unless they are conditions or were created by a registry
+const functionFields: Record<RuleType, string[]> = {
+  plain: ["matcher", "action"],
+  injected: ["mapper"],
+  transformed: ["transformer"],
+  if: ["matcher"],
+  guarded: [],
+  all: [],
+  first: [],
+  chain: [],
+  prioritized: [],
+  experiment: [],
+  collect: ["reducer"],
+  each: ["mapper"],
+  repeat: [],
+};
+
+// the other fields of every type of rule, they are compared by value
+const valueFields: Record<RuleType, string[]> = {
+  plain: [],
+  injected: [],
+  transformed: [],
+  if: [],
+  guarded: ["policy"],
+  all: [],
+  first: [],
+  chain: [],
+  prioritized: ["mode"],
+  experiment: ["experiment", "key", "salt"],
+  collect: [],
+  each: [],
+  repeat: ["maxIterations"],
+};
+
+const metaFields = ["id", "name", "description", "tags"];
+
+// the names of the combinators creating every type of rule
+const combinatorNames: Record<RuleType, string> = {
+  plain: "rule",
+  injected: "injectFacts",
+  transformed: "transformOutput",
+  if: "applyIf",
+  guarded: "onError",
+  all: "applyAll",
+  first: "applyFirst",
+  chain: "applyChain",
+  prioritized: "applyFirstByPriority / applyAllByPriority",
+  experiment: "experiment",
+  collect: "collectAll",
+  each: "applyToEach",
+  repeat: "applyRepeatedly",
+};
+
+// conditions and functions created by a registry are described by the data
+// they were created from, other functions only by their name
+const describeFunction = (fn: Function): string => {
+  if (isCondition(fn)) {
+    return describeCondition(fn.condition);
+  }
+  const ref = registeredRef(fn);
+  if (ref) {
+    return ref.params === undefined
+      ? ref.name
+      : `${ref.name}(${JSON.stringify(ref.params)})`;
+  }
+  return fn.name || "anonymous function";
+};
+
+const isSameFunction = (a: Function, b: Function) =>
+  a === b ||
+  (isCondition(a) && isCondition(b) && isEqual(a.condition, b.condition)) ||
+  (!!registeredRef(a) && isEqual(registeredRef(a), registeredRef(b)));
+
+const describeValue = (value: unknown): string => {
+  if (typeof value === "function") {
+    return describeFunction(value);
+  }
+  return value === undefined ? "nothing" : JSON.stringify(value);
+};
+
+const isSameValue = (a: unknown, b: unknown) =>
+  typeof a === "function" && typeof b === "function"
+    ? isSameFunction(a, b)
+    : isEqual(a, b);
+
+// the fields of a child rule which are stored in its parent, like its
+// priority, they are compared when both parents are of the same type
+const parentFields = (parent: AsyncRule, index: number) => {
+  if (parent.type === "prioritized") {
+    return { priority: parent.priorities[index] };
+  }
+  if (parent.type === "experiment") {
+    return {
+      variant: parent.variants[index],
+      weight: parent.weights[index],
+    };
+  }
+  return {};
+};
+
+const keyOf = (rule: AsyncRule) => rule.id ?? rule.name;
+
+// pair up the child rules of both versions, as [index before, index after]
+// sorted by the index after, rules are paired when they are the same object,
+// else by their id or name, rules without either are paired in order
+const pairChildren = (before: AsyncRule[], after: AsyncRule[]) => {
+  const unpairedBefore = new Set(before.keys());
+  const pairs: [number, number][] = [];
+  const strategies = [
+    (a: AsyncRule, b: AsyncRule) => a === b,
+    (a: AsyncRule, b: AsyncRule) =>
+      keyOf(b) !== undefined && keyOf(a) === keyOf(b),
+    (a: AsyncRule, b: AsyncRule) =>
+      keyOf(a) === undefined && keyOf(b) === undefined,
+  ];
+  strategies.forEach((isPair) => {
+    after.forEach((rule, afterIndex) => {
+      if (pairs.some(([, paired]) => paired === afterIndex)) {
+        return;
+      }
+      const beforeIndex = [...unpairedBefore].find((index) =>
+        isPair(before[index], rule)
+      );
+      if (beforeIndex !== undefined) {
+        unpairedBefore.delete(beforeIndex);
+        pairs.push([beforeIndex, afterIndex]);
+      }
+    });
+  });
+  // the only child rules of e.g. `applyIf` stay paired even when renamed
+  if (before.length === 1 && after.length === 1 && pairs.length === 0) {
+    pairs.push([0, 0]);
+  }
+  return pairs.sort((a, b) => a[1] - b[1]);
+};
+
+// the pairs which keep their order relative to each other, the longest
+// increasing run of indexes before, all other pairs were moved
+const keptInOrder = (pairs: [number, number][]) => {
+  const lengths = pairs.map(() => 1);
+  const previous = pairs.map(() => -1);
+  pairs.forEach(([beforeIndex], index) => {
+    pairs.slice(0, index).forEach(([earlier], earlierIndex) => {
+      if (earlier < beforeIndex && lengths[earlierIndex] + 1 > lengths[index]) {
+        lengths[index] = lengths[earlierIndex] + 1;
+        previous[index] = earlierIndex;
+      }
+    });
+  });
+  const kept = new Set<number>();
+  let current = lengths.indexOf(Math.max(0, ...lengths));
+  while (current >= 0) {
+    kept.add(current);
+    current = previous[current];
+  }
+  return kept;
+};
+
+const diffHelp = (
+  before: AsyncRule,
+  after: AsyncRule,
+  paths: { before: RulePath; after: RulePath },
+  changes: RuleChange[],
+  fromParent: Record<string, unknown> = {},
+  toParent: Record<string, unknown> = {}
+) => {
+  const label = ruleLabel(after);
+  const beforeType = before.type || "plain";
+  const afterType = after.type || "plain";
+  if (beforeType !== afterType) {
+    changes.push({
+      kind: "typeChanged",
+      ...paths,
+      label,
+      from: beforeType,
+      to: afterType,
+    });
+  }
+  const fields =
+    beforeType === afterType
+      ? [
+          ...metaFields,
+          ...functionFields[afterType],
+          ...valueFields[afterType],
+          ...Object.keys(toParent),
+        ]
+      : metaFields;
+  const fieldsBefore = { ...before, ...fromParent } as Record<string, unknown>;
+  const fieldsAfter = { ...after, ...toParent } as Record<string, unknown>;
+  fields.forEach((field) => {
+    if (!isSameValue(fieldsBefore[field], fieldsAfter[field])) {
+      changes.push({
+        kind: "changed",
+        ...paths,
+        label,
+        field,
+        from: describeValue(fieldsBefore[field]),
+        to: describeValue(fieldsAfter[field]),
+      });
+    }
+  });
+
+  const childrenBefore = childRules(before);
+  const childrenAfter = childRules(after);
+  const pairs = pairChildren(childrenBefore, childrenAfter);
+  const kept = keptInOrder(pairs);
+  childrenBefore.forEach((child, index) => {
+    if (!pairs.some(([paired]) => paired === index)) {
+      changes.push({
+        kind: "removed",
+        before: [...paths.before, index],
+        label: ruleLabel(child),
+      });
+    }
+  });
+  childrenAfter.forEach((child, index) => {
+    const position = pairs.findIndex(([, paired]) => paired === index);
+    const childPaths = {
+      before: [...paths.before, position >= 0 ? pairs[position][0] : -1],
+      after: [...paths.after, index],
+    };
+    if (position < 0) {
+      changes.push({
+        kind: "added",
+        after: childPaths.after,
+        label: ruleLabel(child),
+      });
+      return;
+    }
+    if (!kept.has(position)) {
+      changes.push({ kind: "moved", ...childPaths, label: ruleLabel(child) });
+    }
+    const sameParentType = beforeType === afterType;
+    diffHelp(
+      childrenBefore[pairs[position][0]],
+      child,
+      childPaths,
+      changes,
+      sameParentType ? parentFields(before, pairs[position][0]) : {},
+      sameParentType ? parentFields(after, index) : {}
+    );
+  });
+};
+
+const runFixture = (rule: Rule, { facts, initialValue }: Fixture) => {
+  const [err, result] = runFromRoot(rule, facts, initialValue);
+  return result
+    ? { foundMatch: result.foundMatch, value: result.value }
+    : { error: err.message };
+};
+
+// compare two versions of a rule tree rule by rule, the changes are listed
+// depth first in the order of the new tree
+// child rules are recognized by their id or name, or by being the same
+// object, so give rules in long lists names to get precise diffs
+// when fixtures are passed, both versions are run for all of them and the
+// fixtures producing different outputs are reported as well
+// example:
+//   const diff = diffRules(currentRule, proposedRule, { fixtures });
+//   console.log(formatRuleDiff(diff));
+const diffRules: {
+  <Facts, Input>(
+    before: Rule<Facts, any, Input>,
+    after: Rule<Facts, any, Input>,
+    options: { fixtures: Fixture<Facts, Input>[] }
+  ): RuleDiff<Facts>;
+  (before: AsyncRule, after: AsyncRule): RuleDiff;
+} = (
+  before: AsyncRule,
+  after: AsyncRule,
+  options?: { fixtures: Fixture[] }
+): RuleDiff => {
+  const changes: RuleChange[] = [];
+  diffHelp(before, after, { before: [], after: [] }, changes);
+  if (!options) {
+    return { changes };
+  }
+  const differences = options.fixtures.flatMap((fixture, index) => {
+    const outputBefore = runFixture(before as Rule, fixture);
+    const outputAfter = runFixture(after as Rule, fixture);
+    return isEqual(outputBefore, outputAfter)
+      ? []
+      : [
+          {
+            index,
+            ...(fixture.name === undefined ? {} : { name: fixture.name }),
+            facts: fixture.facts,
+            before: outputBefore,
+            after: outputAfter,
+          },
+        ];
+  });
+  return {
+    changes,
+    outputs: { fixtures: options.fixtures.length, differences },
+  };
+};
+
+const formatPath = (path: RulePath) => `[${path.join(", ")}]`;
+
+const formatChange = (change: RuleChange): string => {
+  switch (change.kind) {
+    case "added":
+      return `+ ${formatPath(change.after)} ${change.label}: added`;
+    case "removed":
+      return `- ${formatPath(change.before)} ${change.label}: removed`;
+    case "moved":
+      return `> ${formatPath(change.after)} ${
+        change.label
+      }: moved from ${formatPath(change.before)}`;
+    case "typeChanged":
+      return `! ${formatPath(change.after)} ${change.label}: ${
+        combinatorNames[change.from]
+      } became ${combinatorNames[change.to]}`;
+    default:
+      return change.from === change.to
+        ? `~ ${formatPath(change.after)} ${change.label}: ${
+            change.field
+          } was replaced (${change.to})`
+        : `~ ${formatPath(change.after)} ${change.label}: ${
+            change.field
+          } changed from ${change.from} to ${change.to}`;
+  }
+};
+
+const formatOutput = (output: FixtureOutput) =>
+  "error" in output
+    ? `threw "${output.error}"`
+    : `${JSON.stringify(output.value)}${
+        output.foundMatch ? "" : " (no match)"
+      }`;
+
+// format a diff as a human readable text
+const formatRuleDiff = (diff: RuleDiff): string => {
+  const { changes, outputs } = diff;
+  const lines =
+    changes.length === 0
+      ? ["No changes to the rule tree"]
+      : [
+          `${changes.length} ${
+            changes.length === 1 ? "change" : "changes"
+          } to the rule tree:`,
+          ...changes.map((change) => `  ${formatChange(change)}`),
+        ];
+  if (outputs) {
+    const { fixtures, differences } = outputs;
+    lines.push(
+      "",
+      `${differences.length} of ${fixtures} fixtures produce different outputs${
+        differences.length > 0 ? ":" : ""
+      }`,
+      ...differences.map(
+        ({ index, name, facts, before, after }) =>
+          `  #${index}${name ? ` ${name}` : ""} ${JSON.stringify(
+            facts
+          )}: ${formatOutput(before)} -> ${formatOutput(after)}`
+      )
+    );
+  }
+  return lines.join("\n");
+};
+
+export { diffRules, formatRuleDiff };
+export type { Fixture, FixtureOutput, OutputDifference, RuleChange, RuleDiff };
@@ -0,0 +1,172 @@
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyIf,
+  describeRule,
+  detailedRun,
+  detailedRunAsync,
+  injectFacts,
+  onError,
+  ruleAtPath,
+  RuleError,
+  run,
+  runAsync,
+  tracedRun,
+} from "./index";
+
+const boomError = new Error("BOOM!");
+const add = (value: number) => ({
+  matcher: always,
+  action: (facts: unknown, list: number[]) => [...list, value],
+});
+const failingRule = describeRule(
+  { name: "failing" },
+  {
+    matcher: always,
+    action: (): number[] => {
+      throw boomError;
+    },
+  }
+);
+
+describe("RuleError", () => {
+  test("wraps errors with the path of the rule that threw", () => {
+    const rule = applyAll([add(1), applyIf(always, failingRule)]);
+    const [err] = detailedRun(rule, { country: "DE" }, [0]);
+    expect(err).toBeInstanceOf(RuleError);
+    const error = err as RuleError;
+    expect(error.cause).toBe(boomError);
+    expect(error.path).toEqual([1, 0]);
+    expect(ruleAtPath(rule, error.path)).toBe(failingRule);
+    expect(error.rule).toBe(failingRule);
+    expect(error.message).toBe('rule "failing" at [1, 0] failed: BOOM!');
+  });
+
+  test("records the facts and value the failing rule received", () => {
+    const rule = applyChain([
+      add(1),
+      injectFacts(() => ({ language: "de" }), {
+        matcher: (facts: { language: string }) => {
+          throw new Error(`no ${facts.language}`);
+        },
+        action: (facts: unknown, list: number[]) => list,
+      }),
+    ]);
+    const [err] = detailedRun(rule, { country: "DE" }, [0]);
+    expect(err).toMatchObject({
+      path: [1, 0],
+      facts: { language: "de" },
+      value: [0, 1],
+      message: 'rule "plain" at [1, 0] failed: no de',
+    });
+  });
+
+  test("wraps values thrown which are not errors", () => {
+    const rule = {
+      matcher: () => {
+        // eslint-disable-next-line @typescript-eslint/no-throw-literal
+        throw "nope";
+      },
+      action: always,
+    };
+    const [err] = detailedRun(rule, null, null);
+    expect(err?.message).toBe('rule "plain" at [] failed: nope');
+    expect(err?.cause).toBe("nope");
+  });
+
+  test("run returns the error instead of crashing", () => {
+    expect(run(failingRule, null, [])).toEqual([expect.any(RuleError), null]);
+  });
+});
+
+describe("onError", () => {
+  test("creates a guarded rule", () => {
+    expect(onError("skip", failingRule)).toEqual({
+      type: "guarded",
+      policy: "skip",
+      rule: failingRule,
+    });
+  });
+
+  test("skips the rule when it throws", () => {
+    const rule = applyAll([add(1), onError("skip", failingRule), add(2)]);
+    expect(detailedRun(rule, null, [])).toEqual([
+      null,
+      { foundMatch: true, value: [1, 2] },
+    ]);
+    expect(detailedRun(onError("skip", failingRule), null, [0])).toEqual([
+      null,
+      { foundMatch: false, value: [0] },
+    ]);
+  });
+
+  test("a skipped rule doesn't count as a match in applyFirst", () => {
+    const rule = applyFirst([onError("skip", failingRule), add(2)]);
+    expect(run(rule, null, [])).toEqual([null, [2]]);
+  });
+
+  test("uses the fallback value when the rule throws", () => {
+    const rule = applyFirst([onError({ fallback: [42] }, failingRule), add(2)]);
+    expect(detailedRun(rule, null, [])).toEqual([
+      null,
+      { foundMatch: true, value: [42] },
+    ]);
+  });
+
+  test("leaves rules which don't throw alone", () => {
+    expect(run(onError({ fallback: [42] }, add(1)), null, [])).toEqual([
+      null,
+      [1],
+    ]);
+  });
+
+  test("the closest policy applies", () => {
+    const rule = onError(
+      { fallback: [42] },
+      applyAll([add(1), onError("skip", failingRule)])
+    );
+    expect(run(rule, null, [])).toEqual([null, [1]]);
+  });
+
+  test('"abort" ends the run even inside of rules with other policies', () => {
+    const rule = onError(
+      "skip",
+      applyAll([add(1), onError("abort", failingRule)])
+    );
+    const [err, value] = run(rule, null, []);
+    expect(err).toBeInstanceOf(RuleError);
+    expect((err as RuleError).path).toEqual([0, 1, 0]);
+    expect(value).toBe(null);
+  });
+
+  test("tracedRun records the handled error on the rule that threw", () => {
+    const rule = onError("skip", applyAll([add(1), failingRule]));
+    const [, result] = tracedRun(rule, null, []);
+    const trace = result?.trace;
+    expect(trace?.error).toBeUndefined();
+    expect(trace?.foundMatch).toBe(false);
+    expect(trace?.children[0].error).toBeInstanceOf(RuleError);
+    expect(trace?.children[0].children[1].error?.cause).toBe(boomError);
+    expect(trace?.children[0].children[0].error).toBeUndefined();
+  });
+
+  test("works with async rules", async () => {
+    const asyncFailingRule = {
+      matcher: async () => true,
+      action: async (): Promise<number[]> => {
+        throw boomError;
+      },
+    };
+    const rule = applyAll([add(1), onError("skip", asyncFailingRule)]);
+    expect(await runAsync(rule, null, [])).toEqual([null, [1]]);
+    const [err] = await detailedRunAsync(
+      applyAll([add(1), applyIf(always, asyncFailingRule)]),
+      null,
+      []
+    );
+    expect(err).toBeInstanceOf(RuleError);
+    expect((err as RuleError).path).toEqual([1, 0]);
+  });
+});
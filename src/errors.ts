@@ -0,0 +1,82 @@
+import type { RulePath } from "./tree";
+import { ruleLabel } from "./tree";
+import type { AsyncRule, ErrorPolicy, RuleResult } from "./types";
+
+/* ERRORS
+ * Anything thrown while running a rule is wrapped in a `RuleError` which
+ * records where in the tree it happened. Rules combined with `onError`
+ * decide what happens to errors thrown by the rules they contain.
+ */
+
+// returned as error by the runners when a matcher, action, mapper or
+// transformer throws
+//  - cause: what was originally thrown
+//  - rule, path: the rule which threw and its position in the tree that was
+//      run (see `ruleAtPath`)
+//  - facts, value: the facts and the incoming value of that rule
+class RuleError extends Error {
+  rule: AsyncRule;
+
+  path: RulePath;
+
+  facts: unknown;
+
+  value: unknown;
+
+  constructor(
+    cause: unknown,
+    rule: AsyncRule,
+    path: RulePath,
+    facts: unknown,
+    value: unknown
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `rule "${ruleLabel(rule)}" at [${path.join(", ")}] failed: ${reason}`,
+      { cause }
+    );
+    this.name = "RuleError";
+    this.rule = rule;
+    this.path = path;
+    this.facts = facts;
+    this.value = value;
+  }
+}
+
+// errors which passed a rule with the "abort" policy and have to end the run
+const abortedErrors = new WeakSet<RuleError>();
+
+// errors of rules further down the tree are wrapped already
+const toRuleError = (
+  err: unknown,
+  rule: AsyncRule,
+  path: RulePath,
+  facts: unknown,
+  value: unknown
+): RuleError =>
+  err instanceof RuleError ? err : new RuleError(err, rule, path, facts, value);
+
+// apply the policy of a rule combined with `onError` to an error thrown by
+// its rule, the error is thrown again when the policy doesn't handle it
+const handleError = (
+  policy: ErrorPolicy,
+  error: RuleError,
+  state: RuleResult
+): RuleResult => {
+  if (policy === "abort" || abortedErrors.has(error)) {
+    abortedErrors.add(error);
+    throw error;
+  }
+  if (policy === "skip") {
+    return { foundMatch: false, value: state.value };
+  }
+  return { foundMatch: true, value: policy.fallback };
+};
+
+// whether a value can be used as error policy, see `ErrorPolicy`
+const isErrorPolicy = (policy: unknown): policy is ErrorPolicy =>
+  policy === "abort" ||
+  policy === "skip" ||
+  (typeof policy === "object" && policy !== null && "fallback" in policy);
+
+export { RuleError, toRuleError, handleError, isErrorPolicy };
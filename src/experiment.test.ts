@@ -0,0 +1,110 @@
+import { bucketOf, checkKey, checkWeights, variantIndex } from "./experiment";
+
+const ids = Array.from({ length: 1000 }, (_, index) => `user-${index}`);
+
+describe("bucketOf", () => {
+  test("returns the same bucket for the same key and salt", () => {
+    expect(bucketOf("user-1", "checkout")).toBe(bucketOf("user-1", "checkout"));
+  });
+
+  test("returns buckets from 0 up to 1", () => {
+    ids.forEach((id) => {
+      const bucket = bucketOf(id, "checkout");
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(1);
+    });
+  });
+
+  test("spreads similar keys evenly", () => {
+    const lowerHalf = ids.filter((id) => bucketOf(id, "checkout") < 0.5);
+    expect(lowerHalf.length).toBeGreaterThan(450);
+    expect(lowerHalf.length).toBeLessThan(550);
+  });
+
+  test("assigns the same key to unrelated buckets for other salts", () => {
+    const same = ids.filter(
+      (id) =>
+        bucketOf(id, "checkout") < 0.5 === bucketOf(id, "newsletter") < 0.5
+    );
+    expect(same.length).toBeGreaterThan(450);
+    expect(same.length).toBeLessThan(550);
+  });
+
+  test("turns keys which aren't strings into strings", () => {
+    expect(bucketOf(42, "checkout")).toBe(bucketOf("42", "checkout"));
+  });
+});
+
+describe("checkKey", () => {
+  test("accepts paths into the facts and the value", () => {
+    expect(() => checkKey("facts.user.id")).not.toThrow();
+    expect(() => checkKey("value")).not.toThrow();
+  });
+
+  test("throws for anything else", () => {
+    expect(() => checkKey("user.id")).toThrow(
+      'key must be a path starting with "facts" or "value", got "user.id"'
+    );
+    expect(() => checkKey("factsheet")).toThrow('got "factsheet"');
+    expect(() => checkKey(undefined)).toThrow("got undefined");
+  });
+});
+
+describe("checkWeights", () => {
+  test("accepts numbers >= 0 adding up to more than 0", () => {
+    expect(() => checkWeights([0, 0.5, 3])).not.toThrow();
+  });
+
+  test("throws for weights which aren't numbers >= 0", () => {
+    expect(() => checkWeights([1, -1])).toThrow(
+      "weight of the variant at index 1 must be a number >= 0, got -1"
+    );
+    expect(() => checkWeights([NaN])).toThrow("got NaN");
+    expect(() => checkWeights(["1"])).toThrow("got 1");
+  });
+
+  test("throws if the weights add up to 0", () => {
+    expect(() => checkWeights([0, 0])).toThrow(
+      "weights of the variants must add up to more than 0"
+    );
+    expect(() => checkWeights([])).toThrow(
+      "weights of the variants must add up to more than 0"
+    );
+  });
+});
+
+describe("variantIndex", () => {
+  const checkout = { key: "facts.user.id", salt: "checkout", weights: [3, 1] };
+  const indexOf = (id: unknown) => variantIndex(checkout, { user: { id } }, []);
+
+  test("gives every variant a share of the keys according to its weight", () => {
+    const first = ids.filter((id) => indexOf(id) === 0);
+    expect(first.length).toBeGreaterThan(700);
+    expect(first.length).toBeLessThan(800);
+    expect(ids.every((id) => [0, 1].includes(indexOf(id)))).toBe(true);
+  });
+
+  test("never picks variants without weight", () => {
+    const experiment = { ...checkout, weights: [0, 1, 0] };
+    expect(
+      ids.every((id) => variantIndex(experiment, { user: { id } }, []) === 1)
+    ).toBe(true);
+  });
+
+  test("reads the key from the value", () => {
+    const byValue = { ...checkout, key: "value.id" };
+    expect(variantIndex(byValue, {}, { id: "user-1" })).toBe(indexOf("user-1"));
+  });
+
+  test("returns -1 when the key is missing", () => {
+    expect(indexOf(undefined)).toBe(-1);
+    expect(indexOf(null)).toBe(-1);
+    expect(variantIndex(checkout, {}, [])).toBe(-1);
+  });
+
+  test("throws for invalid weights", () => {
+    expect(() =>
+      variantIndex({ ...checkout, weights: [0] }, { user: { id: 1 } }, [])
+    ).toThrow("weights of the variants must add up to more than 0");
+  });
+});
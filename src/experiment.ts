@@ -0,0 +1,94 @@
+import { getPath } from "./util";
+
+/* EXPERIMENTS
+ * Percentage rollouts and A/B experiments assign every user (or any other
+ * fact used as key) to a bucket by hashing the value of the key along with a
+ * salt. The same key and salt always end up in the same bucket, so results
+ * are deterministic without storing any assignments. Shared by all ways of
+ * running rules.
+ */
+
+/* eslint-disable no-bitwise */
+// FNV-1a, a fast hash which works the same everywhere, followed by the final
+// mixing step of MurmurHash3 so that keys which only differ in their last
+// characters, like `user-1` and `user-2`, are spread evenly
+const hash = (text: string): number => {
+  let result = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    result ^= text.charCodeAt(index);
+    result = Math.imul(result, 0x01000193);
+  }
+  result ^= result >>> 16;
+  result = Math.imul(result, 0x85ebca6b);
+  result ^= result >>> 13;
+  result = Math.imul(result, 0xc2b2ae35);
+  result ^= result >>> 16;
+  return result >>> 0;
+};
+/* eslint-enable no-bitwise */
+
+// the bucket of a key, a number from 0 (included) to 1 (excluded)
+// different salts assign the same key to unrelated buckets
+const bucketOf = (key: unknown, salt: string): number =>
+  hash(`${salt}:${String(key)}`) / 2 ** 32;
+
+// throws if the key isn't a dot separated path starting with `facts` or
+// `value`, like the paths of conditions
+const checkKey = (key: unknown): void => {
+  if (typeof key !== "string" || !/^(facts|value)(\.|$)/.test(key)) {
+    throw new Error(
+      `key must be a path starting with "facts" or "value", got ${JSON.stringify(
+        key
+      )}`
+    );
+  }
+};
+
+// throws if the weights aren't numbers >= 0 adding up to more than 0
+const checkWeights = (weights: unknown[]): void => {
+  weights.forEach((weight, index) => {
+    if (typeof weight !== "number" || !(weight >= 0)) {
+      throw new Error(
+        `weight of the variant at index ${index} must be a number >= 0, got ${String(
+          weight
+        )}`
+      );
+    }
+  });
+  const total = (weights as number[]).reduce((sum, weight) => sum + weight, 0);
+  if (!(total > 0)) {
+    throw new Error("weights of the variants must add up to more than 0");
+  }
+};
+
+// the index of the variant of an experiment a key is assigned to, every
+// variant gets a share of the buckets according to its weight
+// returns -1 when the key is missing, `key` is a dot separated path like the
+// paths of conditions
+// throws if the weights aren't numbers >= 0 adding up to more than 0
+const variantIndex = (
+  experiment: { key: string; salt: string; weights: number[] },
+  facts: any,
+  value: any
+): number => {
+  const { weights } = experiment;
+  checkWeights(weights);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const key = getPath(experiment.key, facts, value);
+  if (key === undefined || key === null) {
+    return -1;
+  }
+  const target = bucketOf(key, experiment.salt) * total;
+  let upper = 0;
+  // the last variant with a weight catches rounding errors
+  const last = weights.reduce(
+    (found, weight, index) => (weight > 0 ? index : found),
+    0
+  );
+  return weights.findIndex((weight, index) => {
+    upper += weight;
+    return weight > 0 && (target < upper || index === last);
+  });
+};
+
+export { bucketOf, checkKey, checkWeights, variantIndex };
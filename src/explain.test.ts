@@ -0,0 +1,214 @@
+import {
+  all,
+  applyAll,
+  applyIf,
+  describeMatcher,
+  describeRule,
+  detailedRun,
+  equals,
+  explainMatcher,
+  greaterThan,
+  isCombinedMatcher,
+  not,
+  one,
+  withHooks,
+} from "./index";
+
+type Facts = { country: string; age: number; user?: { verified: boolean } };
+
+const isAdult = (facts: Facts) => facts.age >= 18;
+const isVerified = (facts: Facts) => facts.user!.verified;
+const add = (value: string) => (facts: Facts, list: string[]) =>
+  [...list, value];
+
+describe("explainMatcher", () => {
+  test("describes matcher functions by their name", () => {
+    expect(describeMatcher(isAdult)).toBe("isAdult");
+    expect(describeMatcher(() => true)).toBe("matcher");
+    expect(
+      describeMatcher(one([not(isAdult), equals("facts.country", "DE")]))
+    ).toBe('(not isAdult or facts.country equals "DE")');
+  });
+
+  test("explains which of the combined matchers passed or failed", () => {
+    const matcher = all([
+      equals("facts.country", "DE"),
+      not(isAdult),
+      greaterThan("facts.age", 20),
+    ]);
+    expect(isCombinedMatcher(matcher)).toBe(true);
+    expect(matcher({ country: "DE", age: 30 })).toBe(false);
+    expect(explainMatcher(matcher, { country: "DE", age: 30 })).toEqual({
+      description:
+        '(facts.country equals "DE" and not isAdult and facts.age is greater than 20)',
+      passed: false,
+      children: [
+        { description: 'facts.country equals "DE"', passed: true },
+        {
+          description: "not isAdult",
+          passed: false,
+          children: [{ description: "isAdult", passed: true }],
+        },
+      ],
+    });
+  });
+
+  test("stops where the combined matcher stops", () => {
+    const matcher = one([isAdult, isVerified]);
+    expect(explainMatcher(matcher, { country: "DE", age: 30 })).toEqual({
+      description: "(isAdult or isVerified)",
+      passed: true,
+      children: [{ description: "isAdult", passed: true }],
+    });
+    expect(
+      explainMatcher(matcher, {
+        country: "DE",
+        age: 12,
+        user: { verified: false },
+      }).children
+    ).toEqual([
+      { description: "isAdult", passed: false },
+      { description: "isVerified", passed: false },
+    ]);
+  });
+
+  test("explains conditions like explainCondition", () => {
+    expect(explainMatcher(not(equals("facts.country", "DE")), {})).toEqual({
+      description: 'not facts.country equals "DE"',
+      passed: true,
+      children: [
+        {
+          description: 'facts.country equals "DE"',
+          passed: false,
+          reason: 'facts.country was undefined, expected "DE"',
+        },
+      ],
+    });
+  });
+});
+
+describe("detailedRun with { explain: true }", () => {
+  const rule = applyAll([
+    describeRule(
+      { name: "adults in germany" },
+      {
+        matcher: all([equals("facts.country", "DE"), isAdult]),
+        action: add("adult"),
+      }
+    ),
+    applyIf(one([isAdult, equals("facts.country", "AT")]), {
+      matcher: isAdult,
+      action: add("checked"),
+    }),
+    { matcher: () => true, action: add("always") },
+  ]);
+
+  test("explains every failed matcher of plain and if rules", () => {
+    expect(
+      detailedRun(rule, { country: "DE", age: 12 }, [], { explain: true })
+    ).toEqual([
+      null,
+      {
+        foundMatch: true,
+        value: ["always"],
+        explanations: [
+          {
+            path: [0],
+            label: "adults in germany",
+            explanation: {
+              description: '(facts.country equals "DE" and isAdult)',
+              passed: false,
+              children: [
+                { description: 'facts.country equals "DE"', passed: true },
+                { description: "isAdult", passed: false },
+              ],
+            },
+          },
+          {
+            path: [1],
+            label: "if",
+            explanation: {
+              description: '(isAdult or facts.country equals "AT")',
+              passed: false,
+              children: [
+                { description: "isAdult", passed: false },
+                {
+                  description: 'facts.country equals "AT"',
+                  passed: false,
+                  reason: 'facts.country was "DE", expected "AT"',
+                },
+              ],
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("only explains when asked to and something failed", () => {
+    expect(detailedRun(rule, { country: "DE", age: 12 })([])).toEqual([
+      null,
+      { foundMatch: true, value: ["always"] },
+    ]);
+    expect(
+      detailedRun(rule, { country: "DE", age: 30 }, [], { explain: true })
+    ).toEqual([
+      null,
+      { foundMatch: true, value: ["adult", "checked", "always"] },
+    ]);
+  });
+
+  test("evaluates the matchers once", () => {
+    const calls: string[] = [];
+    const counted = (name: string, passed: boolean) =>
+      Object.defineProperty(
+        () => {
+          calls.push(name);
+          return passed;
+        },
+        "name",
+        { value: name }
+      );
+    const [, result] = detailedRun(
+      {
+        matcher: all([counted("a", true), counted("b", false)]),
+        action: add("x"),
+      },
+      { country: "DE", age: 30 },
+      [],
+      { explain: true }
+    );
+    expect(calls).toEqual(["a", "b"]);
+    expect(result?.explanations?.[0].explanation).toEqual({
+      description: "(a and b)",
+      passed: false,
+      children: [
+        { description: "a", passed: true },
+        { description: "b", passed: false },
+      ],
+    });
+  });
+
+  test("explains matchers failed by hooks as well", () => {
+    const { detailedRun: hookedRun } = withHooks({
+      afterMatcher: ({ path }) => (path.length === 0 ? false : undefined),
+    });
+    const [, result] = hookedRun(
+      { matcher: isAdult, action: add("adult") },
+      { country: "DE", age: 30 },
+      [],
+      { explain: true }
+    );
+    expect(result?.explanations).toEqual([
+      {
+        path: [],
+        label: "plain",
+        explanation: {
+          description: "isAdult",
+          passed: false,
+          reason: "failed by the afterMatcher hook",
+        },
+      },
+    ]);
+  });
+});
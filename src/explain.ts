@@ -0,0 +1,106 @@
+import type { ConditionExplanation } from "./conditions";
+import { describeCondition, explainCondition, isCondition } from "./conditions";
+import type { RulePath } from "./tree";
+import type { Matcher } from "./types";
+
+/* EXPLAINING MATCHERS
+ * Conditions can explain why they passed or failed, other matchers are
+ * functions which only return a boolean. Matchers combined with `not`, `one`
+ * and `all` remember the matchers they combine, so they can at least tell
+ * which of those passed or failed, down to the conditions and matcher
+ * functions they are made of. Matcher functions are described by their name.
+ */
+
+type MatcherCombination = {
+  op: "not" | "one" | "all";
+  matchers: Matcher[];
+};
+
+// a matcher made by `not`, `one` or `all` from matchers which aren't all
+// conditions
+type CombinedMatcher = ((facts?: any, value?: any) => boolean) & {
+  combination: MatcherCombination;
+};
+
+// why the matcher of a plain or "if" rule failed, listed as `explanations`
+// by `detailedRun` when run with `{ explain: true }`
+//  - path: the position of the rule in the tree, see `ruleAtPath`
+//  - label: the name or id of the rule, see `ruleLabel`
+type MatcherFailure = {
+  path: RulePath;
+  label: string;
+  explanation: ConditionExplanation;
+};
+
+// attach the matchers a combined matcher is made of
+const combineMatchers = (
+  op: MatcherCombination["op"],
+  matchers: Matcher[],
+  matcher: (facts?: any, value?: any) => boolean
+): CombinedMatcher => Object.assign(matcher, { combination: { op, matchers } });
+
+const isCombinedMatcher = (matcher: unknown): matcher is CombinedMatcher =>
+  typeof matcher === "function" && "combination" in matcher;
+
+// a human readable description of a matcher, like `describeCondition`
+// example:
+//   describeMatcher(all([isAdult, equals("facts.country", "DE")]))
+//   // '(isAdult and facts.country equals "DE")'
+const describeMatcher = (matcher: Matcher): string => {
+  if (isCondition(matcher)) {
+    return describeCondition(matcher.condition);
+  }
+  if (isCombinedMatcher(matcher)) {
+    const { op, matchers } = matcher.combination;
+    return op === "not"
+      ? `not ${describeMatcher(matchers[0])}`
+      : `(${matchers
+          .map(describeMatcher)
+          .join(op === "one" ? " or " : " and ")})`;
+  }
+  return matcher.name || "matcher";
+};
+
+// evaluate a matcher and explain the outcome like `explainCondition`
+// the matchers combined by `one` and `all` are called in order until the
+// outcome is decided, exactly like running the combined matcher, so later
+// ones are left out of the explanation. Conditions are always fully explained.
+// `passed` is the outcome of the matcher, runners explaining matchers use it
+// instead of calling the matcher a second time
+const explainMatcher = (
+  matcher: Matcher,
+  facts?: any,
+  value?: any
+): ConditionExplanation => {
+  if (isCondition(matcher)) {
+    return explainCondition(matcher, facts, value);
+  }
+  const description = describeMatcher(matcher);
+  if (!isCombinedMatcher(matcher)) {
+    return { description, passed: Boolean(matcher(facts, value)) };
+  }
+  const { op, matchers } = matcher.combination;
+  if (op === "not") {
+    const child = explainMatcher(matchers[0], facts, value);
+    return { description, passed: !child.passed, children: [child] };
+  }
+  // `one` is decided by the first matcher which passed, `all` by the first
+  // one which failed
+  const children: ConditionExplanation[] = [];
+  matchers.every((current) => {
+    const child = explainMatcher(current, facts, value);
+    children.push(child);
+    return op === "one" ? !child.passed : child.passed;
+  });
+  return {
+    description,
+    passed:
+      op === "one"
+        ? children.some((child) => child.passed)
+        : children.every((child) => child.passed),
+    children,
+  };
+};
+
+export { combineMatchers, describeMatcher, explainMatcher, isCombinedMatcher };
+export type { CombinedMatcher, MatcherCombination, MatcherFailure };
@@ -0,0 +1,224 @@
+import type { HookContext } from "./index";
+import {
+  always,
+  applyAll,
+  applyFirst,
+  applyIf,
+  describeRule,
+  detailedRun,
+  injectFacts,
+  RuleError,
+  run,
+  transformOutput,
+  withHooks,
+} from "./index";
+
+const add = (value: string) => (facts: unknown, list: string[]) =>
+  [...list, value];
+const isCountry = (country: string) => (facts: { country: string }) =>
+  facts.country === country;
+
+const rule = applyAll([
+  applyIf(isCountry("DE"), { matcher: always, action: add("de") }),
+  describeRule(
+    { id: "beta", tags: ["beta"] },
+    { matcher: always, action: add("beta") }
+  ),
+  injectFacts(
+    (facts: { country: string }) => ({ ...facts, country: "AT" }),
+    transformOutput((list: string[]) => [...list, "!"], {
+      matcher: isCountry("AT"),
+      action: add("at"),
+    })
+  ),
+]);
+
+describe("withHooks", () => {
+  test("runs rules like run and detailedRun without hooks", () => {
+    const hooked = withHooks({});
+    const facts = { country: "DE" };
+    expect(hooked.run(rule, facts, [])).toEqual(run(rule, facts, []));
+    expect(hooked.detailedRun(rule)(facts)([])).toEqual(
+      detailedRun(rule, facts, [])
+    );
+  });
+
+  test("calls the hooks for every rule with its path, facts and value", () => {
+    const calls: string[] = [];
+    const label = (name: string, { rule: current, path }: HookContext) =>
+      `${name} ${current.type || "plain"} [${path}]`;
+    const { run: hookedRun } = withHooks({
+      beforeRule: (context) => {
+        calls.push(label("before", context));
+      },
+      afterMatcher: (context) => {
+        calls.push(`${label("matcher", context)} ${context.passed}`);
+      },
+      afterAction: (context) => {
+        calls.push(`${label("action", context)} ${context.result.value}`);
+      },
+      afterRule: (context) => {
+        calls.push(label("after", context));
+      },
+    });
+    hookedRun(rule, { country: "FR" }, []);
+    expect(calls).toEqual([
+      "before all []",
+      "before if [0]",
+      "matcher if [0] false",
+      "after if [0]",
+      "before plain [1]",
+      "matcher plain [1] true",
+      "action plain [1] beta",
+      "after plain [1]",
+      "before injected [2]",
+      "before transformed [2,0]",
+      "before plain [2,0,0]",
+      "matcher plain [2,0,0] true",
+      "action plain [2,0,0] beta,at",
+      "after plain [2,0,0]",
+      "after transformed [2,0]",
+      "after injected [2]",
+      "after all []",
+    ]);
+  });
+
+  test("passes the facts the rule receives", () => {
+    const facts: string[] = [];
+    const { run: hookedRun } = withHooks({
+      beforeRule: (context) => {
+        facts.push(context.facts.country);
+      },
+    });
+    hookedRun(rule, { country: "DE" }, []);
+    expect(facts).toEqual(["DE", "DE", "DE", "DE", "DE", "AT", "AT"]);
+  });
+
+  test("beforeRule can skip rules", () => {
+    const { run: hookedRun } = withHooks({
+      beforeRule: ({ rule: current, value }) =>
+        current.tags?.includes("beta")
+          ? { foundMatch: false, value }
+          : undefined,
+    });
+    expect(hookedRun(rule, { country: "DE" }, [])).toEqual([
+      null,
+      ["de", "at", "!"],
+    ]);
+  });
+
+  test("afterMatcher can change whether a matcher passed", () => {
+    const { run: hookedRun } = withHooks({
+      afterMatcher: ({ path }) => (path.join() === "0" ? true : undefined),
+    });
+    expect(hookedRun(rule, { country: "FR" }, [])).toEqual([
+      null,
+      ["de", "beta", "at", "!"],
+    ]);
+  });
+
+  test("afterAction and afterRule can replace results", () => {
+    const { detailedRun: hookedRun } = withHooks({
+      afterAction: ({ result }) => ({
+        ...result,
+        value: result.value.map((item: string) => item.toUpperCase()),
+      }),
+      afterRule: ({ path, result }) =>
+        path.length === 0 ? { ...result, foundMatch: false } : undefined,
+    });
+    expect(hookedRun(rule, { country: "FR" }, [])).toEqual([
+      null,
+      { foundMatch: false, value: ["BETA", "AT", "!"] },
+    ]);
+  });
+
+  test("onError is called once for the rule which threw", () => {
+    const errors: RuleError[] = [];
+    const failing = applyFirst([
+      {
+        matcher: () => {
+          throw new Error("BOOM!");
+        },
+        action: add("never"),
+      },
+    ]);
+    const { run: hookedRun } = withHooks({
+      onError: ({ error }) => {
+        errors.push(error);
+      },
+    });
+    const [err] = hookedRun(failing, null, []);
+    expect(err).toBeInstanceOf(RuleError);
+    expect(errors).toEqual([err]);
+    expect(errors[0].path).toEqual([0]);
+  });
+
+  test("onError can recover from errors", () => {
+    const failing = applyAll([
+      {
+        matcher: always,
+        action: (): string[] => {
+          throw new Error("BOOM!");
+        },
+      },
+      { matcher: always, action: add("after") },
+    ]);
+    const { run: hookedRun } = withHooks({
+      onError: ({ value }) => ({ foundMatch: false, value: [...value, "x"] }),
+    });
+    expect(hookedRun(failing, null, [])).toEqual([null, ["x", "after"]]);
+  });
+
+  test("errors of hooks are returned like errors of rules", () => {
+    const { run: hookedRun } = withHooks({
+      afterRule: ({ path }) => {
+        if (path.length === 1) {
+          throw new Error("hook failed");
+        }
+      },
+    });
+    const [err] = hookedRun(rule, { country: "DE" }, []);
+    expect(err?.message).toBe('rule "if" at [0] failed: hook failed');
+  });
+
+  test("calls several hooks in order", () => {
+    const calls: string[] = [];
+    const { run: hookedRun } = withHooks([
+      {
+        beforeRule: () => {
+          calls.push("first");
+        },
+        afterAction: ({ result }) => ({ ...result, value: ["first"] }),
+      },
+      {
+        beforeRule: ({ value }) => {
+          calls.push("second");
+          return { foundMatch: true, value: [...value, "skipped"] };
+        },
+        afterAction: () => {
+          calls.push("never");
+        },
+      },
+      {
+        beforeRule: () => {
+          calls.push("never");
+        },
+      },
+    ]);
+    expect(hookedRun(rule, { country: "DE" }, [])).toEqual([null, ["skipped"]]);
+    expect(calls).toEqual(["first", "second"]);
+  });
+
+  test("tracedRun records the replaced results", () => {
+    const { tracedRun } = withHooks({
+      beforeRule: ({ path, value }) =>
+        path.join() === "1" ? { foundMatch: false, value } : undefined,
+    });
+    const [, result] = tracedRun(rule, { country: "DE" }, []);
+    expect(result?.trace.children[1]).toMatchObject({
+      foundMatch: false,
+      children: [],
+    });
+    expect(result?.value).toEqual(["de", "at", "!"]);
+  });
+});
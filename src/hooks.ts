@@ -0,0 +1,125 @@
+import type { RuleError } from "./errors";
+import { runFromRoot, runWithTrace } from "./run";
+import type { RulePath } from "./tree";
+import type { Rule, RuleResult, Runner, RunOptions } from "./types";
+import curryToArity from "./util";
+
+/* HOOKS
+ * Plug logging, metrics or feature flags into running rules without wrapping
+ * every rule by hand. Hooks are called for every rule of the tree that is
+ * run. They can just observe or return a replacement to short-circuit, e.g.
+ * skip a rule behind a disabled feature flag.
+ */
+
+// what every hook receives: the rule, its position in the tree (see
+// `ruleAtPath`), the facts it receives and the incoming value
+type HookContext = {
+  rule: Rule;
+  path: RulePath;
+  facts: any;
+  value: any;
+};
+
+// all hooks are optional, returning nothing only observes
+//  - beforeRule: before a rule runs, a returned result is used instead of
+//      running the rule
+//  - afterMatcher: after the matcher of plain and "if" rules, a returned
+//      boolean replaces whether it passed
+//  - afterAction: after the action of plain rules, a returned result replaces
+//      the result of the rule
+//  - afterRule: after a rule ran, a returned result replaces its result
+//  - onError: when a rule throws, only called for the rule which threw, a
+//      returned result is used instead of the error
+type RunHooks = {
+  beforeRule?: (context: HookContext) => RuleResult | void;
+  afterMatcher?: (context: HookContext & { passed: boolean }) => boolean | void;
+  afterAction?: (
+    context: HookContext & { result: RuleResult }
+  ) => RuleResult | void;
+  afterRule?: (
+    context: HookContext & { result: RuleResult }
+  ) => RuleResult | void;
+  onError?: (context: HookContext & { error: RuleError }) => RuleResult | void;
+};
+
+type HookedRunners = {
+  run: Runner<"value">;
+  detailedRun: Runner<"detailed">;
+  tracedRun: Runner<"traced">;
+};
+
+// combine several hooks into one, they are called in order
+// `beforeRule` and `onError` stop at the first hook returning a result, the
+// other hooks receive the replacement returned by the hook before them
+const combineHooks = (hooksList: RunHooks[]): RunHooks => ({
+  beforeRule: (context) =>
+    hooksList.reduce<RuleResult | void>(
+      (result, hooks) => result || hooks.beforeRule?.(context),
+      undefined
+    ),
+  afterMatcher: (context) =>
+    hooksList.reduce((passed, hooks) => {
+      const replacement = hooks.afterMatcher?.({ ...context, passed });
+      return typeof replacement === "boolean" ? replacement : passed;
+    }, context.passed),
+  afterAction: (context) =>
+    hooksList.reduce(
+      (result, hooks) => hooks.afterAction?.({ ...context, result }) || result,
+      context.result
+    ),
+  afterRule: (context) =>
+    hooksList.reduce(
+      (result, hooks) => hooks.afterRule?.({ ...context, result }) || result,
+      context.result
+    ),
+  onError: (context) =>
+    hooksList.reduce<RuleResult | void>(
+      (result, hooks) => result || hooks.onError?.(context),
+      undefined
+    ),
+});
+
+// create `run`, `detailedRun` and `tracedRun` which call the hooks for every
+// rule they run, several hooks can be passed as a list
+// example:
+//   const { run } = withHooks({
+//     beforeRule: ({ rule, value }) =>
+//       rule.tags?.includes("beta") && !flags.beta
+//         ? { foundMatch: false, value }
+//         : undefined,
+//     onError: ({ error }) => logger.error(error),
+//   });
+const withHooks = (hooks: RunHooks | RunHooks[]): HookedRunners => {
+  const combined = Array.isArray(hooks) ? combineHooks(hooks) : hooks;
+  const detailedRun: Runner<"detailed"> = curryToArity(
+    (rule: Rule, facts: object, initialValue: any, options?: RunOptions) =>
+      runFromRoot(rule, facts, initialValue, combined, options),
+    3
+  );
+  return {
+    run: curryToArity(
+      (rule: Rule, facts: object, initialValue: any, options?: RunOptions) => {
+        const [err, result] = detailedRun(rule, facts, initialValue, options);
+        return result ? [null, result.value] : [err, null];
+      },
+      3
+    ),
+    detailedRun,
+    tracedRun: curryToArity(
+      (rule: Rule, facts: object, initialValue: any, options?: RunOptions) => {
+        const [err, result, trace] = runWithTrace(
+          rule,
+          facts,
+          initialValue,
+          combined,
+          options
+        );
+        return result ? [null, { ...result, trace }] : [err, null];
+      },
+      3
+    ),
+  };
+};
+
+export { withHooks };
+export type { HookContext, HookedRunners, RunHooks };
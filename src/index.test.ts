@@ -1,16 +1,29 @@
+import type { Rule } from "./index";
 import {
   all,
   always,
   applyAll,
+  applyAllByPriority,
   applyChain,
   applyFirst,
+  applyFirstByPriority,
   applyIf,
+  applyRepeatedly,
+  applyToEach,
+  collectAll,
+  concatOutputs,
+  describeRule,
   detailedRun,
+  experiment,
   injectFacts,
+  mergeOutputs,
   not,
   one,
+  rollout,
   run,
+  tracedRun,
   transformOutput,
+  uniqueOutputsBy,
 } from "./index";
 
 const passMatcher = () => true;
@@ -125,8 +138,8 @@ describe("applyAll", () => {
 
   test("matchers get access to current value", () => {
     const incrementRule = {
-      matcher: (facts: object, number: any) => number === 2,
-      action: (facts: object, number: any) => number + 1,
+      matcher: (facts: unknown, number: any) => number === 2,
+      action: (facts: unknown, number: any) => number + 1,
     };
     const [, result] = run(
       applyAll([incrementRule, incrementRule, incrementRule])
@@ -171,6 +184,457 @@ describe("applyFirst", () => {
   });
 });
 
+describe("applyFirstByPriority", () => {
+  const add = (value: string) => (facts: unknown, list: string[]) =>
+    [...list, value];
+
+  test("runs the matching rule with the highest priority", () => {
+    const rule = applyFirstByPriority([
+      { priority: 1, rule: { matcher: passMatcher, action: add("low") } },
+      { priority: 10, rule: { matcher: failMatcher, action: add("miss") } },
+      { priority: 5, rule: { matcher: passMatcher, action: add("high") } },
+    ]);
+    expect(detailedRun(rule, null, [])).toEqual([
+      null,
+      { foundMatch: true, value: ["high"] },
+    ]);
+  });
+
+  test("tries rules with the same priority in order", () => {
+    const rule = applyFirstByPriority([
+      { priority: 1, rule: { matcher: passMatcher, action: add("first") } },
+      { priority: 1, rule: { matcher: passMatcher, action: add("second") } },
+    ]);
+    expect(run(rule, null, [])).toEqual([null, ["first"]]);
+  });
+
+  test("computes priorities from the facts", () => {
+    const rule = applyFirstByPriority([
+      { priority: 5, rule: { matcher: passMatcher, action: add("fixed") } },
+      {
+        priority: (facts: { score: number }) => facts.score,
+        rule: { matcher: passMatcher, action: add("computed") },
+      },
+    ]);
+    expect(run(rule, { score: 10 }, [])).toEqual([null, ["computed"]]);
+    expect(run(rule, { score: 1 }, [])).toEqual([null, ["fixed"]]);
+  });
+
+  test("returns the initial value if no rule matches", () => {
+    const rule = applyFirstByPriority([
+      { priority: 1, rule: { matcher: failMatcher, action: add("miss") } },
+    ]);
+    expect(detailedRun(rule, null, ["initial"])).toEqual([
+      null,
+      { foundMatch: false, value: ["initial"] },
+    ]);
+  });
+
+  test("returns an error for priorities which aren't numbers", () => {
+    const rule = applyFirstByPriority([
+      { priority: 1, rule: { matcher: passMatcher, action: add("a") } },
+      {
+        priority: (() => undefined) as any,
+        rule: { matcher: passMatcher, action: add("b") },
+      },
+    ]);
+    const [err] = run(rule, null, []);
+    expect(err?.message).toBe(
+      'rule "prioritized" at [] failed: priority of the rule at index 1 must be a number, got undefined'
+    );
+  });
+});
+
+describe("applyAllByPriority", () => {
+  test("runs all matching rules, highest priority first", () => {
+    const add = (value: string) => (facts: unknown, list: string[]) =>
+      [...list, value];
+    const rule = applyAllByPriority([
+      { priority: 1, rule: { matcher: passMatcher, action: add("low") } },
+      { priority: 10, rule: { matcher: failMatcher, action: add("miss") } },
+      { priority: 5, rule: { matcher: passMatcher, action: add("high") } },
+      { priority: 1, rule: { matcher: passMatcher, action: add("low 2") } },
+    ]);
+    expect(detailedRun(rule, null, [])).toEqual([
+      null,
+      { foundMatch: true, value: ["high", "low", "low 2"] },
+    ]);
+  });
+});
+
+describe("rollout", () => {
+  const ids = Array.from({ length: 1000 }, (_, index) => `user-${index}`);
+  const rule = rollout(
+    30,
+    { key: "facts.user.id", salt: "new-checkout" },
+    { matcher: passMatcher, action: () => "new" }
+  );
+
+  test("runs the rule for a stable share of the keys", () => {
+    const values = ids.map((id) => run(rule, { user: { id } }, "old")[1]);
+    const share = values.filter((value) => value === "new").length;
+    expect(share).toBeGreaterThan(250);
+    expect(share).toBeLessThan(350);
+    expect(ids.map((id) => run(rule, { user: { id } }, "old")[1])).toEqual(
+      values
+    );
+  });
+
+  test("doesn't match without a key", () => {
+    expect(detailedRun(rule, { user: {} }, "old")).toEqual([
+      null,
+      { foundMatch: false, value: "old" },
+    ]);
+  });
+});
+
+describe("experiment", () => {
+  const ids = Array.from({ length: 1000 }, (_, index) => `user-${index}`);
+  const variant = (name: string, weight?: number) => ({
+    name,
+    weight,
+    rule: { matcher: passMatcher, action: () => name },
+  });
+  const rule = experiment("checkout", {
+    key: "facts.user.id",
+    variants: [variant("control", 3), variant("one-page"), variant("off", 0)],
+  });
+
+  test("runs the variant a key is assigned to and reports it", () => {
+    const results = ids.map((id) => detailedRun(rule, { user: { id } }, ""));
+    const counts = results.reduce<Record<string, number>>(
+      (current, [, result]) => ({
+        ...current,
+        [result!.value]: (current[result!.value] || 0) + 1,
+      }),
+      {}
+    );
+    expect(Object.keys(counts).sort()).toEqual(["control", "one-page"]);
+    expect(counts.control).toBeGreaterThan(700);
+    expect(counts.control).toBeLessThan(800);
+    results.forEach(([, result]) =>
+      expect(result).toEqual({
+        foundMatch: true,
+        value: result!.value,
+        variants: { checkout: result!.value },
+      })
+    );
+    expect(ids.map((id) => run(rule, { user: { id } }, "")[1])).toEqual(
+      results.map(([, result]) => result!.value)
+    );
+  });
+
+  test("assigns other variants with another salt", () => {
+    const salted = experiment("checkout", {
+      key: "facts.user.id",
+      salt: "checkout-2",
+      variants: [variant("control"), variant("one-page")],
+    });
+    const unsalted = experiment("checkout", {
+      key: "facts.user.id",
+      variants: [variant("control"), variant("one-page")],
+    });
+    const variants = (current: Rule) =>
+      ids.map((id) => run(current, { user: { id } }, "")[1]);
+    expect(variants(salted)).not.toEqual(variants(unsalted));
+  });
+
+  test("runs nothing without a key", () => {
+    expect(detailedRun(rule, { user: {} }, "initial")).toEqual([
+      null,
+      { foundMatch: false, value: "initial" },
+    ]);
+  });
+
+  test("reports the variants of all experiments which ran", () => {
+    const other = experiment("search", {
+      key: "facts.user.id",
+      variants: [variant("classic", 0), variant("fuzzy")],
+    });
+    const [, result] = detailedRun(
+      applyAll([rule, other]),
+      { user: { id: "user-1" } },
+      ""
+    );
+    expect(result?.variants).toEqual({
+      checkout: expect.any(String),
+      search: "fuzzy",
+    });
+  });
+
+  test("throws for invalid keys and weights", () => {
+    expect(() =>
+      experiment("checkout", {
+        key: "user.id",
+        variants: [variant("control", 1)],
+      })
+    ).toThrow(
+      'key must be a path starting with "facts" or "value", got "user.id"'
+    );
+    expect(() =>
+      experiment("checkout", {
+        key: "facts.user.id",
+        variants: [variant("control", 1), variant("off", NaN)],
+      })
+    ).toThrow(
+      "weight of the variant at index 1 must be a number >= 0, got NaN"
+    );
+    expect(() =>
+      experiment("checkout", {
+        key: "facts.user.id",
+        variants: [variant("control", 0), variant("off", 0)],
+      })
+    ).toThrow("weights of the variants must add up to more than 0");
+  });
+
+  test("returns an error for invalid weights of rules created by hand", () => {
+    const invalid = {
+      ...experiment("checkout", {
+        key: "facts.user.id",
+        variants: [variant("control", 1), variant("off", 1)],
+      }),
+      weights: [-1, 1],
+    };
+    const [err] = run(invalid, { user: { id: "user-1" } }, "");
+    expect(err?.message).toBe(
+      'rule "experiment" at [] failed: weight of the variant at index 0 must be a number >= 0, got -1'
+    );
+  });
+});
+
+describe("collectAll", () => {
+  type Badge = { id: string; label: string };
+  const badge = (name: string, matches: boolean, badges: Badge[]) =>
+    describeRule(
+      { name },
+      {
+        matcher: () => matches,
+        action: (facts: unknown, value: Badge[]) => [...value, ...badges],
+      }
+    );
+  const sale = { id: "sale", label: "Sale" };
+  const fresh = { id: "new", label: "New" };
+  const rules = [
+    badge("sale", true, [sale]),
+    badge("never", false, [fresh]),
+    badge("new", true, [fresh, sale]),
+  ];
+
+  test("runs every rule on the incoming value and collects the outputs", () => {
+    expect(detailedRun(collectAll(rules), {}, [])).toEqual([
+      null,
+      {
+        foundMatch: true,
+        value: [
+          { index: 0, name: "sale", value: [sale] },
+          { index: 2, name: "new", value: [fresh, sale] },
+        ],
+      },
+    ]);
+  });
+
+  test("doesn't match and keeps the value when no rule matches", () => {
+    expect(detailedRun(collectAll([rules[1]]), {}, [])).toEqual([
+      null,
+      { foundMatch: false, value: [] },
+    ]);
+    expect(detailedRun(collectAll([], concatOutputs), {}, [])).toEqual([
+      null,
+      { foundMatch: false, value: [] },
+    ]);
+  });
+
+  test("combines the outputs with a reducer", () => {
+    expect(run(collectAll(rules, concatOutputs), {}, [])).toEqual([
+      null,
+      [sale, fresh, sale],
+    ]);
+    expect(run(collectAll(rules, uniqueOutputsBy("id")), {}, [])).toEqual([
+      null,
+      [sale, fresh],
+    ]);
+    expect(
+      run(
+        collectAll(
+          rules,
+          uniqueOutputsBy((item: Badge) => item.label.length)
+        ),
+        {},
+        []
+      )
+    ).toEqual([null, [sale, fresh]]);
+    const flags = collectAll(
+      [
+        { matcher: passMatcher, action: () => ({ sale: true, new: false }) },
+        { matcher: passMatcher, action: () => ({ new: true }) },
+      ],
+      mergeOutputs
+    );
+    expect(run(flags, {}, {})).toEqual([null, { sale: true, new: true }]);
+  });
+
+  test("passes the incoming value to the reducer", () => {
+    const count = collectAll(rules, (outputs, value: Badge[]) => [
+      ...value,
+      { id: "count", label: String(outputs.length) },
+    ]);
+    expect(run(count, {}, [sale])).toEqual([
+      null,
+      [sale, { id: "count", label: "2" }],
+    ]);
+  });
+});
+
+describe("applyToEach", () => {
+  type Item = { sku: string; price: number };
+  const items = [
+    { sku: "a", price: 10 },
+    { sku: "b", price: 20 },
+  ];
+  const discount = {
+    matcher: (facts: { sale: string[] }, item: Item) =>
+      facts.sale.includes(item.sku),
+    action: (facts: unknown, item: Item) => ({
+      ...item,
+      price: item.price / 2,
+    }),
+  };
+
+  test("runs the rule for every item of the list", () => {
+    expect(detailedRun(applyToEach(discount), { sale: ["b"] }, items)).toEqual([
+      null,
+      {
+        foundMatch: true,
+        value: [
+          { sku: "a", price: 10 },
+          { sku: "b", price: 10 },
+        ],
+      },
+    ]);
+  });
+
+  test("passes the facts returned by the mapper for every item", () => {
+    const mapper = (
+      facts: { sale: string[][] },
+      item: Item,
+      index: number
+    ) => ({
+      sale: facts.sale[index],
+    });
+    expect(
+      run(applyToEach(discount, mapper), { sale: [["a"], ["a"]] }, items)
+    ).toEqual([
+      null,
+      [
+        { sku: "a", price: 5 },
+        { sku: "b", price: 20 },
+      ],
+    ]);
+  });
+
+  test("doesn't match and keeps the value when no item matches", () => {
+    expect(detailedRun(applyToEach(discount), { sale: [] }, items)).toEqual([
+      null,
+      { foundMatch: false, value: items },
+    ]);
+    expect(detailedRun(applyToEach(discount), { sale: [] }, [])).toEqual([
+      null,
+      { foundMatch: false, value: [] },
+    ]);
+  });
+
+  test("fails when the value isn't a list", () => {
+    const [err] = run(applyToEach(discount), { sale: [] }, {} as any);
+    expect(err?.message).toBe(
+      'rule "each" at [] failed: expected the value to be a list, got object'
+    );
+  });
+
+  test("traces every item as a run of the child rule", () => {
+    const [, result] = tracedRun(applyToEach(discount), { sale: ["a"] }, items);
+    expect(result?.trace.order).toEqual([0, 0]);
+    expect(
+      result?.trace.children.map((child) => [
+        child.valueBefore,
+        child.foundMatch,
+      ])
+    ).toEqual([
+      [items[0], true],
+      [items[1], false],
+    ]);
+  });
+});
+
+describe("applyRepeatedly", () => {
+  const halve = {
+    matcher: (facts: { min: number }, value: number) => value / 2 >= facts.min,
+    action: (facts: unknown, value: number) => value / 2,
+  };
+
+  test("runs the rule on its own output as long as it matches", () => {
+    expect(detailedRun(applyRepeatedly(5, halve), { min: 5 }, 40)).toEqual([
+      null,
+      { foundMatch: true, value: 5 },
+    ]);
+    expect(detailedRun(applyRepeatedly(5, halve), { min: 5 }, 8)).toEqual([
+      null,
+      { foundMatch: false, value: 8 },
+    ]);
+  });
+
+  test("fails when the rule still matches after the maximum iterations", () => {
+    expect(run(applyRepeatedly(3, halve), { min: 5 }, 40)).toEqual([null, 5]);
+    const [err] = run(applyRepeatedly(2, halve), { min: 5 }, 40);
+    expect(err?.message).toBe(
+      'rule "repeat" at [] failed: rule still matched after 2 iterations'
+    );
+  });
+
+  test("never runs the action more than the maximum iterations", () => {
+    let calls = 0;
+    const counted = {
+      matcher: halve.matcher,
+      action: (facts: unknown, value: number) => {
+        calls += 1;
+        return value / 2;
+      },
+    };
+    const [err] = run(applyRepeatedly(2, counted), { min: 5 }, 40);
+    expect(err?.message).toBe(
+      'rule "repeat" at [] failed: rule still matched after 2 iterations'
+    );
+    expect(calls).toBe(2);
+    calls = 0;
+    expect(run(applyRepeatedly(3, counted), { min: 5 }, 40)).toEqual([null, 5]);
+    expect(calls).toBe(3);
+  });
+
+  test("stops when combined rules don't match anymore", () => {
+    const rule = applyRepeatedly(
+      5,
+      applyFirst([applyChain([halve]), applyAll([halve])])
+    );
+    expect(run(rule, { min: 5 }, 40)).toEqual([null, 5]);
+    expect(run(applyRepeatedly(2, rule.rule), { min: 5 }, 40)[0]?.message).toBe(
+      'rule "repeat" at [] failed: rule still matched after 2 iterations'
+    );
+  });
+
+  test("traces every iteration", () => {
+    const [, result] = tracedRun(applyRepeatedly(5, halve), { min: 5 }, 20);
+    expect(result?.trace.order).toEqual([0, 0, 0]);
+    expect(result?.trace.children.map((child) => child.valueAfter)).toEqual([
+      10, 5, 5,
+    ]);
+  });
+
+  test("throws for invalid maximum iterations", () => {
+    expect(() => applyRepeatedly(0, halve)).toThrow(
+      "maxIterations must be a whole number of at least 1, got 0"
+    );
+  });
+});
+
 describe("applyChain", () => {
   const isTwo = (facts: any) => facts.number === 2;
   const matchingRule = {
@@ -210,7 +674,7 @@ describe("applyChain", () => {
 describe("nested Rules", () => {
   const makeRule = (pass: boolean, value: any) => ({
     matcher: () => pass,
-    action: (facts: object, list: any[]) => list.concat(value),
+    action: (facts: unknown, list: any[]) => list.concat(value),
   });
 
   test("all-rules inside first-rules work when last in all-rule is passing", () => {
@@ -247,7 +711,7 @@ describe("nested Rules", () => {
 describe("transformOutput", () => {
   const makeRule = (pass: boolean, value: any) => ({
     matcher: () => pass,
-    action: (facts: object, list: any[]) => list.concat(value),
+    action: (facts: unknown, list: any) => list.concat(value),
   });
 
   test("transforms output if rule matcher matches", () => {
@@ -290,7 +754,7 @@ describe("transformOutput", () => {
 describe("applyIf", () => {
   const makeRule = (pass: boolean, value: any) => ({
     matcher: () => pass,
-    action: (facts: object, list: any[]) => list.concat(value),
+    action: (facts: unknown, list: any) => list.concat(value),
   });
 
   test("runs rule only if outer matcher matches", () => {
@@ -327,28 +791,22 @@ describe("applyIf", () => {
 describe("detailedRun", () => {
   const makeRule = (pass: boolean, value: any) => ({
     matcher: () => pass,
-    action: (facts: object, list: any[]) => list.concat(value),
+    action: (facts: unknown, list: any) => list.concat(value),
   });
 
   test("if the rule does not match it returns an object with the initialValue as the value is `null` and foundMatch is `false`", () => {
     const rule = makeRule(false, "running");
     const initialValue = {};
-    const [, { value, foundMatch }] = detailedRun(applyIf(passMatcher, rule))(
-      null,
-      {}
-    );
-    expect(value).toEqual(initialValue);
-    expect(foundMatch).toEqual(false);
+    const [, result] = detailedRun(applyIf(passMatcher, rule))(null, {});
+    expect(result?.value).toEqual(initialValue);
+    expect(result?.foundMatch).toEqual(false);
   });
 
   test("if the rule matched it returns an object where the value is set and foundMatch is `true`", () => {
     const rule = makeRule(true, "running");
-    const [, { value, foundMatch }] = detailedRun(applyIf(passMatcher, rule))(
-      null,
-      "i am "
-    );
-    expect(value).toEqual("i am running");
-    expect(foundMatch).toEqual(true);
+    const [, result] = detailedRun(applyIf(passMatcher, rule))(null, "i am ");
+    expect(result?.value).toEqual("i am running");
+    expect(result?.foundMatch).toEqual(true);
   });
 
   describe("error handling", () => {
@@ -361,7 +819,7 @@ describe("detailedRun", () => {
         },
       };
       const [err, result] = detailedRun(rule)(null, "i am ");
-      expect(err).toEqual(boomError);
+      expect(err?.cause).toBe(boomError);
       expect(result).toBe(null);
     });
 
@@ -379,15 +837,148 @@ describe("detailedRun", () => {
   describe("with very deep nested rules", () => {
     const transformRule = (rule: any): any =>
       transformOutput((x: object) => x, rule);
-    const rule = Array.from({ length: 10000 }).reduce(
-      (acc: object) => transformRule(acc),
+    const rule = Array.from({ length: 10000 }).reduce<Rule>(
+      (acc) => transformRule(acc),
       makeRule(true, "x")
     );
     /** * FIX ME ** */
     test.skip("should not fail due too deep structure", () => {
-      const { value, foundMatch } = detailedRun(rule)(null, "");
-      expect(value).toEqual("x");
-      expect(foundMatch).toEqual(true);
+      const [, result] = detailedRun(rule)(null, "");
+      expect(result?.value).toEqual("x");
+      expect(result?.foundMatch).toEqual(true);
+    });
+  });
+});
+
+describe("tracedRun", () => {
+  const makeRule = (pass: boolean, value: any) => ({
+    matcher: () => pass,
+    action: (facts: unknown, list: any[]) => list.concat(value),
+  });
+  const traceOf = (rule: Rule) => {
+    const [, result] = tracedRun(rule, null, []);
+    return result!.trace;
+  };
+
+  test("returns the same value and foundMatch as detailedRun", () => {
+    const rule = applyAll([makeRule(true, 1), makeRule(false, 2)]);
+    const [, detailed] = detailedRun(rule)(null, []);
+    const [, traced] = tracedRun(rule)(null, []);
+    expect({ value: traced?.value, foundMatch: traced?.foundMatch }).toEqual(
+      detailed
+    );
+  });
+
+  test("records matcher outcome and values of plain rules", () => {
+    const trace = traceOf(makeRule(true, 1));
+    expect(trace).toEqual({
+      type: "plain",
+      matcherPassed: true,
+      foundMatch: true,
+      valueBefore: [],
+      valueAfter: [1],
+      children: [],
+    });
+  });
+
+  test("mirrors the structure of nested rules", () => {
+    const rule = applyAll([
+      injectFacts((facts: any) => facts, makeRule(true, 1)),
+      transformOutput((list: any[]) => list.concat("t"), makeRule(true, 2)),
+      applyIf(failMatcher, makeRule(true, 3)),
+    ]);
+    const trace = traceOf(rule);
+    expect(trace.type).toBe("all");
+    expect(trace.valueAfter).toEqual([1, 2, "t"]);
+    expect(trace.children.map((child: any) => child.type)).toEqual([
+      "injected",
+      "transformed",
+      "if",
+    ]);
+    const [injected, transformed, ifRule] = trace.children;
+    expect(injected.children[0].valueAfter).toEqual([1]);
+    expect(transformed.children[0].valueAfter).toEqual([1, 2]);
+    expect(transformed.valueAfter).toEqual([1, 2, "t"]);
+    expect(ifRule.matcherPassed).toBe(false);
+    expect(ifRule.foundMatch).toBe(false);
+    expect(ifRule.children).toEqual([]);
+  });
+
+  test("records which rule of applyFirst won", () => {
+    const rule = applyFirst([
+      makeRule(false, 1),
+      makeRule(true, 2),
+      makeRule(true, 3),
+    ]);
+    const trace = traceOf(rule);
+    expect(trace.matchedIndex).toBe(1);
+    expect(trace.children).toHaveLength(2);
+  });
+
+  test("does not record a winner of applyFirst when nothing matched", () => {
+    const rule = applyFirst([makeRule(false, 1)]);
+    const trace = traceOf(rule);
+    expect(trace.matchedIndex).toBeUndefined();
+  });
+
+  test("records where applyChain stopped", () => {
+    const rule = applyChain([
+      makeRule(true, 1),
+      makeRule(false, 2),
+      makeRule(true, 3),
+    ]);
+    const trace = traceOf(rule);
+    expect(trace.stoppedAt).toBe(1);
+    expect(trace.children).toHaveLength(2);
+  });
+
+  test("does not record a stop of applyChain when all rules matched", () => {
+    const rule = applyChain([makeRule(true, 1), makeRule(true, 2)]);
+    const trace = traceOf(rule);
+    expect(trace.stoppedAt).toBeUndefined();
+    expect(trace.valueAfter).toEqual([1, 2]);
+  });
+
+  test("records priorities and the order of prioritized rules", () => {
+    const rule = applyFirstByPriority([
+      { priority: 1, rule: makeRule(true, 1) },
+      { priority: 3, rule: makeRule(false, 2) },
+      { priority: 2, rule: makeRule(true, 3) },
+    ]);
+    const trace = traceOf(rule);
+    expect(trace.priorities).toEqual([1, 3, 2]);
+    expect(trace.order).toEqual([1, 2, 0]);
+    expect(trace.matchedIndex).toBe(2);
+    expect(trace.children.map((child) => child.valueAfter)).toEqual([[], [3]]);
+  });
+
+  test("records the variant of experiments", () => {
+    const rule = experiment("checkout", {
+      key: "facts.id",
+      variants: [
+        { name: "off", weight: 0, rule: makeRule(true, 1) },
+        { name: "on", rule: makeRule(true, 2) },
+      ],
     });
+    const [, result] = tracedRun(rule, { id: 42 }, []);
+    expect(result?.variants).toEqual({ checkout: "on" });
+    expect(result?.trace.variant).toBe("on");
+    expect(result?.trace.order).toEqual([1]);
+    expect(result?.trace.children.map((child) => child.valueAfter)).toEqual([
+      [2],
+    ]);
+  });
+
+  test("returns a tuple with an error as the first item when things crash", () => {
+    const boomError = new Error("BOOM!");
+    const rule = {
+      matcher: () => {
+        throw boomError;
+      },
+      action: () => "stuff",
+    };
+    const [err, result] = tracedRun(rule)(null, "");
+    expect(err?.cause).toBe(boomError);
+    expect(result).toBe(null);
   });
 });
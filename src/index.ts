@@ -1,65 +1,56 @@
-import curryToArity from "./util";
-
-type Rule<Facts = any, Result = any, Input = any> =
-  | PlainRule<Facts, Result, Input>
-  | InjectedRule<Facts, Result, Input>
-  | TransformedRule<Facts, Result, Input>
-  | FirstRule<Facts, Result, Input>
-  | AllRule<Facts, Result, Input>
-  | ChainRule<Facts, Result, Input>
-  | IfRule<Facts, Result, Input>;
-
-type Matcher<Facts = any, Input = any> = (
-  facts?: Facts,
-  input?: Input
-) => boolean;
-type Mapper<Facts = any> = (facts?: Facts) => Facts;
-type Action<Facts, Result, Input> = (facts?: Facts, input?: Input) => Result;
-type Transformer = Function;
-
-type PlainRule<Facts = any, Result = any, Input = any> = {
-  type?: "plain";
-  matcher: Matcher<Facts, Input>;
-  action: Action<Facts, Result, Input>;
-};
-
-type InjectedRule<Facts = any, Result = any, Input = any> = {
-  type: "injected";
-  mapper: Mapper<Facts>;
-  childRule: Rule<Facts, Result, Input>;
-};
-
-type TransformedRule<Facts = any, Result = any, Input = any> = {
-  type: "transformed";
-  transformer: Transformer;
-  rule: Rule<Facts, Result, Input>;
-};
-
-type IfRule<Facts = any, Result = any, Input = any> = {
-  type: "if";
-  matcher: Matcher;
-  rule: Rule<Facts, Result, Input>;
-};
-
-type AllRule<Facts = any, Result = any, Input = any> = {
-  type: "all";
-  rules: Rule<Facts, Result, Input>[];
-};
-
-type FirstRule<Facts = any, Result = any, Input = any> = {
-  type: "first";
-  rules: Rule<Facts, Result, Input>[];
-};
-
-type ChainRule<Facts = any, Result = any, Input = any> = {
-  type: "chain";
-  rules: Rule<Facts, Result, Input>[];
-};
-
-type RuleResult<Value = any> = {
-  foundMatch: boolean;
-  value: Value;
-};
+import type { Condition } from "./conditions";
+import { condition, inRollout, isCondition } from "./conditions";
+import { checkKey, checkWeights } from "./experiment";
+import { combineMatchers } from "./explain";
+import type { Clock, Schedule } from "./schedule";
+import { activeDuring } from "./schedule";
+import type { RuleSchemas } from "./schema";
+import { schemaMatcher, schemaTransformer, validateSchemas } from "./schema";
+import type {
+  AllRule,
+  AsyncAllRule,
+  AsyncChainRule,
+  AsyncCollectRule,
+  AsyncEachRule,
+  AsyncExperimentRule,
+  AsyncFirstRule,
+  AsyncGuardedRule,
+  AsyncIfRule,
+  AsyncInjectedRule,
+  AsyncItemMapper,
+  AsyncMapper,
+  AsyncMatcher,
+  AsyncPrioritizedRule,
+  AsyncPriority,
+  AsyncReducer,
+  AsyncRepeatRule,
+  AsyncRule,
+  AsyncTransformedRule,
+  AsyncTransformer,
+  ChainRule,
+  CollectedOutput,
+  CollectRule,
+  EachRule,
+  ErrorPolicy,
+  ExperimentRule,
+  FirstRule,
+  GuardedRule,
+  IfRule,
+  InjectedRule,
+  ItemMapper,
+  Mapper,
+  Matcher,
+  NotAsync,
+  PrioritizedRule,
+  Priority,
+  PriorityMode,
+  Reducer,
+  RepeatRule,
+  Rule,
+  TransformedRule,
+  Transformer,
+} from "./types";
+import { always } from "./util";
 
 /* Small library for combining matching functions in a reusable and
  * readable way
@@ -72,30 +63,80 @@ type RuleResult<Value = any> = {
  * Here are some functions to combine matching functions.
  */
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const always = (...args: any[]) => true;
+// when all of the matchers passed to `not`, `one` and `all` are conditions
+// (see ./conditions.ts) the combined matcher is a condition as well,
+// otherwise it remembers the matchers it combines, so `explainMatcher` can
+// tell which of them passed or failed
+const not: {
+  (matcher: Condition): Condition;
+  <Facts, Input>(matcher: Matcher<Facts, Input>): (
+    facts?: Facts,
+    input?: Input
+  ) => boolean;
+} = (matcher: Matcher): any =>
+  isCondition(matcher)
+    ? condition({ op: "not", condition: matcher.condition })
+    : combineMatchers(
+        "not",
+        [matcher],
+        (facts?: any, value?: any) => !matcher(facts, value)
+      );
 
-const not = (matcher: Matcher) => (facts?: any, value?: any) =>
-  !matcher(facts, value);
+const one: {
+  (matchers: Condition[]): Condition;
+  <Facts, Input>(matchers: Matcher<Facts, Input>[]): (
+    facts?: Facts,
+    input?: Input
+  ) => boolean;
+} = (matchers: Matcher[]): any =>
+  matchers.every(isCondition)
+    ? condition({
+        op: "one",
+        conditions: matchers.map((matcher) => matcher.condition),
+      })
+    : combineMatchers("one", matchers, (facts?: any, value?: any) =>
+        matchers.some((check) => check(facts, value))
+      );
 
-const one = (matchers: Matcher[]) => (facts?: any, value?: any) =>
-  matchers.some((check) => check(facts, value));
-
-const all = (matchers: Matcher[]) => (facts?: any, value?: any) =>
-  matchers.every((check) => check(facts, value));
+const all: {
+  (matchers: Condition[]): Condition;
+  <Facts, Input>(matchers: Matcher<Facts, Input>[]): (
+    facts?: Facts,
+    input?: Input
+  ) => boolean;
+} = (matchers: Matcher[]): any =>
+  matchers.every(isCondition)
+    ? condition({
+        op: "all",
+        conditions: matchers.map((matcher) => matcher.condition),
+      })
+    : combineMatchers("all", matchers, (facts?: any, value?: any) =>
+        matchers.every((check) => check(facts, value))
+      );
 
 /* COMBINING AND ENHANCING RULES
  * are basically objects with matcher and an action. The action is only applied
  * when the matcher matches. The actions receive some facts data and a current
  * value and return new value which is passed on.
+ * When combining async rules, the combined rule is an async rule as well.
  */
 
 // allows to locally modify the facts object
 // facts should be copied and NOT mutated to prevent side effects and mutability
 // changes will not leak outside of the current rule
+// the mapper may change the type of the facts the contained rule receives
 // example:
 //   injectFacts(oldFacts => ({ ...oldFacts, newProp: '42' }), rule)
-const injectFacts = (mapper: Mapper, rule: Rule): InjectedRule => ({
+const injectFacts: {
+  <Facts, ChildFacts, Result, Input>(
+    mapper: Mapper<Facts, ChildFacts> & NotAsync<ChildFacts>,
+    rule: Rule<ChildFacts, Result, Input> & NotAsync<Result>
+  ): InjectedRule<Facts, Result, Input, ChildFacts>;
+  <Facts, ChildFacts, Result, Input>(
+    mapper: AsyncMapper<Facts, ChildFacts>,
+    rule: AsyncRule<ChildFacts, Result, Input>
+  ): AsyncInjectedRule<Facts, Result, Input, ChildFacts>;
+} = (mapper: AsyncMapper, rule: AsyncRule): any => ({
   type: "injected",
   mapper,
   childRule: rule,
@@ -103,9 +144,19 @@ const injectFacts = (mapper: Mapper, rule: Rule): InjectedRule => ({
 
 // apply a function to the return value of the rule's action, but only if
 // the matcher matches.
+// the function may change the type of the value
 // example:
 //   transformOutput((value) => value + 42, rule)
-const transformOutput = (fn: Transformer, rule: Rule): TransformedRule => ({
+const transformOutput: {
+  <Facts, ChildResult, Result, Input>(
+    fn: Transformer<ChildResult, Result> & NotAsync<Result>,
+    rule: Rule<Facts, ChildResult, Input> & NotAsync<ChildResult>
+  ): TransformedRule<Facts, Result, Input, ChildResult>;
+  <Facts, ChildResult, Result, Input>(
+    fn: AsyncTransformer<ChildResult, Result>,
+    rule: AsyncRule<Facts, ChildResult, Input>
+  ): AsyncTransformedRule<Facts, Result, Input, ChildResult>;
+} = (fn: AsyncTransformer, rule: AsyncRule): any => ({
   type: "transformed",
   transformer: fn,
   rule,
@@ -113,7 +164,16 @@ const transformOutput = (fn: Transformer, rule: Rule): TransformedRule => ({
 
 // combine a list of rules into a new rule where, once executed, all rules with
 // passing matcher are run in order
-const applyIf = (matcher: Matcher, rule: Rule): IfRule => ({
+const applyIf: {
+  <Facts, Result, Input>(
+    matcher: Matcher<Facts, Input>,
+    rule: Rule<Facts, Result, Input> & NotAsync<Result>
+  ): IfRule<Facts, Result, Input>;
+  <Facts, Result, Input>(
+    matcher: AsyncMatcher<Facts, Input>,
+    rule: AsyncRule<Facts, Result, Input>
+  ): AsyncIfRule<Facts, Result, Input>;
+} = (matcher: AsyncMatcher, rule: AsyncRule): any => ({
   type: "if",
   matcher,
   rule,
@@ -121,138 +181,422 @@ const applyIf = (matcher: Matcher, rule: Rule): IfRule => ({
 
 // combine a list of rules into a new rule where, once executed, all rules with
 // passing matcher are run in order
-const applyAll = (rules: Rule[]): AllRule => ({
+const applyAll: {
+  <Facts, Value>(rules: Rule<Facts, Value, Value>[] & NotAsync<Value>): AllRule<
+    Facts,
+    Value,
+    Value
+  >;
+  <Facts, Value>(rules: AsyncRule<Facts, Value, Value>[]): AsyncAllRule<
+    Facts,
+    Value,
+    Value
+  >;
+} = (rules: AsyncRule[]): any => ({
   type: "all",
   rules,
 });
 
 // combine a list of rules into a new rule where, once executed, rules are run
 // in order until the first matcher matches
-const applyFirst = (rules: Rule[]): FirstRule => ({
+const applyFirst: {
+  <Facts, Value>(
+    rules: Rule<Facts, Value, Value>[] & NotAsync<Value>
+  ): FirstRule<Facts, Value, Value>;
+  <Facts, Value>(rules: AsyncRule<Facts, Value, Value>[]): AsyncFirstRule<
+    Facts,
+    Value,
+    Value
+  >;
+} = (rules: AsyncRule[]): any => ({
   type: "first",
   rules,
 });
 
 // combine a list of rules into a new rule, where rules are executed as long
 // as the previous rule matched
-const applyChain = (rules: Rule[]): ChainRule => ({
+const applyChain: {
+  <Facts, Value>(
+    rules: Rule<Facts, Value, Value>[] & NotAsync<Value>
+  ): ChainRule<Facts, Value, Value>;
+  <Facts, Value>(rules: AsyncRule<Facts, Value, Value>[]): AsyncChainRule<
+    Facts,
+    Value,
+    Value
+  >;
+} = (rules: AsyncRule[]): any => ({
   type: "chain",
   rules,
 });
 
-/* RUNNING RULES
- * Once you have a rule it can be run with the `run()` function
- *
- */
+const prioritized =
+  (mode: PriorityMode) =>
+  (rules: { priority: AsyncPriority; rule: AsyncRule }[]): any => ({
+    type: "prioritized",
+    mode,
+    priorities: rules.map((entry) => entry.priority),
+    rules: rules.map((entry) => entry.rule),
+  });
 
-// like run() but keeps track of whether a matcher of a rule passed
-// so we can stop execution early when using "firstMatch" rules
-// for "injected" or "transformed" rules: they count as matched when the contained rule matches
-// for "all" or "first" rules: at least one matcher needs to have matched
-// for simple rules the matcher needs to have matched
-const runHelp = (rule: Rule, facts: object, state: RuleResult): RuleResult => {
-  switch (rule.type) {
-    case "injected":
-      return runHelp(rule.childRule, rule.mapper(facts), state);
-    case "transformed": {
-      const { foundMatch, value } = runHelp(rule.rule, facts, state);
-      return {
-        foundMatch,
-        value: foundMatch ? rule.transformer(value) : value,
-      };
-    }
-    case "if": {
-      const subRule = rule.rule;
-      return rule.matcher(facts, state.value)
-        ? runHelp(subRule, facts, state)
-        : { foundMatch: false, value: state.value };
-    }
-    case "all":
-      // eslint-disable-next-line @typescript-eslint/no-use-before-define
-      return runAllMatchingRules(rule.rules, facts, state);
-    case "first":
-      // eslint-disable-next-line @typescript-eslint/no-use-before-define
-      return runFirstMatchingRule(rule.rules, facts, state);
-    case "chain":
-      // eslint-disable-next-line @typescript-eslint/no-use-before-define
-      return runChainOfRules(rule.rules, facts, state);
-    default:
-      return rule.matcher(facts, state.value)
-        ? { foundMatch: true, value: rule.action(facts, state.value) }
-        : { foundMatch: false, value: state.value };
-  }
+// combine a list of rules with priorities into a new rule where, once
+// executed, only the matching rule with the highest priority is run
+// rules with the same priority are tried in order, priorities can be computed
+// from the facts
+// example:
+//   applyFirstByPriority([
+//     { priority: 10, rule: summerSale },
+//     { priority: (facts) => facts.user.score, rule: loyaltyDiscount },
+//   ])
+const applyFirstByPriority: {
+  <Facts, Value>(
+    rules: {
+      priority: Priority<Facts>;
+      rule: Rule<Facts, Value, Value> & NotAsync<Value>;
+    }[]
+  ): PrioritizedRule<Facts, Value, Value>;
+  <Facts, Value>(
+    rules: {
+      priority: AsyncPriority<Facts>;
+      rule: AsyncRule<Facts, Value, Value>;
+    }[]
+  ): AsyncPrioritizedRule<Facts, Value, Value>;
+} = prioritized("first");
+
+// like `applyFirstByPriority` but all matching rules are run, highest
+// priority first
+const applyAllByPriority: {
+  <Facts, Value>(
+    rules: {
+      priority: Priority<Facts>;
+      rule: Rule<Facts, Value, Value> & NotAsync<Value>;
+    }[]
+  ): PrioritizedRule<Facts, Value, Value>;
+  <Facts, Value>(
+    rules: {
+      priority: AsyncPriority<Facts>;
+      rule: AsyncRule<Facts, Value, Value>;
+    }[]
+  ): AsyncPrioritizedRule<Facts, Value, Value>;
+} = prioritized("all");
+
+// run the rule only for a stable share of `percentage` percent of the values
+// at `key`, e.g. to roll out a feature to 20% of the users
+// the same value and salt always get the same outcome, see `inRollout`
+// example:
+//   rollout(20, { key: "facts.user.id", salt: "new-checkout" }, rule)
+const rollout: {
+  <Facts, Result, Input>(
+    percentage: number,
+    options: { key: string; salt: string },
+    rule: Rule<Facts, Result, Input> & NotAsync<Result>
+  ): IfRule<Facts, Result, Input>;
+  <Facts, Result, Input>(
+    percentage: number,
+    options: { key: string; salt: string },
+    rule: AsyncRule<Facts, Result, Input>
+  ): AsyncIfRule<Facts, Result, Input>;
+} = (
+  percentage: number,
+  { key, salt }: { key: string; salt: string },
+  rule: AsyncRule
+): any => applyIf(inRollout(key, percentage, salt), rule);
+
+// run the rule only while the schedule is active, the clock tells the current
+// time and defaults to the system time
+// throws if the schedule is malformed
+// example:
+//   scheduled(
+//     { months: [7, 8], timeZone: "Europe/Berlin" },
+//     lemonadeRule,
+//     (facts) => facts.currentDate
+//   )
+const scheduled: {
+  <Facts, Result, Input>(
+    schedule: Schedule,
+    rule: Rule<Facts, Result, Input> & NotAsync<Result>,
+    clock?: Clock<Facts>
+  ): IfRule<Facts, Result, Input>;
+  <Facts, Result, Input>(
+    schedule: Schedule,
+    rule: AsyncRule<Facts, Result, Input>,
+    clock?: Clock<Facts>
+  ): AsyncIfRule<Facts, Result, Input>;
+} = (schedule: Schedule, rule: AsyncRule, clock?: Clock): any =>
+  applyIf(activeDuring(schedule, clock), rule);
+
+type ExperimentOptions<R> = {
+  key: string;
+  salt?: string;
+  variants: { name: string; weight?: number; rule: R }[];
 };
 
-const runAllMatchingRules = (
-  rules: Rule[],
-  facts: object,
-  state: RuleResult
-): RuleResult => {
-  const reducer = (currentState: RuleResult, currentRule: Rule) => {
-    const newState = runHelp(currentRule, facts, currentState);
-    return {
-      foundMatch: currentState.foundMatch || newState.foundMatch,
-      value: newState.value,
-    };
+// split the values at `key`, e.g. user ids, into variants which each run
+// their own rule, every variant gets a share of the values according to its
+// weight (1 by default)
+// the same value and salt (the name of the experiment by default) always get
+// the same variant, the chosen variants are reported as `variants` in the
+// result of `detailedRun`, nothing is run when the key is missing
+// throws if the key doesn't start with `facts` or `value` or the weights
+// aren't numbers >= 0 adding up to more than 0
+// example:
+//   experiment("checkout", {
+//     key: "facts.user.id",
+//     variants: [
+//       { name: "control", weight: 90, rule: classicCheckout },
+//       { name: "one-page", weight: 10, rule: onePageCheckout },
+//     ],
+//   })
+const experiment: {
+  <Facts, Value>(
+    name: string,
+    options: ExperimentOptions<Rule<Facts, Value, Value> & NotAsync<Value>>
+  ): ExperimentRule<Facts, Value, Value>;
+  <Facts, Value>(
+    name: string,
+    options: ExperimentOptions<AsyncRule<Facts, Value, Value>>
+  ): AsyncExperimentRule<Facts, Value, Value>;
+} = (
+  name: string,
+  { key, salt = name, variants }: ExperimentOptions<AsyncRule>
+): any => {
+  const weights = variants.map((variant) => variant.weight ?? 1);
+  checkKey(key);
+  checkWeights(weights);
+  return {
+    type: "experiment",
+    experiment: name,
+    key,
+    salt,
+    variants: variants.map((variant) => variant.name),
+    weights,
+    rules: variants.map((variant) => variant.rule),
   };
-  return rules.reduce(reducer, state);
 };
 
-const runFirstMatchingRule = (
-  rules: Rule[],
-  facts: object,
-  state: RuleResult
-): RuleResult => {
-  const [nextRule, ...remainingRules] = rules;
-  if (!nextRule) {
-    return state;
-  }
-  const { foundMatch, value } = runHelp(nextRule, facts, state);
-  return foundMatch
-    ? { foundMatch, value }
-    : runFirstMatchingRule(remainingRules, facts, state);
-};
+// run every rule on the same incoming value, so they don't see each other's
+// output, and collect the outputs of the matching rules along with their
+// `index`, `id` and `name`, like `[{ index: 0, name: "sale", value: "-20%" }]`
+// a reducer can combine the outputs into another value instead, see
+// `mergeOutputs`, `concatOutputs` and `uniqueOutputsBy`
+// matches when any of the rules matched, otherwise the value stays unchanged
+// example:
+//   collectAll([saleBadge, newBadge, bestsellerBadge], concatOutputs)
+const collectAll: {
+  <Facts, ChildResult, Input>(
+    rules: Rule<Facts, ChildResult, Input>[] & NotAsync<ChildResult>
+  ): CollectRule<Facts, CollectedOutput<ChildResult>[], Input, ChildResult>;
+  <Facts, ChildResult, Input, Result>(
+    rules: Rule<Facts, ChildResult, Input>[] & NotAsync<ChildResult>,
+    reducer: Reducer<ChildResult, Result, Input> & NotAsync<Result>
+  ): CollectRule<Facts, Result, Input, ChildResult>;
+  <Facts, ChildResult, Input>(
+    rules: AsyncRule<Facts, ChildResult, Input>[]
+  ): AsyncCollectRule<
+    Facts,
+    CollectedOutput<ChildResult>[],
+    Input,
+    ChildResult
+  >;
+  <Facts, ChildResult, Input, Result>(
+    rules: AsyncRule<Facts, ChildResult, Input>[],
+    reducer: AsyncReducer<ChildResult, Result, Input>
+  ): AsyncCollectRule<Facts, Result, Input, ChildResult>;
+} = (rules: AsyncRule[], reducer?: AsyncReducer): any =>
+  reducer ? { type: "collect", reducer, rules } : { type: "collect", rules };
 
-const runChainOfRules = (
-  rules: Rule[],
-  facts: object,
-  state: RuleResult
-): RuleResult => {
-  const [nextRule, ...remainingRules] = rules;
-  if (!nextRule) {
-    return state;
+// run the rule once for every item of a list value, with the item as its
+// value, and return the list of outputs, items the rule doesn't match stay
+// unchanged
+// the mapper receives the facts, the item and its index and returns the facts
+// the rule receives for that item
+// matches when the rule matched any item, otherwise the value stays unchanged
+// the run fails when the value isn't a list
+// example:
+//   applyToEach(priceRules, (facts, item) => ({ ...facts, item }))
+const applyToEach: {
+  <Facts, Item, ChildResult>(
+    rule: Rule<Facts, ChildResult, Item> & NotAsync<ChildResult>
+  ): EachRule<Facts, ChildResult[], Item[], Facts>;
+  <Facts, Item, ChildFacts, ChildResult>(
+    rule: Rule<ChildFacts, ChildResult, Item> & NotAsync<ChildResult>,
+    mapper: ItemMapper<Facts, Item, ChildFacts> & NotAsync<ChildFacts>
+  ): EachRule<Facts, ChildResult[], Item[], ChildFacts>;
+  <Facts, Item, ChildResult>(
+    rule: AsyncRule<Facts, ChildResult, Item>
+  ): AsyncEachRule<Facts, ChildResult[], Item[], Facts>;
+  <Facts, Item, ChildFacts, ChildResult>(
+    rule: AsyncRule<ChildFacts, ChildResult, Item>,
+    mapper: AsyncItemMapper<Facts, Item, ChildFacts>
+  ): AsyncEachRule<Facts, ChildResult[], Item[], ChildFacts>;
+} = (rule: AsyncRule, mapper?: AsyncItemMapper): any =>
+  mapper ? { type: "each", mapper, rule } : { type: "each", rule };
+
+// run the rule on its own output again and again as long as it matches, like
+// `applyChain` with copies of the rule, e.g. to apply discounts until none
+// is left
+// matches when the rule matched the first time, the run fails when the rule
+// still matches after `maxIterations` times so it can't loop forever
+// throws if `maxIterations` isn't a whole number of at least 1
+// example:
+//   applyRepeatedly(10, applyFirst(discountRules))
+const applyRepeatedly: {
+  <Facts, Value>(
+    maxIterations: number,
+    rule: Rule<Facts, Value, Value> & NotAsync<Value>
+  ): RepeatRule<Facts, Value, Value>;
+  <Facts, Value>(
+    maxIterations: number,
+    rule: AsyncRule<Facts, Value, Value>
+  ): AsyncRepeatRule<Facts, Value, Value>;
+} = (maxIterations: number, rule: AsyncRule): any => {
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error(
+      `maxIterations must be a whole number of at least 1, got ${maxIterations}`
+    );
   }
-  const { foundMatch, value } = runHelp(nextRule, facts, state);
-  return foundMatch
-    ? runChainOfRules(remainingRules, facts, { foundMatch, value })
-    : state;
+  return { type: "repeat", maxIterations, rule };
 };
 
-// like run but with a more detailed return value
-// Instead of the plain value it returns an object with the the following shape:
-//    { value: <value>, foundMatch: <> }
-//    - value: the actual value built-up by the rules, or `null` if no rule matched
-//        note that unlike `run` this used `null` instead of the orginal value
-//        when no rule matches
-//    - foundMatch: is a boolean which indicates whether any rule in this run matched
-const detailedRun = curryToArity(
-  (rule: Rule, facts: object, initialValue: any) => {
-    const state = { foundMatch: false, value: initialValue };
-    try {
-      const result = runHelp(rule, facts, state);
-      return [null, result];
-    } catch (err) {
-      return [err, null];
-    }
-  },
-  3
-);
+// decide what happens when the rule, or any rule inside of it, throws
+// instead of ending the whole run (see `ErrorPolicy`), the policy of the
+// closest rule combined with `onError` applies
+// examples:
+//   onError("skip", rule)
+//   onError({ fallback: [] }, rule)
+const onError: {
+  <Facts, Result, Input>(
+    policy: ErrorPolicy<Result>,
+    rule: Rule<Facts, Result, Input> & NotAsync<Result>
+  ): GuardedRule<Facts, Result, Input>;
+  <Facts, Result, Input>(
+    policy: ErrorPolicy<Result>,
+    rule: AsyncRule<Facts, Result, Input>
+  ): AsyncGuardedRule<Facts, Result, Input>;
+} = (policy: ErrorPolicy, rule: AsyncRule): any => ({
+  type: "guarded",
+  policy,
+  rule,
+});
 
-const run = curryToArity((rule: Rule, facts: object, initialValue: any) => {
-  const [err, { value }] = detailedRun(rule, facts, initialValue);
-  return [err, value];
-}, 3);
+// check the facts and the value the rule receives and its output against
+// schemas (see `Schema`) before anything relies on them, data which doesn't
+// match makes the run return a `RuleError` whose `cause` is a
+// `SchemaValidationError` listing every mismatch
+// the output is only checked when the rule matched, it is the value the
+// rule passes on, the values of the rules inside of it may differ
+// throws if any of the schemas is malformed
+// example:
+//   withSchema(
+//     {
+//       facts: { type: "object", properties: { age: "number" } },
+//       output: { type: "array", items: "string" },
+//     },
+//     rule
+//   )
+const withSchema: {
+  <Facts, Result, Input>(
+    schemas: RuleSchemas,
+    rule: Rule<Facts, Result, Input> & NotAsync<Result>
+  ): Rule<Facts, Result, Input>;
+  <Facts, Result, Input>(
+    schemas: RuleSchemas,
+    rule: AsyncRule<Facts, Result, Input>
+  ): AsyncRule<Facts, Result, Input>;
+} = (schemas: RuleSchemas, rule: AsyncRule): any => {
+  validateSchemas(schemas);
+  const { facts, value, output } = schemas;
+  const checked = output
+    ? transformOutput(schemaTransformer(output), rule as Rule)
+    : rule;
+  return facts || value
+    ? applyIf(schemaMatcher({ facts, value }), checked)
+    : checked;
+};
 
+export * from "./async";
+export * from "./batch";
+export { concatOutputs, mergeOutputs, uniqueOutputsBy } from "./collect";
+export * from "./compile";
+export * from "./conditions";
+export * from "./coverage";
+export * from "./diagram";
+export * from "./diff";
+export { RuleError } from "./errors";
+export { describeMatcher, explainMatcher, isCombinedMatcher } from "./explain";
+export type {
+  CombinedMatcher,
+  MatcherCombination,
+  MatcherFailure,
+} from "./explain";
+export * from "./hooks";
+export * from "./infer";
+export * from "./profile";
+export { detailedRun, run, tracedRun } from "./run";
+export * from "./schedule";
+export { checkSchema, schemaHooks, SchemaValidationError } from "./schema";
+export type { RuleSchemas, Schema, SchemaIssue } from "./schema";
+export * from "./serialize";
+export { MutationError } from "./strict";
+export type { StrictFunction } from "./strict";
+export * from "./tree";
+export type {
+  Action,
+  AllRule,
+  AsyncAction,
+  AsyncAllRule,
+  AsyncChainRule,
+  AsyncCollectRule,
+  AsyncEachRule,
+  AsyncExperimentRule,
+  AsyncFirstRule,
+  AsyncGuardedRule,
+  AsyncIfRule,
+  AsyncInjectedRule,
+  AsyncItemMapper,
+  AsyncMapper,
+  AsyncMatcher,
+  AsyncPlainRule,
+  AsyncPrioritizedRule,
+  AsyncPriority,
+  AsyncReducer,
+  AsyncRepeatRule,
+  AsyncRule,
+  AsyncRunner,
+  AsyncTransformedRule,
+  AsyncTransformer,
+  ChainRule,
+  CollectedOutput,
+  CollectRule,
+  EachRule,
+  ErrorPolicy,
+  ExperimentRule,
+  FirstRule,
+  GuardedRule,
+  IfRule,
+  InjectedRule,
+  ItemMapper,
+  Mapper,
+  Matcher,
+  MaybePromise,
+  PlainRule,
+  PrioritizedRule,
+  Priority,
+  PriorityMode,
+  Reducer,
+  RepeatRule,
+  Rule,
+  RuleMeta,
+  RuleResult,
+  RuleTrace,
+  RuleType,
+  Runner,
+  RunOptions,
+  RunResult,
+  TracedRuleResult,
+  TransformedRule,
+  Transformer,
+} from "./types";
+export * from "./validate";
 export {
   not,
   one,
@@ -264,6 +608,14 @@ export {
   applyAll,
   applyFirst,
   applyChain,
-  run,
-  detailedRun,
+  applyFirstByPriority,
+  applyAllByPriority,
+  rollout,
+  experiment,
+  scheduled,
+  collectAll,
+  applyToEach,
+  applyRepeatedly,
+  onError,
+  withSchema,
 };
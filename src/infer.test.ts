@@ -0,0 +1,161 @@
+import {
+  applyAll,
+  applyIf,
+  derive,
+  describeRule,
+  infer,
+  InferenceError,
+  RuleError,
+} from "./index";
+
+type Facts = { orders: number; country: string };
+type Derived = {
+  isPremiumCustomer: boolean;
+  discount: number;
+  freeShipping: boolean;
+};
+type WorkingMemory = Facts & Partial<Derived>;
+
+const pricing = applyAll([
+  // listed before the rules it depends on, so it needs another run
+  describeRule(
+    { id: "shipping" },
+    {
+      matcher: (facts: WorkingMemory) => (facts.discount || 0) >= 10,
+      action: derive<WorkingMemory, Derived>(() => ({ freeShipping: true })),
+    }
+  ),
+  describeRule(
+    { name: "Premium customers" },
+    {
+      matcher: (facts: WorkingMemory) => facts.orders > 10,
+      action: derive<WorkingMemory, Derived>(() => ({
+        isPremiumCustomer: true,
+      })),
+    }
+  ),
+  applyIf((facts: WorkingMemory) => !!facts.isPremiumCustomer, {
+    matcher: (facts: WorkingMemory) => facts.country === "DE",
+    action: derive<WorkingMemory, Derived>(() => ({ discount: 10 })),
+  }),
+]);
+
+describe("infer", () => {
+  test("derives facts until nothing changes", () => {
+    const [err, result] = infer(pricing, { orders: 12, country: "DE" });
+    expect(err).toBe(null);
+    expect(result?.derived).toEqual({
+      isPremiumCustomer: true,
+      discount: 10,
+      freeShipping: true,
+    });
+    expect(result?.facts).toEqual({
+      orders: 12,
+      country: "DE",
+      isPremiumCustomer: true,
+      discount: 10,
+      freeShipping: true,
+    });
+    // derived facts are seen by the rules in the next run
+    expect(result?.iterations).toBe(4);
+  });
+
+  test("records which rule derived which fact", () => {
+    const [, result] = infer(pricing, { orders: 12, country: "DE" });
+    expect(result?.derivations).toEqual([
+      {
+        fact: "isPremiumCustomer",
+        value: true,
+        path: [1],
+        rule: "Premium customers",
+        iteration: 1,
+      },
+      {
+        fact: "discount",
+        value: 10,
+        path: [2, 0],
+        rule: "plain",
+        iteration: 2,
+      },
+      {
+        fact: "freeShipping",
+        value: true,
+        path: [0],
+        rule: "shipping",
+        iteration: 3,
+      },
+    ]);
+  });
+
+  test("stops after one run when nothing is derived", () => {
+    const [, result] = infer(pricing, { orders: 1, country: "DE" });
+    expect(result).toEqual({
+      facts: { orders: 1, country: "DE" },
+      derived: {},
+      iterations: 1,
+      derivations: [],
+    });
+  });
+
+  test("compares derived objects and arrays by their contents", () => {
+    const tiers = {
+      matcher: () => true,
+      action: derive(() => ({ tier: { level: 1 }, tags: ["a"] })),
+    };
+    const [err, result] = infer(tiers, {});
+    expect(err).toBe(null);
+    expect(result).toMatchObject({
+      derived: { tier: { level: 1 }, tags: ["a"] },
+      iterations: 2,
+    });
+    expect(result?.derivations.map(({ fact }) => fact)).toEqual([
+      "tier",
+      "tags",
+    ]);
+  });
+
+  test("returns an error when derived facts keep changing", () => {
+    const counter = {
+      matcher: () => true,
+      action: derive((facts: { count?: number }) => ({
+        count: (facts.count || 0) + 1,
+      })),
+    };
+    const [err, result] = infer(counter, {}, { maxIterations: 5 });
+    expect(result).toBe(null);
+    expect(err).toBeInstanceOf(InferenceError);
+    expect(err).toMatchObject({
+      reason: "maxIterations",
+      derived: { count: 5 },
+      message: "derived facts still changed after 5 iterations: count",
+    });
+    expect((err as InferenceError).derivations).toHaveLength(5);
+  });
+
+  test("returns an error when derived facts go back and forth", () => {
+    const toggle = {
+      matcher: () => true,
+      action: derive((facts: { on?: boolean }) =>
+        facts.on ? { on: false, dimmed: true } : { on: true, dimmed: false }
+      ),
+    };
+    const [err] = infer(toggle, {});
+    expect(err).toMatchObject({
+      reason: "cycle",
+      message:
+        "derived facts after iteration 3 are the same as after iteration 1, changing: on, dimmed",
+    });
+  });
+
+  test("returns errors of the rule", () => {
+    const failing = {
+      matcher: () => true,
+      action: (): object => {
+        throw new Error("BOOM!");
+      },
+    };
+    const [err, result] = infer(failing, {});
+    expect(err).toBeInstanceOf(RuleError);
+    expect(result).toBe(null);
+  });
+});
@@ -0,0 +1,191 @@
+import type { RuleError } from "./errors";
+import { runWithTrace } from "./run";
+import type { RulePath } from "./tree";
+import { ruleAtPath, ruleLabel } from "./tree";
+import type { Rule, RuleTrace } from "./types";
+import { isEqual } from "./util";
+
+/* INFERENCE
+ * Usually the facts are fixed while a rule runs. In inference mode rules
+ * derive new facts instead of producing a value, e.g. `isPremiumCustomer`
+ * derived from the order history. Derived facts are added to the facts and
+ * the rule is run again, so other rules can use them, until no rule derives
+ * anything new.
+ */
+
+type InferenceOptions = {
+  maxIterations?: number;
+};
+
+// one fact derived by a rule
+//  - path, rule: the position and label of the rule which derived the fact
+//  - iteration: the run the fact was derived in, starting with 1
+type Derivation = {
+  fact: string;
+  value: unknown;
+  path: RulePath;
+  rule: string;
+  iteration: number;
+};
+
+// the result of `infer`
+//  - facts: the facts including all derived facts
+//  - derived: only the derived facts
+//  - iterations: how often the rule was run, including the last run which
+//      didn't derive anything new
+//  - derivations: every change of a derived fact in the order it happened
+type InferenceResult<Facts, Derived> = {
+  facts: Facts & Derived;
+  derived: Derived;
+  iterations: number;
+  derivations: Derivation[];
+};
+
+// returned as error by `infer` when the derived facts don't settle
+//  - reason: "maxIterations" when they still changed after the last allowed
+//      run, "cycle" when they went back to the facts of an earlier run
+//  - derived, derivations: how far the inference got
+class InferenceError extends Error {
+  reason: "maxIterations" | "cycle";
+
+  derived: object;
+
+  derivations: Derivation[];
+
+  constructor(
+    message: string,
+    reason: InferenceError["reason"],
+    derived: object,
+    derivations: Derivation[]
+  ) {
+    super(message);
+    this.name = "InferenceError";
+    this.reason = reason;
+    this.derived = derived;
+    this.derivations = derivations;
+  }
+}
+
+// an action deriving facts, the facts returned by `fn` are added to the
+// derived facts passed along as value
+// example:
+//   {
+//     matcher: (facts) => facts.orders.length > 10,
+//     action: derive(() => ({ isPremiumCustomer: true })),
+//   }
+const derive =
+  <Facts, Derived>(fn: (facts: Facts) => Partial<Derived>) =>
+  (facts: Facts, derived: Partial<Derived>): Partial<Derived> => ({
+    ...derived,
+    ...fn(facts),
+  });
+
+const changedFacts = (before: any, after: any): string[] =>
+  Object.keys({ ...before, ...after }).filter(
+    (fact) => !isEqual(before?.[fact], after?.[fact])
+  );
+
+const isSame = (a: object, b: object) => changedFacts(a, b).length === 0;
+
+// the facts changed by every rule of a trace, changes are attributed to the
+// innermost rule which made them
+const derivationsOf = (
+  rule: Rule,
+  trace: RuleTrace,
+  iteration: number
+): Derivation[] => {
+  const visit = (node: RuleTrace, path: RulePath): Derivation[] => {
+    // "prioritized" rules run their child rules in the recorded order
+    const inner = node.children.flatMap((child, position) =>
+      visit(child, [...path, node.order ? node.order[position] : position])
+    );
+    const own = changedFacts(node.valueBefore, node.valueAfter)
+      .filter((fact) => !inner.some((derivation) => derivation.fact === fact))
+      .map((fact) => ({
+        fact,
+        value: node.valueAfter?.[fact],
+        path,
+        rule: ruleLabel(ruleAtPath(rule, path) as Rule),
+        iteration,
+      }));
+    return [...inner, ...own];
+  };
+  return visit(trace, []);
+};
+
+// run a rule deriving facts (see `derive`) until it doesn't derive anything
+// new, the rule receives the facts along with all facts derived so far and
+// the derived facts as value
+// returns a tuple like [error, { facts, derived, iterations, derivations }],
+// the error is a `RuleError` when the rule threw and an `InferenceError`
+// when the derived facts didn't settle within `maxIterations` runs
+// example:
+//   const [err, { facts, derivations }] = infer(pricingRules, { orders });
+const infer = <Facts extends object, Derived extends object>(
+  rule: Rule<Facts & Partial<Derived>, Partial<Derived>>,
+  facts: Facts,
+  { maxIterations = 100 }: InferenceOptions = {}
+):
+  | [RuleError | InferenceError, null]
+  | [null, InferenceResult<Facts, Partial<Derived>>] => {
+  const history: Partial<Derived>[] = [{}];
+  const derivations: Derivation[] = [];
+  let iteration = 1;
+  while (iteration <= maxIterations) {
+    const derived = history[history.length - 1];
+    const [err, result, trace] = runWithTrace(
+      rule,
+      { ...facts, ...derived },
+      derived
+    );
+    if (err) {
+      return [err, null];
+    }
+    const next: Partial<Derived> = result.value;
+    derivations.push(...derivationsOf(rule, trace, iteration));
+    if (isSame(derived, next)) {
+      return [
+        null,
+        {
+          facts: { ...facts, ...next },
+          derived: next,
+          iterations: iteration,
+          derivations,
+        },
+      ];
+    }
+    const earlier = history.findIndex((state) => isSame(state, next));
+    if (earlier >= 0) {
+      return [
+        new InferenceError(
+          `derived facts after iteration ${iteration} are the same as after iteration ${earlier}, changing: ${changedFacts(
+            derived,
+            next
+          ).join(", ")}`,
+          "cycle",
+          next,
+          derivations
+        ),
+        null,
+      ];
+    }
+    history.push(next);
+    iteration += 1;
+  }
+  const derived = history[history.length - 1];
+  return [
+    new InferenceError(
+      `derived facts still changed after ${maxIterations} iterations: ${changedFacts(
+        history[history.length - 2],
+        derived
+      ).join(", ")}`,
+      "maxIterations",
+      derived,
+      derivations
+    ),
+    null,
+  ];
+};
+
+export { derive, infer, InferenceError };
+export type { Derivation, InferenceOptions, InferenceResult };
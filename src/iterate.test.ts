@@ -0,0 +1,277 @@
+import { runAsync } from "./async";
+import type { AsyncRule, Rule } from "./index";
+import {
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  applyRepeatedly,
+  applyToEach,
+  collectAll,
+  compile,
+  experiment,
+  injectFacts,
+  onError,
+  run,
+  transformOutput,
+} from "./index";
+import {
+  iterationLimitError,
+  listValue,
+  wouldMatch,
+  wouldMatchAsync,
+} from "./iterate";
+
+type Facts = { id?: string; index?: number };
+
+// a rule counting the value down to 0 and one which never matches, along
+// with every type of rule that can contain them
+const rulesOfEveryType = (countdown: AsyncRule, never: AsyncRule) => {
+  const only = (outputs: { value: unknown }[], value: unknown) =>
+    outputs.length > 0 ? outputs[0].value : value;
+  return {
+    plain: countdown,
+    injected: injectFacts((facts: Facts) => facts, countdown),
+    transformed: transformOutput((value: number) => value, countdown),
+    if: applyIf(() => true, countdown),
+    guarded: onError("skip", countdown),
+    all: applyAll([never, countdown]),
+    first: applyFirst([never, countdown]),
+    chain: applyChain([countdown, never]),
+    prioritized: applyFirstByPriority([
+      { priority: 1, rule: never },
+      { priority: 2, rule: countdown },
+    ]),
+    experiment: experiment("countdown", {
+      key: "facts.id",
+      variants: [{ name: "only", rule: countdown }],
+    }),
+    collect: collectAll([never, countdown], only),
+    repeat: applyRepeatedly(5, countdown),
+  } as Record<string, AsyncRule>;
+};
+
+const countdown: Rule<Facts, number> = {
+  matcher: (facts, value) => value > 0,
+  action: (facts, value) => value - 1,
+};
+const never: Rule<Facts, number> = {
+  matcher: () => false,
+  action: (facts, value) => value,
+};
+const rules = Object.entries(
+  rulesOfEveryType(countdown, never) as Record<string, Rule>
+);
+
+const countdownAsync: AsyncRule<Facts, number> = {
+  matcher: async (facts, value) => value > 0,
+  action: async (facts, value) => value - 1,
+};
+const neverAsync: AsyncRule<Facts, number> = {
+  matcher: async () => false,
+  action: async (facts, value) => value,
+};
+const asyncRules = Object.entries(rulesOfEveryType(countdownAsync, neverAsync));
+
+const user = { id: "user-1" };
+
+describe("listValue", () => {
+  test("returns lists as they are", () => {
+    const list = [1, 2];
+    expect(listValue(list)).toBe(list);
+  });
+
+  test("throws for anything else", () => {
+    expect(() => listValue(null)).toThrow(
+      "expected the value to be a list, got null"
+    );
+    expect(() => listValue({ length: 1 })).toThrow(
+      "expected the value to be a list, got object"
+    );
+  });
+});
+
+describe("iterationLimitError", () => {
+  test("names the maximum iterations", () => {
+    expect(iterationLimitError(1).message).toBe(
+      "rule still matched after 1 iteration"
+    );
+    expect(iterationLimitError(3).message).toBe(
+      "rule still matched after 3 iterations"
+    );
+  });
+});
+
+describe("wouldMatch", () => {
+  test.each(rules)("checks %s rules", (type, rule) => {
+    expect(wouldMatch(rule, user, 1)).toBe(true);
+    expect(wouldMatch(rule, user, 0)).toBe(false);
+  });
+
+  test.each(rules)("keeps %s rules from repeating too often", (type, rule) => {
+    // the nested "repeat" rule counts down to 0 in one go
+    const iterations = type === "repeat" ? 1 : 3;
+    expect(run(applyRepeatedly(iterations, rule), user, 3)).toEqual([null, 0]);
+    expect(compile(applyRepeatedly(iterations, rule))(user, 3)).toMatchObject([
+      null,
+      { foundMatch: true, value: 0 },
+    ]);
+    if (type !== "repeat") {
+      const [err] = run(applyRepeatedly(2, rule), user, 3);
+      expect(err?.message).toBe(
+        'rule "repeat" at [] failed: rule still matched after 2 iterations'
+      );
+      const [compiledErr] = compile(applyRepeatedly(2, rule))(user, 3);
+      expect(compiledErr?.message).toBe(err?.message);
+    }
+  });
+
+  test("checks the rules of an each rule on the items", () => {
+    const each: Rule = applyToEach(countdown);
+    expect(wouldMatch(each, user, [0, 1])).toBe(true);
+    expect(wouldMatch(each, user, [0, 0])).toBe(false);
+    expect(run(applyRepeatedly(2, each), user, [2, 1])).toEqual([null, [0, 0]]);
+    const [err] = run(applyRepeatedly(1, each), user, [2, 1]);
+    expect(err?.message).toBe(
+      'rule "repeat" at [] failed: rule still matched after 1 iteration'
+    );
+  });
+
+  test("checks the rules of an each rule with the facts of the items", () => {
+    const each = applyToEach(
+      applyIf((itemFacts: Facts) => itemFacts.index !== 0, countdown),
+      (itemFacts: Facts, item: number, index: number) => ({ index })
+    );
+    expect(wouldMatch(each, user, [1, 0])).toBe(false);
+    expect(wouldMatch(each, user, [0, 1])).toBe(true);
+  });
+
+  test("doesn't match rules with a failing condition or no children", () => {
+    expect(
+      wouldMatch(
+        applyIf(() => false, countdown),
+        user,
+        1
+      )
+    ).toBe(false);
+    expect(wouldMatch(applyChain([]), user, 1)).toBe(false);
+    expect(wouldMatch(applyFirst([]), user, 1)).toBe(false);
+  });
+
+  test("doesn't match experiments without a key", () => {
+    const [, rule] = rules.find(([type]) => type === "experiment") as [
+      string,
+      Rule
+    ];
+    expect(wouldMatch(rule, {}, 1)).toBe(false);
+  });
+
+  test("applies the policy of guarded rules to errors", () => {
+    const failing: Rule = {
+      matcher: () => {
+        throw new Error("BOOM!");
+      },
+      action: (facts, value) => value,
+    };
+    expect(wouldMatch(onError({ fallback: 0 }, failing), user, 1)).toBe(true);
+    expect(wouldMatch(onError("skip", failing), user, 1)).toBe(false);
+    expect(() => wouldMatch(onError("abort", failing), user, 1)).toThrow(
+      "BOOM!"
+    );
+  });
+
+  test("doesn't run actions, transformers or reducers", () => {
+    const action = jest.fn();
+    const transformer = jest.fn();
+    const reducer = jest.fn();
+    const rule = transformOutput(
+      transformer,
+      collectAll([{ matcher: () => true, action }], reducer)
+    );
+    expect(wouldMatch(rule, user, 1)).toBe(true);
+    expect(action).not.toHaveBeenCalled();
+    expect(transformer).not.toHaveBeenCalled();
+    expect(reducer).not.toHaveBeenCalled();
+  });
+});
+
+describe("wouldMatchAsync", () => {
+  test.each(asyncRules)("checks %s rules", async (type, rule) => {
+    expect(await wouldMatchAsync(rule, user, 1)).toBe(true);
+    expect(await wouldMatchAsync(rule, user, 0)).toBe(false);
+  });
+
+  test.each(asyncRules)(
+    "keeps %s rules from repeating too often",
+    async (type, rule) => {
+      const iterations = type === "repeat" ? 1 : 3;
+      expect(
+        await runAsync(applyRepeatedly(iterations, rule), user, 3)
+      ).toEqual([null, 0]);
+      if (type !== "repeat") {
+        const [err] = await runAsync(applyRepeatedly(2, rule), user, 3);
+        expect(err?.message).toBe(
+          'rule "repeat" at [] failed: rule still matched after 2 iterations'
+        );
+      }
+    }
+  );
+
+  test("checks the rules of an each rule on the items", async () => {
+    const each = applyToEach(
+      applyIf(
+        async (itemFacts: Facts) => itemFacts.index !== 0,
+        countdownAsync
+      ),
+      async (itemFacts: Facts, item: number, index: number) => ({ index })
+    );
+    expect(await wouldMatchAsync(each, user, [1, 0])).toBe(false);
+    expect(await wouldMatchAsync(each, user, [0, 1])).toBe(true);
+    expect(await wouldMatchAsync(applyToEach(countdownAsync), user, [1])).toBe(
+      true
+    );
+    const eachItem: AsyncRule = applyToEach(countdownAsync);
+    const [err] = await runAsync(applyRepeatedly(1, eachItem), user, [2, 1]);
+    expect(err?.message).toBe(
+      'rule "repeat" at [] failed: rule still matched after 1 iteration'
+    );
+  });
+
+  test("doesn't match rules with a failing condition or no children", async () => {
+    expect(await wouldMatchAsync(applyChain([]), user, 1)).toBe(false);
+    expect(
+      await wouldMatchAsync(
+        applyIf(async () => false, countdownAsync),
+        user,
+        1
+      )
+    ).toBe(false);
+  });
+
+  test("doesn't match experiments without a key", async () => {
+    const [, rule] = asyncRules.find(([type]) => type === "experiment") as [
+      string,
+      AsyncRule
+    ];
+    expect(await wouldMatchAsync(rule, {}, 1)).toBe(false);
+  });
+
+  test("applies the policy of guarded rules to errors", async () => {
+    const failing: AsyncRule = {
+      matcher: async () => {
+        throw new Error("BOOM!");
+      },
+      action: async (facts, value) => value,
+    };
+    expect(
+      await wouldMatchAsync(onError({ fallback: 0 }, failing), user, 1)
+    ).toBe(true);
+    expect(await wouldMatchAsync(onError("skip", failing), user, 1)).toBe(
+      false
+    );
+    await expect(
+      wouldMatchAsync(onError("abort", failing), user, 1)
+    ).rejects.toThrow("BOOM!");
+  });
+});
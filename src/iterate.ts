@@ -0,0 +1,148 @@
+import { variantIndex } from "./experiment";
+import type { AsyncRule, Rule } from "./types";
+
+/* ITERATING
+ * An "each" rule runs its child rule for every item of a list, e.g. to price
+ * every line item of a cart with the same rules. A "repeat" rule runs its
+ * child rule on its own output as long as it matches, e.g. to apply
+ * discounts until none is left, bounded so a rule which always matches
+ * can't loop forever. Shared by all ways of running rules.
+ */
+
+// the value of an "each" rule as a list, throws if it isn't one
+const listValue = (value: unknown): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new TypeError(
+      `expected the value to be a list, got ${
+        value === null ? "null" : typeof value
+      }`
+    );
+  }
+  return value;
+};
+
+// thrown when the child rule of a "repeat" rule still matches after the
+// maximum number of iterations
+const iterationLimitError = (maxIterations: number): Error =>
+  new Error(
+    `rule still matched after ${maxIterations} iteration${
+      maxIterations === 1 ? "" : "s"
+    }`
+  );
+
+// whether the rule would match the value, evaluating only what decides that,
+// like matchers, mappers and experiments, without running any action,
+// transformer or reducer and without calling hooks
+// used by "repeat" rules to check the limit without running the rule again
+// the first child of an "all", "first" or "chain" rule which matches receives
+// the incoming value, so checking the children on it is enough
+const wouldMatch = (rule: Rule, facts: any, value: any): boolean => {
+  switch (rule.type) {
+    case "injected":
+      return wouldMatch(rule.childRule, rule.mapper(facts), value);
+    case "transformed":
+    case "repeat":
+      return wouldMatch(rule.rule, facts, value);
+    case "if":
+      return rule.matcher(facts, value) && wouldMatch(rule.rule, facts, value);
+    case "guarded":
+      try {
+        return wouldMatch(rule.rule, facts, value);
+      } catch (err) {
+        if (rule.policy === "abort") {
+          throw err;
+        }
+        // a fallback counts as a match
+        return rule.policy !== "skip";
+      }
+    case "chain":
+      return rule.rules.length > 0 && wouldMatch(rule.rules[0], facts, value);
+    case "all":
+    case "first":
+    case "prioritized":
+    case "collect":
+      return rule.rules.some((child) => wouldMatch(child, facts, value));
+    case "experiment": {
+      const index = variantIndex(rule, facts, value);
+      return index >= 0 && wouldMatch(rule.rules[index], facts, value);
+    }
+    case "each":
+      return listValue(value).some((item, index) =>
+        wouldMatch(
+          rule.rule,
+          rule.mapper ? rule.mapper(facts, item, index) : facts,
+          item
+        )
+      );
+    default:
+      return Boolean(rule.matcher(facts, value));
+  }
+};
+
+// like `some` but awaits the checks one after another
+const someAsync = <Item>(
+  items: Item[],
+  check: (item: Item, index: number) => Promise<boolean>
+): Promise<boolean> =>
+  items.reduce(
+    async (found: Promise<boolean>, item, index) =>
+      (await found) || check(item, index),
+    Promise.resolve(false)
+  );
+
+// `wouldMatch` for async rules
+const wouldMatchAsync = async (
+  rule: AsyncRule,
+  facts: any,
+  value: any
+): Promise<boolean> => {
+  switch (rule.type) {
+    case "injected":
+      return wouldMatchAsync(rule.childRule, await rule.mapper(facts), value);
+    case "transformed":
+    case "repeat":
+      return wouldMatchAsync(rule.rule, facts, value);
+    case "if":
+      return (
+        (await rule.matcher(facts, value)) &&
+        wouldMatchAsync(rule.rule, facts, value)
+      );
+    case "guarded":
+      try {
+        return await wouldMatchAsync(rule.rule, facts, value);
+      } catch (err) {
+        if (rule.policy === "abort") {
+          throw err;
+        }
+        // a fallback counts as a match
+        return rule.policy !== "skip";
+      }
+    case "chain":
+      return (
+        rule.rules.length > 0 && wouldMatchAsync(rule.rules[0], facts, value)
+      );
+    case "all":
+    case "first":
+    case "prioritized":
+    case "collect":
+      return someAsync(rule.rules, (child) =>
+        wouldMatchAsync(child, facts, value)
+      );
+    case "experiment": {
+      const index = variantIndex(rule, facts, value);
+      return index >= 0 && wouldMatchAsync(rule.rules[index], facts, value);
+    }
+    case "each":
+      return someAsync(listValue(value), async (item, index) =>
+        wouldMatchAsync(
+          rule.rule,
+          rule.mapper ? await rule.mapper(facts, item, index) : facts,
+          item
+        )
+      );
+    default:
+      return Boolean(await rule.matcher(facts, value));
+  }
+};
+
+export { iterationLimitError, listValue, wouldMatch, wouldMatchAsync };
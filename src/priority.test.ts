@@ -0,0 +1,34 @@
+import { priorityOrder } from "./priority";
+
+describe("priorityOrder", () => {
+  test("orders the indexes from the highest priority to the lowest", () => {
+    expect(priorityOrder([1, 10, 5])).toEqual([1, 2, 0]);
+    expect(priorityOrder([-1, Infinity, 0, -Infinity])).toEqual([1, 2, 0, 3]);
+  });
+
+  test("keeps the order of the list for the same priority", () => {
+    expect(priorityOrder([1, 2, 1, 2, 1])).toEqual([1, 3, 0, 2, 4]);
+  });
+
+  test("doesn't change the priorities", () => {
+    const priorities = [1, 3, 2];
+    priorityOrder(priorities);
+    expect(priorities).toEqual([1, 3, 2]);
+  });
+
+  test("returns no indexes without priorities", () => {
+    expect(priorityOrder([])).toEqual([]);
+  });
+
+  test("throws for priorities which aren't numbers", () => {
+    expect(() => priorityOrder([1, undefined])).toThrow(
+      "priority of the rule at index 1 must be a number, got undefined"
+    );
+    expect(() => priorityOrder(["2", 1])).toThrow(
+      "priority of the rule at index 0 must be a number, got 2"
+    );
+    expect(() => priorityOrder([NaN])).toThrow(
+      "priority of the rule at index 0 must be a number, got NaN"
+    );
+  });
+});
@@ -0,0 +1,27 @@
+/* PRIORITIES
+ * The child rules of "prioritized" rules are run in the order of their
+ * priorities instead of their order in the list. Shared by all ways of
+ * running rules.
+ */
+
+// the indexes of the child rules in the order they are run: highest priority
+// first, rules with the same priority keep their order in the list
+// throws if a priority isn't a number, e.g. when a computed priority returned
+// nothing
+const priorityOrder = (priorities: unknown[]): number[] => {
+  priorities.forEach((priority, index) => {
+    if (typeof priority !== "number" || Number.isNaN(priority)) {
+      throw new Error(
+        `priority of the rule at index ${index} must be a number, got ${String(
+          priority
+        )}`
+      );
+    }
+  });
+  const numbers = priorities as number[];
+  return numbers
+    .map((_, index) => index)
+    .sort((a, b) => numbers[b] - numbers[a] || a - b);
+};
+
+export { priorityOrder };
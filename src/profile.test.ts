@@ -0,0 +1,210 @@
+import {
+  all,
+  always,
+  applyAll,
+  createProfiler,
+  describeMatcher,
+  describeRule,
+  equals,
+  formatPrometheus,
+  injectFacts,
+  onError,
+  RuleError,
+} from "./index";
+
+type Facts = { country: string };
+
+// the time only moves on when a function takes some milliseconds
+let clock = 0;
+const timer = () => clock;
+const takes =
+  <Args extends any[], Return>(ms: number, fn: (...args: Args) => Return) =>
+  (...args: Args) => {
+    clock += ms;
+    return fn(...args);
+  };
+
+const add = (value: string) => (facts: Facts, list: string[]) =>
+  [...list, value];
+const isCountry = (country: string) => (facts: Facts) =>
+  facts.country === country;
+
+const germany = describeRule(
+  { name: "germany" },
+  {
+    matcher: takes(2, isCountry("DE")),
+    action: takes(3, add("de")),
+  }
+);
+const rule = applyAll([
+  injectFacts(
+    takes(1, (facts: Facts) => facts),
+    germany
+  ),
+  { matcher: takes(5, always), action: add("x") },
+]);
+
+describe("createProfiler", () => {
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  test("runs the rule like run and detailedRun", () => {
+    const profiler = createProfiler(rule, { timer });
+    expect(profiler.run({ country: "DE" }, [])).toEqual([null, ["de", "x"]]);
+    expect(profiler.detailedRun({ country: "AT" })([])).toEqual([
+      null,
+      { foundMatch: true, value: ["x"] },
+    ]);
+  });
+
+  test("measures every function and rule over all runs", () => {
+    const profiler = createProfiler(rule, { timer });
+    profiler.run({ country: "DE" }, []);
+    profiler.run({ country: "AT" }, []);
+    expect(profiler.report()).toEqual({
+      runs: 2,
+      time: 19,
+      rules: [
+        {
+          path: [],
+          type: "all",
+          label: "all",
+          runs: 2,
+          time: 19,
+          selfTime: 0,
+          functions: {},
+        },
+        {
+          path: [0],
+          type: "injected",
+          label: "injected",
+          runs: 2,
+          time: 9,
+          selfTime: 2,
+          functions: { mapper: { calls: 2, time: 2 } },
+        },
+        {
+          path: [0, 0],
+          type: "plain",
+          label: "germany",
+          runs: 2,
+          time: 7,
+          selfTime: 7,
+          functions: {
+            matcher: { calls: 2, time: 4 },
+            action: { calls: 1, time: 3 },
+          },
+        },
+        {
+          path: [1],
+          type: "plain",
+          label: "plain",
+          runs: 2,
+          time: 10,
+          selfTime: 10,
+          functions: {
+            matcher: { calls: 2, time: 10 },
+            action: { calls: 2, time: 0 },
+          },
+        },
+      ],
+    });
+  });
+
+  test("measures rules which threw", () => {
+    const failing = {
+      matcher: always,
+      action: takes(4, (): string[] => {
+        throw new Error("BOOM!");
+      }),
+    };
+    const profiler = createProfiler(
+      applyAll([
+        onError("skip", failing),
+        { matcher: always, action: add("x") },
+      ]),
+      { timer }
+    );
+    expect(profiler.run({ country: "DE" }, [])).toEqual([null, ["x"]]);
+    const [err] = createProfiler(failing, { timer }).run({ country: "DE" }, []);
+    expect(err?.message).toContain("BOOM!");
+    expect(
+      profiler.report().rules.map(({ path, runs, time }) => [path, runs, time])
+    ).toEqual([
+      [[], 1, 4],
+      [[0], 1, 4],
+      [[0, 0], 1, 4],
+      [[1], 1, 0],
+    ]);
+  });
+
+  test("keeps the name and properties of the measured functions", () => {
+    const isBig = () => true;
+    const failing = {
+      matcher: all([equals("facts.country", "DE"), isBig]),
+      action: (): string[] => {
+        throw new Error("BOOM!");
+      },
+    };
+    const [err] = createProfiler(failing, { timer }).run({ country: "DE" }, []);
+    expect(err).toBeInstanceOf(RuleError);
+    const { matcher } = (err as RuleError).rule as typeof failing;
+    expect(matcher).not.toBe(failing.matcher);
+    expect(describeMatcher(matcher)).toBe(
+      '(facts.country equals "DE" and isBig)'
+    );
+  });
+
+  test("measures nothing and leaves the rule untouched while disabled", () => {
+    const { matcher } = germany;
+    const profiler = createProfiler(rule, { timer, enabled: false });
+    expect(profiler.run({ country: "DE" }, [])).toEqual([null, ["de", "x"]]);
+    expect(profiler.report().runs).toBe(0);
+    profiler.setEnabled(true);
+    profiler.run({ country: "DE" }, []);
+    expect(profiler.report().runs).toBe(1);
+    expect(germany.matcher).toBe(matcher);
+  });
+});
+
+describe("formatPrometheus", () => {
+  test("formats the report as counters in seconds", () => {
+    const profiler = createProfiler(
+      describeRule(
+        { name: 'say "hi"' },
+        { matcher: takes(2, always), action: add("hi") }
+      ),
+      { timer }
+    );
+    profiler.run({ country: "DE" }, []);
+    expect(formatPrometheus(profiler.report(), "offers")).toBe(
+      [
+        "# HELP offers_runs_total How often the rule tree was run.",
+        "# TYPE offers_runs_total counter",
+        "offers_runs_total 1",
+        "# HELP offers_seconds_total Time spent running the rule tree.",
+        "# TYPE offers_seconds_total counter",
+        "offers_seconds_total 0.002",
+        "# HELP offers_rule_runs_total How often a rule was run.",
+        "# TYPE offers_rule_runs_total counter",
+        'offers_rule_runs_total{path="",rule="say \\"hi\\"",type="plain"} 1',
+        "# HELP offers_rule_seconds_total Time spent in a rule including its child rules.",
+        "# TYPE offers_rule_seconds_total counter",
+        'offers_rule_seconds_total{path="",rule="say \\"hi\\"",type="plain"} 0.002',
+        "# HELP offers_rule_self_seconds_total Time spent in a rule without its child rules.",
+        "# TYPE offers_rule_self_seconds_total counter",
+        'offers_rule_self_seconds_total{path="",rule="say \\"hi\\"",type="plain"} 0.002',
+        "# HELP offers_function_calls_total How often a matcher, action, mapper or transformer was called.",
+        "# TYPE offers_function_calls_total counter",
+        'offers_function_calls_total{path="",rule="say \\"hi\\"",function="matcher"} 1',
+        'offers_function_calls_total{path="",rule="say \\"hi\\"",function="action"} 1',
+        "# HELP offers_function_seconds_total Time spent in a matcher, action, mapper or transformer.",
+        "# TYPE offers_function_seconds_total counter",
+        'offers_function_seconds_total{path="",rule="say \\"hi\\"",function="matcher"} 0.002',
+        'offers_function_seconds_total{path="",rule="say \\"hi\\"",function="action"} 0',
+        "",
+      ].join("\n")
+    );
+  });
+});
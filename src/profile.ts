@@ -0,0 +1,312 @@
+import type { RunHooks } from "./hooks";
+import { runFromRoot } from "./run";
+import type { RulePath } from "./tree";
+import { listRules, mapRules, ruleLabel } from "./tree";
+import type { Rule, RuleType, RunOutput, RunWithFacts } from "./types";
+import curryToArity from "./util";
+
+/* PROFILING
+ * A profiler runs a rule like `detailedRun` and measures how often every
+ * matcher, action, mapper and transformer of the tree is called and how long
+ * they take, aggregated over all runs. It works on an instrumented copy of
+ * the tree, so the rule itself stays untouched and runs which aren't
+ * profiled cost nothing extra.
+ */
+
+type ProfiledFunction = "matcher" | "action" | "mapper" | "transformer";
+
+// the functions of every type of rule that are measured
+const profiledFunctions: Partial<Record<RuleType, ProfiledFunction[]>> = {
+  plain: ["matcher", "action"],
+  if: ["matcher"],
+  injected: ["mapper"],
+  transformed: ["transformer"],
+  each: ["mapper"],
+};
+
+// returns the current time in milliseconds, only differences between two
+// calls are used
+type Timer = () => number;
+
+//  - calls: how often the function was called
+//  - time: the milliseconds spent in the function
+type FunctionProfile = {
+  calls: number;
+  time: number;
+};
+
+//  - runs: how often the rule was run
+//  - time: the milliseconds spent in the rule including its child rules
+//  - selfTime: the milliseconds spent in the rule itself, without the time
+//      spent in its child rules
+//  - functions: the profile of every function of the rule
+type RuleProfile = {
+  path: RulePath;
+  type: RuleType;
+  label: string;
+  runs: number;
+  time: number;
+  selfTime: number;
+  functions: Partial<Record<ProfiledFunction, FunctionProfile>>;
+};
+
+// the JSON report of a profiler
+//  - runs: how often the rule was run
+//  - time: the milliseconds spent in all runs
+//  - rules: the profile of every rule of the tree, depth first
+type ProfileReport = {
+  runs: number;
+  time: number;
+  rules: RuleProfile[];
+};
+
+//  - timer: used to measure the time, `performance.now` by default
+//  - enabled: when `false` the rule is run without measuring anything until
+//      `setEnabled(true)` is called, `true` by default
+type ProfilerOptions = {
+  timer?: Timer;
+  enabled?: boolean;
+};
+
+type Profiler<Facts, Result, Input> = {
+  run: RunWithFacts<Facts, Input, RunOutput<"value", Result | Input>>;
+  detailedRun: RunWithFacts<
+    Facts,
+    Input,
+    RunOutput<"detailed", Result | Input>
+  >;
+  setEnabled: (enabled: boolean) => void;
+  report: () => ProfileReport;
+};
+
+// a rule that is being run, `childTime` is the time spent in its child
+// rules so far
+type Frame = {
+  index: number;
+  start: number;
+  childTime: number;
+};
+
+// the timed function keeps the name and properties of the function, like
+// the descriptor of a condition, so the rules of errors can still be described
+const timed = (fn: Function, profile: FunctionProfile, timer: Timer) =>
+  Object.defineProperty(
+    Object.assign((...args: unknown[]) => {
+      const start = timer();
+      try {
+        return fn(...args);
+      } finally {
+        // eslint-disable-next-line no-param-reassign
+        profile.calls += 1;
+        // eslint-disable-next-line no-param-reassign
+        profile.time += timer() - start;
+      }
+    }, fn),
+    "name",
+    { value: fn.name }
+  );
+
+// create a profiler for a rule, it has the same `run` and `detailedRun` as
+// the library but only takes the facts and initial value
+// every run is measured, `report` returns the measurements of all runs so far
+// example:
+//   const profiler = createProfiler(rule);
+//   requests.forEach(({ facts }) => profiler.run(facts, []));
+//   console.log(formatPrometheus(profiler.report()));
+const createProfiler = <Facts, Result, Input>(
+  rule: Rule<Facts, Result, Input>,
+  { timer = () => performance.now(), enabled = true }: ProfilerOptions = {}
+): Profiler<Facts, Result, Input> => {
+  const entries = listRules(rule);
+  const indexes = new Map(
+    entries.map(({ path }, index) => [path.join("."), index])
+  );
+  const profiles: RuleProfile[] = entries.map(({ rule: current, path }) => {
+    const type = current.type || "plain";
+    return {
+      path,
+      type,
+      label: ruleLabel(current),
+      runs: 0,
+      time: 0,
+      selfTime: 0,
+      functions: Object.fromEntries(
+        (profiledFunctions[type] || [])
+          .filter((kind) => typeof (current as any)[kind] === "function")
+          .map((kind) => [kind, { calls: 0, time: 0 }])
+      ),
+    };
+  });
+  const instrumented = mapRules(rule as Rule, (current, path) => {
+    const { functions } = profiles[indexes.get(path.join(".")) as number];
+    return Object.entries(functions).reduce(
+      (copy, [kind, profile]) => ({
+        ...copy,
+        [kind]: timed((current as any)[kind], profile, timer),
+      }),
+      current
+    );
+  });
+  let runs = 0;
+  let time = 0;
+  let isEnabled = enabled;
+
+  // rules which threw never reach `afterRule`, they are finished along with
+  // the next rule at or above their depth
+  const stack: Frame[] = [];
+  const finish = (depth: number) => {
+    while (stack.length > depth) {
+      const { index, start, childTime } = stack.pop() as Frame;
+      const elapsed = timer() - start;
+      profiles[index].time += elapsed;
+      profiles[index].selfTime += elapsed - childTime;
+      if (stack.length > 0) {
+        stack[stack.length - 1].childTime += elapsed;
+      }
+    }
+  };
+  const hooks: RunHooks = {
+    beforeRule: ({ path }) => {
+      finish(path.length);
+      const index = indexes.get(path.join(".")) as number;
+      profiles[index].runs += 1;
+      stack.push({ index, start: timer(), childTime: 0 });
+    },
+    afterRule: ({ path }) => {
+      finish(path.length);
+    },
+  };
+
+  const detailedRun = curryToArity((facts: Facts, initialValue: Input) => {
+    if (!isEnabled) {
+      return runFromRoot(rule, facts as any, initialValue);
+    }
+    const start = timer();
+    const output = runFromRoot(instrumented, facts as any, initialValue, hooks);
+    finish(0);
+    runs += 1;
+    time += timer() - start;
+    return output;
+  }, 2);
+
+  return {
+    run: curryToArity((facts: Facts, initialValue: Input) => {
+      const [err, result] = detailedRun(facts, initialValue);
+      return result ? [null, result.value] : [err, null];
+    }, 2),
+    detailedRun,
+    setEnabled: (value: boolean) => {
+      isEnabled = value;
+    },
+    report: () => ({
+      runs,
+      time,
+      rules: profiles.map((profile) => ({
+        ...profile,
+        functions: Object.fromEntries(
+          Object.entries(profile.functions).map(([kind, measured]) => [
+            kind,
+            { ...measured },
+          ])
+        ),
+      })),
+    }),
+  };
+};
+
+// label values may contain any character except that backslashes, double
+// quotes and line feeds have to be escaped
+const labelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const labels = (values: Record<string, string>) =>
+  `{${Object.entries(values)
+    .map(([name, value]) => `${name}="${labelValue(value)}"`)
+    .join(",")}}`;
+
+// format a profile report in the text format of Prometheus, times are
+// reported in seconds, `prefix` starts the name of every metric
+// example:
+//   app.get("/metrics", (req, res) =>
+//     res.type("text/plain").send(formatPrometheus(profiler.report()))
+//   );
+const formatPrometheus = (
+  report: ProfileReport,
+  prefix = "composable_rules"
+): string => {
+  const metric = (
+    name: string,
+    help: string,
+    samples: [Record<string, string>, number][]
+  ) => [
+    `# HELP ${prefix}_${name} ${help}`,
+    `# TYPE ${prefix}_${name} counter`,
+    ...samples.map(
+      ([values, sample]) =>
+        `${prefix}_${name}${
+          Object.keys(values).length > 0 ? labels(values) : ""
+        } ${sample}`
+    ),
+  ];
+  const ruleLabels = ({ path, label, type }: RuleProfile) => ({
+    path: path.join("."),
+    rule: label,
+    type,
+  });
+  const functions = report.rules.flatMap((profile) =>
+    Object.entries(profile.functions).map(
+      ([kind, measured]): [Record<string, string>, FunctionProfile] => [
+        { path: profile.path.join("."), rule: profile.label, function: kind },
+        measured as FunctionProfile,
+      ]
+    )
+  );
+  return [
+    ...metric("runs_total", "How often the rule tree was run.", [
+      [{}, report.runs],
+    ]),
+    ...metric("seconds_total", "Time spent running the rule tree.", [
+      [{}, report.time / 1000],
+    ]),
+    ...metric(
+      "rule_runs_total",
+      "How often a rule was run.",
+      report.rules.map((profile) => [ruleLabels(profile), profile.runs])
+    ),
+    ...metric(
+      "rule_seconds_total",
+      "Time spent in a rule including its child rules.",
+      report.rules.map((profile) => [ruleLabels(profile), profile.time / 1000])
+    ),
+    ...metric(
+      "rule_self_seconds_total",
+      "Time spent in a rule without its child rules.",
+      report.rules.map((profile) => [
+        ruleLabels(profile),
+        profile.selfTime / 1000,
+      ])
+    ),
+    ...metric(
+      "function_calls_total",
+      "How often a matcher, action, mapper or transformer was called.",
+      functions.map(([values, measured]) => [values, measured.calls])
+    ),
+    ...metric(
+      "function_seconds_total",
+      "Time spent in a matcher, action, mapper or transformer.",
+      functions.map(([values, measured]) => [values, measured.time / 1000])
+    ),
+    "",
+  ].join("\n");
+};
+
+export { createProfiler, formatPrometheus };
+export type {
+  FunctionProfile,
+  ProfiledFunction,
+  Profiler,
+  ProfilerOptions,
+  ProfileReport,
+  RuleProfile,
+  Timer,
+};
@@ -0,0 +1,684 @@
+import { collectedOutput } from "./collect";
+import { handleError, RuleError, toRuleError } from "./errors";
+import { variantIndex } from "./experiment";
+import type { MatcherFailure } from "./explain";
+import { explainMatcher } from "./explain";
+import type { RunHooks } from "./hooks";
+import { iterationLimitError, listValue, wouldMatch } from "./iterate";
+import { priorityOrder } from "./priority";
+import type { RuleSchemas } from "./schema";
+import { schemaMatcher, schemaTransformer, validateSchemas } from "./schema";
+import { originalRule, strictHooks, strictRule } from "./strict";
+import type { RulePath } from "./tree";
+import { ruleLabel } from "./tree";
+import type {
+  CollectRule,
+  EachRule,
+  ExperimentRule,
+  IfRule,
+  PlainRule,
+  PrioritizedRule,
+  RepeatRule,
+  Rule,
+  RuleResult,
+  RuleTrace,
+  Runner,
+  RunOptions,
+  RunOutput,
+} from "./types";
+import curryToArity from "./util";
+
+/* RUNNING RULES
+ * Once you have a rule it can be run with the `run()` function
+ *
+ */
+
+// passed down while running a rule
+//  - path: the position of the rule in the tree that is run
+//  - trace: when set, a trace node for the rule is appended to it
+//  - node: the trace node of the rule that is run, when tracing
+//  - hooks: called for every rule, see `withHooks`
+//  - variants: the variants chosen by the experiments of the run so far
+//  - explanations: when set, why the matchers failed is appended to it
+type RunContext = {
+  path: RulePath;
+  trace?: RuleTrace[];
+  node?: RuleTrace;
+  hooks?: RunHooks;
+  variants: Record<string, string>;
+  explanations?: MatcherFailure[];
+};
+
+// the context for the child rule at `index`, see `childRules`
+const enter = (context: RunContext, index: number): RunContext => ({
+  ...context,
+  path: [...context.path, index],
+});
+
+// like run() but keeps track of whether a matcher of a rule passed
+// so we can stop execution early when using "firstMatch" rules
+// for "injected" or "transformed" rules: they count as matched when the contained rule matches
+// for "all" or "first" rules: at least one matcher needs to have matched
+// for simple rules the matcher needs to have matched
+// anything thrown is wrapped in a `RuleError` pointing to the rule that threw
+const runHelp = (
+  rule: Rule,
+  facts: object,
+  state: RuleResult,
+  { path, trace, hooks, variants, explanations }: RunContext
+): RuleResult => {
+  const node: RuleTrace | undefined = trace && {
+    type: rule.type || "plain",
+    id: rule.id,
+    name: rule.name,
+    foundMatch: false,
+    valueBefore: state.value,
+    valueAfter: state.value,
+    children: [],
+  };
+  if (node) {
+    trace?.push(node);
+  }
+  const hookContext = hooks && { rule, path, facts, value: state.value };
+  let result: RuleResult;
+  try {
+    result =
+      (hookContext && hooks?.beforeRule?.(hookContext)) ||
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      runRule(rule, facts, state, {
+        path,
+        trace: node?.children,
+        node,
+        hooks,
+        variants,
+        explanations,
+      });
+    if (hookContext && hooks?.afterRule) {
+      result = hooks.afterRule({ ...hookContext, result }) || result;
+    }
+  } catch (err) {
+    // in strict mode `rule` is a guarded copy, errors name the original
+    const error = toRuleError(
+      err,
+      originalRule(rule),
+      path,
+      facts,
+      state.value
+    );
+    // errors of rules further down the tree were passed to `onError` already
+    const recovered =
+      hookContext &&
+      !(err instanceof RuleError) &&
+      hooks?.onError?.({ ...hookContext, error });
+    if (!recovered) {
+      if (node) {
+        node.error = error;
+      }
+      throw error;
+    }
+    result = recovered;
+  }
+  if (!node) {
+    return result;
+  }
+  node.foundMatch = result.foundMatch;
+  node.valueAfter = result.value;
+  // the sub rule of an "if" rule is only run when its matcher passed and
+  // child rules of "first" and "chain" rules are only run until one
+  // matches or doesn't match respectively, so it's always the last one
+  const lastIndex = node.children.length - 1;
+  switch (node.type) {
+    case "plain":
+      node.matcherPassed = result.foundMatch;
+      break;
+    case "if":
+      node.matcherPassed = lastIndex >= 0;
+      break;
+    case "first":
+      if (result.foundMatch) {
+        node.matchedIndex = lastIndex;
+      }
+      break;
+    case "chain":
+      if (lastIndex >= 0 && !node.children[lastIndex].foundMatch) {
+        node.stoppedAt = lastIndex;
+      }
+      break;
+    case "prioritized":
+      // the children are run in priority order, see `runRulesByPriority`
+      if (
+        rule.type === "prioritized" &&
+        rule.mode === "first" &&
+        result.foundMatch
+      ) {
+        node.matchedIndex = node.order?.[lastIndex];
+      }
+      break;
+    default:
+  }
+  return result;
+};
+
+const runRule = (
+  rule: Rule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  switch (rule.type) {
+    case "injected":
+      return runHelp(
+        rule.childRule,
+        rule.mapper(facts),
+        state,
+        enter(context, 0)
+      );
+    case "transformed": {
+      const { foundMatch, value } = runHelp(
+        rule.rule,
+        facts,
+        state,
+        enter(context, 0)
+      );
+      return {
+        foundMatch,
+        value: foundMatch ? rule.transformer(value) : value,
+      };
+    }
+    case "if": {
+      const subRule = rule.rule;
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return matches(rule, facts, state, context)
+        ? runHelp(subRule, facts, state, enter(context, 0))
+        : { foundMatch: false, value: state.value };
+    }
+    case "guarded":
+      try {
+        return runHelp(rule.rule, facts, state, enter(context, 0));
+      } catch (err) {
+        return handleError(rule.policy, err as RuleError, state);
+      }
+    case "all":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runAllMatchingRules(rule.rules, facts, state, context);
+    case "first":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runFirstMatchingRule(rule.rules, facts, state, context);
+    case "chain":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runChainOfRules(rule.rules, facts, state, context);
+    case "prioritized":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runRulesByPriority(rule, facts, state, context);
+    case "experiment":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runExperiment(rule, facts, state, context);
+    case "collect":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runCollectedRules(rule, facts, state, context);
+    case "each":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runForEachItem(rule, facts, state, context);
+    case "repeat":
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return runRepeatedly(rule, facts, state, context);
+    default:
+      // eslint-disable-next-line @typescript-eslint/no-use-before-define
+      return matches(rule, facts, state, context)
+        ? // eslint-disable-next-line @typescript-eslint/no-use-before-define
+          applyAction(rule, facts, state, context)
+        : { foundMatch: false, value: state.value };
+  }
+};
+
+// run the matcher of a plain or "if" rule and its `afterMatcher` hook,
+// explain why it failed when explaining
+// when explaining, the matcher is evaluated once by `explainMatcher`, a
+// matcher failed by the hook is explained as failed with the hook as reason
+const matches = (
+  rule: PlainRule | IfRule,
+  facts: object,
+  state: RuleResult,
+  { path, hooks, explanations }: RunContext
+): boolean => {
+  const explanation =
+    explanations && explainMatcher(rule.matcher, facts, state.value);
+  const passed = explanation
+    ? explanation.passed
+    : rule.matcher(facts, state.value);
+  const replacement = hooks?.afterMatcher?.({
+    rule,
+    path,
+    facts,
+    value: state.value,
+    passed,
+  });
+  const result = typeof replacement === "boolean" ? replacement : passed;
+  if (!result && explanations && explanation) {
+    explanations.push({
+      path,
+      label: ruleLabel(rule),
+      explanation: passed
+        ? {
+            ...explanation,
+            passed: false,
+            reason: "failed by the afterMatcher hook",
+          }
+        : explanation,
+    });
+  }
+  return result;
+};
+
+// run the action of a plain rule and its `afterAction` hook
+const applyAction = (
+  rule: PlainRule,
+  facts: object,
+  state: RuleResult,
+  { path, hooks }: RunContext
+): RuleResult => {
+  const result = { foundMatch: true, value: rule.action(facts, state.value) };
+  return (
+    hooks?.afterAction?.({ rule, path, facts, value: state.value, result }) ||
+    result
+  );
+};
+
+const runAllMatchingRules = (
+  rules: Rule[],
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  const reducer = (
+    currentState: RuleResult,
+    currentRule: Rule,
+    index: number
+  ) => {
+    const newState = runHelp(
+      currentRule,
+      facts,
+      currentState,
+      enter(context, index)
+    );
+    return {
+      foundMatch: currentState.foundMatch || newState.foundMatch,
+      value: newState.value,
+    };
+  };
+  return rules.reduce(reducer, state);
+};
+
+const runFirstMatchingRule = (
+  rules: Rule[],
+  facts: object,
+  state: RuleResult,
+  context: RunContext,
+  index = 0
+): RuleResult => {
+  const [nextRule, ...remainingRules] = rules;
+  if (!nextRule) {
+    return state;
+  }
+  const { foundMatch, value } = runHelp(
+    nextRule,
+    facts,
+    state,
+    enter(context, index)
+  );
+  return foundMatch
+    ? { foundMatch, value }
+    : runFirstMatchingRule(remainingRules, facts, state, context, index + 1);
+};
+
+const runChainOfRules = (
+  rules: Rule[],
+  facts: object,
+  state: RuleResult,
+  context: RunContext,
+  index = 0
+): RuleResult => {
+  const [nextRule, ...remainingRules] = rules;
+  if (!nextRule) {
+    return state;
+  }
+  const { foundMatch, value } = runHelp(
+    nextRule,
+    facts,
+    state,
+    enter(context, index)
+  );
+  return foundMatch
+    ? runChainOfRules(
+        remainingRules,
+        facts,
+        { foundMatch, value },
+        context,
+        index + 1
+      )
+    : state;
+};
+
+// child rules of "prioritized" rules are run like the ones of "first" or
+// "all" rules, but highest priority first
+const runRulesByPriority = (
+  rule: PrioritizedRule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  const priorities = rule.priorities.map((priority) =>
+    typeof priority === "function" ? priority(facts) : priority
+  );
+  const order = priorityOrder(priorities);
+  const { node } = context;
+  if (node) {
+    node.priorities = priorities;
+    node.order = order;
+  }
+  const runAt = (index: number, currentState: RuleResult) =>
+    runHelp(rule.rules[index], facts, currentState, enter(context, index));
+  if (rule.mode === "all") {
+    return order.reduce((currentState, index) => {
+      const newState = runAt(index, currentState);
+      return {
+        foundMatch: currentState.foundMatch || newState.foundMatch,
+        value: newState.value,
+      };
+    }, state);
+  }
+  let position = 0;
+  while (position < order.length) {
+    const { foundMatch, value } = runAt(order[position], state);
+    if (foundMatch) {
+      return { foundMatch, value };
+    }
+    position += 1;
+  }
+  return state;
+};
+
+// only the variant the value at the key of the experiment is assigned to is
+// run, nothing is run when the key is missing
+const runExperiment = (
+  rule: ExperimentRule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  const index = variantIndex(rule, facts, state.value);
+  if (index < 0) {
+    return { foundMatch: false, value: state.value };
+  }
+  const variant = rule.variants[index];
+  const { node, variants } = context;
+  variants[rule.experiment] = variant;
+  if (node) {
+    node.variant = variant;
+    node.order = [index];
+  }
+  return runHelp(rule.rules[index], facts, state, enter(context, index));
+};
+
+// every child rule of a "collect" rule receives the incoming value, the
+// outputs of the matching ones are combined by its reducer, when none of
+// them matched the value stays unchanged and the reducer isn't called
+const runCollectedRules = (
+  rule: CollectRule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  const outputs = rule.rules.flatMap((child, index) => {
+    const { foundMatch, value } = runHelp(
+      child,
+      facts,
+      state,
+      enter(context, index)
+    );
+    return foundMatch ? [collectedOutput(child, index, value)] : [];
+  });
+  if (outputs.length === 0) {
+    return { foundMatch: false, value: state.value };
+  }
+  return {
+    foundMatch: true,
+    value: rule.reducer ? rule.reducer(outputs, state.value) : outputs,
+  };
+};
+
+// the child rule of an "each" rule is run once for every item of the list
+// with the item as value, items it doesn't match stay unchanged, the trace
+// has a child for every item which all map to the one child rule
+const runForEachItem = (
+  rule: EachRule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  const items = listValue(state.value);
+  const { node } = context;
+  if (node) {
+    node.order = items.map(() => 0);
+  }
+  let foundMatch = false;
+  const value = items.map((item, index) => {
+    const result = runHelp(
+      rule.rule,
+      rule.mapper ? rule.mapper(facts, item, index) : facts,
+      { foundMatch: false, value: item },
+      enter(context, 0)
+    );
+    foundMatch = foundMatch || result.foundMatch;
+    return result.value;
+  });
+  return foundMatch
+    ? { foundMatch, value }
+    : { foundMatch, value: state.value };
+};
+
+// the child rule of a "repeat" rule is run on its own output until it
+// doesn't match, like a chain of copies of it, it matches when the first
+// run matched, throws when it would still match after `maxIterations` runs
+// every run starts unmatched, so the match of the run before doesn't count
+// the limit is checked with `wouldMatch`, the action isn't run once more
+const runRepeatedly = (
+  rule: RepeatRule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext
+): RuleResult => {
+  const { node } = context;
+  let { value } = state;
+  for (let iterations = 0; ; iterations += 1) {
+    if (iterations === rule.maxIterations) {
+      if (wouldMatch(rule.rule, facts, value)) {
+        throw iterationLimitError(rule.maxIterations);
+      }
+      return { foundMatch: true, value };
+    }
+    if (node) {
+      node.order = [...(node.order || []), 0];
+    }
+    const result = runHelp(
+      rule.rule,
+      facts,
+      { foundMatch: false, value },
+      enter(context, 0)
+    );
+    if (!result.foundMatch) {
+      return { foundMatch: iterations > 0, value };
+    }
+    value = result.value;
+  }
+};
+
+// the result of a run, along with the chosen variants if experiments were run
+const withVariants = (
+  result: RuleResult,
+  variants: Record<string, string>
+): RuleResult =>
+  Object.keys(variants).length > 0 ? { ...result, variants } : result;
+
+// run the root rule, checking the facts and initial value against the schemas
+// of the run before and the output of the rule after, mismatches and
+// malformed schemas are reported as errors of the root rule
+const runRoot = (
+  rule: Rule,
+  facts: object,
+  state: RuleResult,
+  context: RunContext,
+  schemas?: RuleSchemas
+): RuleResult => {
+  if (!schemas) {
+    return runHelp(rule, facts, state, context);
+  }
+  const check = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (err) {
+      throw toRuleError(err, originalRule(rule), [], facts, state.value);
+    }
+  };
+  check(() => validateSchemas(schemas));
+  check(() => schemaMatcher(schemas)(facts, state.value));
+  const result = runHelp(rule, facts, state, context);
+  const { output } = schemas;
+  if (output && result.foundMatch) {
+    check(() => schemaTransformer(output)(result.value));
+  }
+  return result;
+};
+
+// the result of a run, along with why matchers failed when explaining
+const withExplanations = (
+  result: RuleResult,
+  explanations?: MatcherFailure[]
+): RuleResult =>
+  explanations && explanations.length > 0
+    ? { ...result, explanations }
+    : result;
+
+// like run but with a more detailed return value
+// Instead of the plain value it returns an object with the the following shape:
+//    { value: <value>, foundMatch: <> }
+//    - value: the actual value built-up by the rules, or `null` if no rule matched
+//        note that unlike `run` this used `null` instead of the orginal value
+//        when no rule matches
+//    - foundMatch: is a boolean which indicates whether any rule in this run matched
+//    - variants: only set when experiments were run, the name of the variant
+//        chosen by every experiment, like { checkout: "one-page" }
+//    - explanations: only set when run with `{ explain: true }` after the
+//        initial value, why the matchers of plain and "if" rules failed, e.g.
+//        to answer why a rule didn't apply:
+//        [{ path: [0, 1], label: "free shipping", explanation: <ConditionExplanation> }]
+// with `{ strict: true }` after the initial value, the facts and values can't
+// be changed by the rules, trying it fails the run with a `MutationError`
+// naming the rule and the property, see ./strict.ts
+// with `{ schemas }` the facts, the initial value and the output are checked
+// like `withSchema` does, malformed schemas are returned as errors too
+const detailedRun: Runner<"detailed"> = curryToArity(
+  (rule: Rule, facts: object, initialValue: any, options?: RunOptions) =>
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    runFromRoot(rule, facts, initialValue, undefined, options),
+  3
+);
+
+// run a rule like `detailedRun`, optionally with hooks
+const runFromRoot = (
+  rule: Rule,
+  facts: object,
+  initialValue: any,
+  hooks?: RunHooks,
+  { explain = false, strict = false, schemas }: RunOptions = {}
+): RunOutput<"detailed", any> => {
+  const state = { foundMatch: false, value: initialValue };
+  const variants = {};
+  const explanations: MatcherFailure[] | undefined = explain ? [] : undefined;
+  try {
+    const result = runRoot(
+      strict ? strictRule(rule) : rule,
+      facts,
+      state,
+      {
+        path: [],
+        hooks: strict && hooks ? strictHooks(hooks) : hooks,
+        variants,
+        explanations,
+      },
+      schemas
+    );
+    return [
+      null,
+      withExplanations(withVariants(result, variants), explanations),
+    ];
+  } catch (err) {
+    return [err as RuleError, null];
+  }
+};
+
+// run a rule and record its trace, the trace is returned even when the rule
+// threw so tooling can see how far the run got
+const runWithTrace = (
+  rule: Rule,
+  facts: object,
+  initialValue: any,
+  hooks?: RunHooks,
+  { explain = false, strict = false, schemas }: RunOptions = {}
+): [RuleError, null, RuleTrace] | [null, RuleResult, RuleTrace] => {
+  const state = { foundMatch: false, value: initialValue };
+  const trace: RuleTrace[] = [];
+  const variants = {};
+  const explanations: MatcherFailure[] | undefined = explain ? [] : undefined;
+  try {
+    const result = runRoot(
+      strict ? strictRule(rule) : rule,
+      facts,
+      state,
+      {
+        path: [],
+        trace,
+        hooks: strict && hooks ? strictHooks(hooks) : hooks,
+        variants,
+        explanations,
+      },
+      schemas
+    );
+    return [
+      null,
+      withExplanations(withVariants(result, variants), explanations),
+      trace[0],
+    ];
+  } catch (err) {
+    return [err as RuleError, null, trace[0]];
+  }
+};
+
+// like detailedRun but additionally returns a trace of the run, a tree
+// mirroring the structure of the rule which records for every rule that was
+// run whether it matched and the value before and after running it.
+// Its return value looks like this:
+//    { value: <value>, foundMatch: <>, trace: <RuleTrace> }
+const tracedRun: Runner<"traced"> = curryToArity(
+  (rule: Rule, facts: object, initialValue: any, options?: RunOptions) => {
+    const [err, result, trace] = runWithTrace(
+      rule,
+      facts,
+      initialValue,
+      undefined,
+      options
+    );
+    return result ? [null, { ...result, trace }] : [err, null];
+  },
+  3
+);
+
+const run: Runner<"value"> = curryToArity(
+  (rule: Rule, facts: object, initialValue: any, options?: RunOptions) => {
+    const [err, result] = detailedRun(rule, facts, initialValue, options);
+    return result ? [null, result.value] : [err, null];
+  },
+  3
+);
+
+export { run, detailedRun, tracedRun, runFromRoot, runWithTrace, withVariants };
@@ -0,0 +1,172 @@
+import {
+  activeDuring,
+  applyAll,
+  applyFirst,
+  fixedClock,
+  isScheduleActive,
+  run,
+  scheduled,
+  scheduledRules,
+  scheduleOf,
+} from "./index";
+
+const add = (value: string) => (facts: unknown, list: string[]) =>
+  [...list, value];
+const rule = (value: string) => ({ matcher: () => true, action: add(value) });
+
+describe("isScheduleActive", () => {
+  test("checks start and end, both included", () => {
+    const schedule = {
+      start: "2024-07-01T00:00:00Z",
+      end: new Date("2024-08-31T23:59:59Z"),
+    };
+    expect(isScheduleActive(schedule, "2024-07-01T00:00:00Z")).toBe(true);
+    expect(isScheduleActive(schedule, "2024-08-31T23:59:59Z")).toBe(true);
+    expect(isScheduleActive(schedule, "2024-06-30T23:59:59Z")).toBe(false);
+    expect(isScheduleActive(schedule, Date.UTC(2024, 8))).toBe(false);
+  });
+
+  test("checks weekdays and months in the time zone", () => {
+    // Friday 23:30 in UTC is already Saturday in Berlin
+    const date = "2024-05-31T23:30:00Z";
+    expect(isScheduleActive({ weekdays: ["sat", "sun"] }, date)).toBe(false);
+    expect(
+      isScheduleActive(
+        { weekdays: ["sat", "sun"], timeZone: "Europe/Berlin" },
+        date
+      )
+    ).toBe(true);
+    expect(isScheduleActive({ months: [5] }, date)).toBe(true);
+    expect(
+      isScheduleActive({ months: [5], timeZone: "Europe/Berlin" }, date)
+    ).toBe(false);
+  });
+
+  test("checks the time of day, windows may span midnight", () => {
+    const opening = { timeOfDay: { from: "09:00", to: "17:30" } };
+    expect(isScheduleActive(opening, "2024-05-31T09:00:00Z")).toBe(true);
+    expect(isScheduleActive(opening, "2024-05-31T17:29:00Z")).toBe(true);
+    expect(isScheduleActive(opening, "2024-05-31T17:30:00Z")).toBe(false);
+    const night = {
+      timeOfDay: { from: "22:00", to: "06:00" },
+      timeZone: "America/New_York",
+    };
+    expect(isScheduleActive(night, "2024-05-31T03:00:00Z")).toBe(true);
+    expect(isScheduleActive(night, "2024-05-31T12:00:00Z")).toBe(false);
+  });
+
+  test("is never active for invalid dates", () => {
+    expect(isScheduleActive({}, "someday")).toBe(false);
+  });
+});
+
+describe("activeDuring", () => {
+  test("creates a matcher driven by the clock", () => {
+    const matcher = activeDuring(
+      { months: [7, 8] },
+      (facts: { currentDate: string }) => facts.currentDate
+    );
+    expect(matcher({ currentDate: "2024-07-15" }, null)).toBe(true);
+    expect(matcher({ currentDate: "2024-09-15" }, null)).toBe(false);
+    expect(scheduleOf(matcher)).toEqual({ months: [7, 8] });
+  });
+
+  test("creates one formatter for every time zone", () => {
+    const DateTimeFormat = jest.spyOn(Intl, "DateTimeFormat");
+    const clock = (facts: { currentDate: string }) => facts.currentDate;
+    const matcher = activeDuring(
+      { months: [7], timeZone: "Asia/Tokyo" },
+      clock
+    );
+    activeDuring({ weekdays: ["sat"], timeZone: "Asia/Tokyo" }, clock);
+    expect(matcher({ currentDate: "2024-07-15" }, null)).toBe(true);
+    expect(matcher({ currentDate: "2024-06-30T15:00:00Z" }, null)).toBe(true);
+    expect(DateTimeFormat).toHaveBeenCalledTimes(1);
+    DateTimeFormat.mockRestore();
+  });
+
+  test("uses the system time by default", () => {
+    const month = new Date().getUTCMonth() + 1;
+    expect(activeDuring({ months: [month] })(null, null)).toBe(true);
+  });
+
+  test("throws for malformed schedules", () => {
+    expect(() => activeDuring({ start: "someday" })).toThrow(
+      "schedule.start must be a valid date"
+    );
+    expect(() => activeDuring({ weekdays: ["monday" as any] })).toThrow(
+      'schedule.weekdays must only contain mon, tue, wed, thu, fri, sat, sun, got "monday"'
+    );
+    expect(() => activeDuring({ months: [0] })).toThrow(
+      "schedule.months must only contain numbers from 1 to 12, got 0"
+    );
+    expect(() =>
+      activeDuring({ timeOfDay: { from: "9:00", to: "17:00" } })
+    ).toThrow(
+      'schedule.timeOfDay.from must be a time like "09:30", got "9:00"'
+    );
+    expect(() => activeDuring({ timeZone: "Mars/Olympus" })).toThrow(
+      'schedule.timeZone "Mars/Olympus" is unknown'
+    );
+  });
+});
+
+describe("scheduled", () => {
+  const clock = fixedClock("2024-07-01T12:00:00Z");
+
+  test("runs the rule only while the schedule is active", () => {
+    const summer = scheduled(
+      { months: [7, 8] },
+      rule("lemonade"),
+      (facts: { currentDate: Date }) => facts.currentDate
+    );
+    expect(run(summer, { currentDate: new Date("2024-07-01") }, [])).toEqual([
+      null,
+      ["lemonade"],
+    ]);
+    expect(run(summer, { currentDate: new Date("2024-12-01") }, [])).toEqual([
+      null,
+      [],
+    ]);
+    expect(
+      run(scheduled({ months: [12] }, rule("christmas"), clock), null, [])
+    ).toEqual([null, []]);
+  });
+});
+
+describe("scheduledRules", () => {
+  const clock = fixedClock("2024-07-01T12:00:00Z");
+  const campaigns = applyFirst([
+    scheduled({ months: [12] }, rule("christmas"), clock),
+    scheduled(
+      { months: [7, 8] },
+      applyAll([
+        scheduled({ weekdays: ["sat", "sun"] }, rule("weekend"), clock),
+        rule("summer"),
+      ]),
+      clock
+    ),
+    scheduled({ months: [12] }, applyAll([rule("gifts")]), clock),
+  ]);
+
+  test("lists scheduled rules and whether they are active at a time", () => {
+    const entries = scheduledRules(campaigns, "2024-07-06T12:00:00Z");
+    expect(entries.map(({ path, active }) => [path, active])).toEqual([
+      [[0], false],
+      [[1], true],
+      [[1, 0, 0], true],
+      [[2], false],
+    ]);
+    expect(entries[0].schedule).toEqual({ months: [12] });
+  });
+
+  test("rules inside of inactive scheduled rules are inactive", () => {
+    const entries = scheduledRules(campaigns, "2024-12-07T12:00:00Z");
+    expect(entries.map(({ active }) => active)).toEqual([
+      true,
+      false,
+      false,
+      true,
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import type { RulePath } from "./tree";
+import { listRules } from "./tree";
+import type { AsyncRule, Matcher } from "./types";
+
+/* SCHEDULES
+ * Seasonal campaigns and opening hours activate rules only at certain times.
+ * A schedule describes these times, a clock tells the current time. Clocks
+ * are passed in, so rules can be tested at any time without mocking dates.
+ */
+
+type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+// when a rule is active, every given part of a schedule has to match
+//  - start, end: the first and last instant the rule is active, both included
+//  - weekdays: the days of the week, like ["sat", "sun"]
+//  - months: the months of the year, from 1 (January) to 12 (December)
+//  - timeOfDay: like { from: "09:00", to: "17:30" }, `to` is excluded,
+//      windows where `to` is before `from` span midnight
+//  - timeZone: the IANA time zone of weekdays, months and times of day,
+//      like "Europe/Berlin", UTC by default
+type Schedule = {
+  start?: Date | string | number;
+  end?: Date | string | number;
+  weekdays?: Weekday[];
+  months?: number[];
+  timeOfDay?: { from: string; to: string };
+  timeZone?: string;
+};
+
+// tells the current time, it receives the facts so the time can also be
+// taken from them, like `(facts) => facts.currentDate`
+type Clock<Facts = any> = (facts: Facts) => Date | string | number;
+
+type ScheduledRuleEntry<R extends AsyncRule = AsyncRule> = {
+  rule: R;
+  path: RulePath;
+  schedule: Schedule;
+  active: boolean;
+};
+
+const weekdays: Weekday[] = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+// matchers created by `activeDuring` and their schedules
+const schedules = new WeakMap<Function, Schedule>();
+
+const systemClock: Clock = () => new Date();
+
+// a clock which always tells the same time, e.g. for tests
+const fixedClock =
+  (date: Date | string | number): Clock =>
+  () =>
+    date;
+
+const toTime = (date: Date | string | number) => new Date(date).getTime();
+
+// minutes since midnight of a time like "09:30"
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// creating a formatter is slow, so there is one for every time zone,
+// created when a schedule with the time zone is validated
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// throws if the time zone is unknown
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  const known = formatters.get(timeZone);
+  if (known) {
+    return known;
+  }
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  });
+  formatters.set(timeZone, formatter);
+  return formatter;
+};
+
+// the local weekday, month and time of an instant in a time zone
+const localTime = (date: Date, timeZone = "UTC") => {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, value])
+  );
+  return {
+    weekday: parts.weekday.toLowerCase() as Weekday,
+    month: Number(parts.month),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+// throws if the schedule is malformed
+const validateSchedule = (schedule: Schedule): void => {
+  (["start", "end"] as const).forEach((key) => {
+    const date = schedule[key];
+    if (date !== undefined && Number.isNaN(toTime(date))) {
+      throw new Error(`schedule.${key} must be a valid date`);
+    }
+  });
+  schedule.weekdays?.forEach((weekday) => {
+    if (!weekdays.includes(weekday)) {
+      throw new Error(
+        `schedule.weekdays must only contain ${weekdays.join(
+          ", "
+        )}, got ${JSON.stringify(weekday)}`
+      );
+    }
+  });
+  schedule.months?.forEach((month) => {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error(
+        `schedule.months must only contain numbers from 1 to 12, got ${month}`
+      );
+    }
+  });
+  if (schedule.timeOfDay) {
+    (["from", "to"] as const).forEach((key) => {
+      const time = schedule.timeOfDay?.[key];
+      if (typeof time !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+        throw new Error(
+          `schedule.timeOfDay.${key} must be a time like "09:30", got ${JSON.stringify(
+            time
+          )}`
+        );
+      }
+    });
+  }
+  try {
+    localTime(new Date(0), schedule.timeZone);
+  } catch (err) {
+    throw new Error(`schedule.timeZone "${schedule.timeZone}" is unknown`);
+  }
+};
+
+// whether a schedule is active at a given time
+const isScheduleActive = (
+  schedule: Schedule,
+  date: Date | string | number
+): boolean => {
+  const time = toTime(date);
+  if (Number.isNaN(time)) {
+    return false;
+  }
+  if (
+    (schedule.start !== undefined && time < toTime(schedule.start)) ||
+    (schedule.end !== undefined && time > toTime(schedule.end))
+  ) {
+    return false;
+  }
+  const local = localTime(new Date(time), schedule.timeZone);
+  if (schedule.weekdays && !schedule.weekdays.includes(local.weekday)) {
+    return false;
+  }
+  if (schedule.months && !schedule.months.includes(local.month)) {
+    return false;
+  }
+  if (schedule.timeOfDay) {
+    const from = toMinutes(schedule.timeOfDay.from);
+    const to = toMinutes(schedule.timeOfDay.to);
+    return from <= to
+      ? local.minutes >= from && local.minutes < to
+      : local.minutes >= from || local.minutes < to;
+  }
+  return true;
+};
+
+// a matcher which passes while the schedule is active according to the clock
+// throws if the schedule is malformed
+// example:
+//   activeDuring({ months: [7, 8] }, (facts) => facts.currentDate)
+const activeDuring = <Facts>(
+  schedule: Schedule,
+  clock: Clock<Facts> = systemClock
+): Matcher<Facts, any> => {
+  validateSchedule(schedule);
+  const matcher = (facts: Facts) => isScheduleActive(schedule, clock(facts));
+  schedules.set(matcher, schedule);
+  return matcher;
+};
+
+// the schedule of a matcher created by `activeDuring`, `undefined` otherwise
+const scheduleOf = (matcher: unknown): Schedule | undefined =>
+  typeof matcher === "function" ? schedules.get(matcher) : undefined;
+
+// all rules of a tree whose matcher was created by `activeDuring`, like the
+// rules created by `scheduled`, and whether they are active at the given time
+// a rule inside of another scheduled rule is only active when both are
+// example:
+//   scheduledRules(campaigns, "2024-12-24T18:00:00Z").filter(({ active }) => active)
+const scheduledRules = <R extends AsyncRule>(
+  rule: R,
+  date: Date | string | number
+): ScheduledRuleEntry<R>[] => {
+  const entries = listRules(rule).flatMap(({ rule: current, path }) => {
+    const schedule =
+      current.type === undefined ||
+      current.type === "plain" ||
+      current.type === "if"
+        ? scheduleOf(current.matcher)
+        : undefined;
+    return schedule
+      ? [
+          {
+            rule: current,
+            path,
+            schedule,
+            active: isScheduleActive(schedule, date),
+          },
+        ]
+      : [];
+  });
+  const isInside = (path: RulePath, outer: RulePath) =>
+    outer.length < path.length &&
+    outer.every((index, position) => path[position] === index);
+  return entries.map((entry) => ({
+    ...entry,
+    active:
+      entry.active &&
+      entries.every(
+        (outer) => outer.active || !isInside(entry.path, outer.path)
+      ),
+  }));
+};
+
+export {
+  activeDuring,
+  fixedClock,
+  isScheduleActive,
+  scheduledRules,
+  scheduleOf,
+  systemClock,
+};
+export type { Clock, Schedule, ScheduledRuleEntry, Weekday };
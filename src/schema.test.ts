@@ -0,0 +1,246 @@
+import type { Rule, Schema } from "./index";
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyToEach,
+  checkSchema,
+  compile,
+  detailedRun,
+  RuleError,
+  run,
+  runAsync,
+  schemaHooks,
+  SchemaValidationError,
+  tracedRun,
+  transformOutput,
+  withHooks,
+  withSchema,
+} from "./index";
+
+type Facts = { user: { age: number; country: string } };
+
+const factsSchema: Schema = {
+  type: "object",
+  properties: {
+    user: {
+      type: "object",
+      properties: {
+        age: "number",
+        country: { type: "enum", values: ["DE", "AT"] },
+        tags: { type: "array", items: "string", optional: true },
+      },
+    },
+  },
+};
+
+const isAdult = (facts: Facts) => facts.user.age >= 18;
+const add = (value: any) => (facts: Facts, list: string[]) => [...list, value];
+
+const adult = { user: { age: 42, country: "DE" } };
+
+const rule = applyAll([
+  { matcher: isAdult, action: add("adult") },
+  { matcher: always, action: add("all") },
+]);
+
+describe("checkSchema", () => {
+  test("lists every part of the data which doesn't match", () => {
+    expect(
+      checkSchema(factsSchema, { user: { age: "42", tags: ["a", 1] } })
+    ).toEqual([
+      { path: "facts.user.age", expected: "a number", actual: '"42"' },
+      {
+        path: "facts.user.country",
+        expected: 'one of "DE", "AT"',
+        actual: "undefined",
+      },
+      { path: "facts.user.tags.1", expected: "a string", actual: "1" },
+    ]);
+    expect(checkSchema(factsSchema, { user: [] })).toEqual([
+      { path: "facts.user", expected: "an object", actual: "an array" },
+    ]);
+  });
+
+  test("accepts matching data", () => {
+    expect(
+      checkSchema(factsSchema, { user: { age: 42, country: "DE", more: 1 } })
+    ).toEqual([]);
+    expect(checkSchema({ type: "any", nullable: true }, null, "value")).toEqual(
+      []
+    );
+    expect(checkSchema("any", undefined, "value")).toEqual([
+      { path: "value", expected: "defined", actual: "undefined" },
+    ]);
+  });
+});
+
+describe("withSchema", () => {
+  test("runs the rule when the facts match", () => {
+    const checked = withSchema({ facts: factsSchema }, rule);
+    expect(run(checked, adult, [])).toEqual([null, ["adult", "all"]]);
+  });
+
+  test("returns the mismatches instead of running the rule", () => {
+    const checked = withSchema({ facts: factsSchema }, rule);
+    const [err] = run(checked, { user: { country: "AT" } } as any, []);
+    expect(err).toBeInstanceOf(RuleError);
+    expect((err as RuleError).path).toEqual([]);
+    expect(err?.message).toBe(
+      'rule "if" at [] failed: facts.user.age must be a number, got undefined'
+    );
+    expect(err?.cause).toBeInstanceOf(SchemaValidationError);
+    expect((err?.cause as SchemaValidationError).issues).toEqual([
+      { path: "facts.user.age", expected: "a number", actual: "undefined" },
+    ]);
+  });
+
+  test("checks the value and the output of the rule", () => {
+    const checked = withSchema(
+      {
+        value: { type: "array", items: "string" },
+        output: { type: "array", items: "string" },
+      },
+      applyAll([
+        { matcher: always, action: add("ok") },
+        { matcher: always, action: add(42) },
+      ])
+    );
+    expect(run(checked, adult, "nope" as any)[0]?.message).toBe(
+      'rule "if" at [] failed: value must be an array, got "nope"'
+    );
+    const [err] = detailedRun(checked, adult, []);
+    expect((err as RuleError).path).toEqual([0]);
+    expect(err?.message).toBe(
+      'rule "transformed" at [0] failed: output.1 must be a string, got 42'
+    );
+    expect((compile(checked)(adult, [])[0] as RuleError).path).toEqual([0]);
+  });
+
+  test("only checks the output the rule passes on", () => {
+    const wrapItems: Rule<Facts, number[][], number[]> = applyToEach({
+      matcher: always,
+      action: (f: Facts, n: number) => [n],
+    });
+    const count: Rule<Facts, number, number[][]> = transformOutput(
+      (lists: number[][]) => lists.length,
+      { matcher: always, action: (f: Facts, list: number[][]) => list }
+    );
+    const checked = withSchema(
+      { output: "number" },
+      applyChain<Facts, any>([wrapItems, count])
+    );
+    expect(run(checked, adult, [1, 2] as any)).toEqual([null, 2]);
+    expect(
+      run(withSchema({ output: "string" }, rule), adult, [])[0]?.message
+    ).toBe(
+      'rule "transformed" at [] failed: output must be a string, got an array'
+    );
+    expect(
+      run(
+        withSchema(
+          { output: "string" },
+          { matcher: () => false, action: add(1) }
+        ),
+        adult,
+        []
+      )
+    ).toEqual([null, []]);
+  });
+
+  test("checks outputs of async rules once they resolve", async () => {
+    const checked = withSchema(
+      { output: { type: "array", items: "string" } },
+      { matcher: always, action: async () => [42] }
+    );
+    const [err] = await runAsync(checked, null, []);
+    expect(err?.message).toBe(
+      'rule "transformed" at [] failed: output.0 must be a string, got 42'
+    );
+  });
+
+  test("throws for malformed schemas", () => {
+    expect(() => withSchema({ facts: "numbr" as any }, rule)).toThrow(
+      'schema of facts must be one of string, number, boolean, any, array, object, enum or an object with such a type, got "numbr"'
+    );
+    expect(() =>
+      withSchema(
+        { facts: { type: "object", properties: { user: "obj" as any } } },
+        rule
+      )
+    ).toThrow("schema of facts.user must be one of");
+  });
+});
+
+describe("schemaHooks", () => {
+  test("check the facts, initial value and output of every run", () => {
+    const checked = withHooks(
+      schemaHooks({ facts: factsSchema, output: { type: "array" } })
+    );
+    expect(checked.run(rule, adult, [])).toEqual([null, ["adult", "all"]]);
+    const [err] = checked.run(rule, { user: { age: 42 } } as any, []);
+    expect((err?.cause as SchemaValidationError).issues).toEqual([
+      {
+        path: "facts.user.country",
+        expected: 'one of "DE", "AT"',
+        actual: "undefined",
+      },
+    ]);
+    const [outputErr] = checked.run(
+      { matcher: always, action: () => "nope" },
+      adult,
+      []
+    );
+    expect(outputErr?.message).toBe(
+      'rule "plain" at [] failed: output must be an array, got "nope"'
+    );
+    expect(
+      checked.run(
+        applyAll<Facts, any>([
+          { matcher: always, action: () => "nope" },
+          { matcher: always, action: () => ["ok"] },
+        ]),
+        adult,
+        []
+      )
+    ).toEqual([null, ["ok"]]);
+  });
+});
+
+describe("the schemas option", () => {
+  test("checks the facts, initial value and output of the run", () => {
+    const schemas = { facts: factsSchema, output: { type: "array" } } as const;
+    expect(run(rule, adult, [], { schemas })).toEqual([null, ["adult", "all"]]);
+    const [err] = detailedRun(rule, { user: { age: 42 } } as any, [], {
+      schemas,
+    });
+    expect(err?.message).toBe(
+      'rule "all" at [] failed: facts.user.country must be one of "DE", "AT", got undefined'
+    );
+    expect((err?.cause as SchemaValidationError).issues).toHaveLength(1);
+    const [outputErr] = tracedRun(
+      { matcher: always, action: () => "nope" },
+      adult,
+      [],
+      { schemas }
+    );
+    expect(outputErr?.message).toBe(
+      'rule "plain" at [] failed: output must be an array, got "nope"'
+    );
+  });
+
+  test("returns an error for malformed schemas", () => {
+    const [err, result] = run(rule, adult, [], {
+      schemas: { value: "nope" as any },
+    });
+    expect(result).toBe(null);
+    expect(err).toBeInstanceOf(RuleError);
+    expect(err?.message).toMatch(
+      'rule "all" at [] failed: schema of value must be one of'
+    );
+    const [tracedErr] = tracedRun(rule, adult, [], {
+      schemas: { output: { type: "list" } as any },
+    });
+    expect(tracedErr?.message).toMatch("schema of output must be one of");
+  });
+});
@@ -0,0 +1,260 @@
+import type { RunHooks } from "./hooks";
+import type { AsyncMatcher, Transformer } from "./types";
+
+/* SCHEMAS
+ * Rules usually expect the facts to have a certain shape. When upstream data
+ * misses a field, a matcher deep down the tree throws a TypeError which
+ * doesn't tell what was wrong. A schema describes the expected shape, so the
+ * facts, the incoming value and the output of a rule can be checked before
+ * anything relies on them. Schemas are plain data like conditions.
+ */
+
+type Primitive = string | number | boolean | null;
+
+// the expected shape of some data, the names of the basic types are a
+// shorthand for `{ type: name }`
+//  - optional: `undefined` is allowed as well
+//  - nullable: `null` is allowed as well
+//  - array: every item has to match `items`
+//  - object: every property has to match its schema in `properties`,
+//      properties which are not listed are allowed
+//  - enum: has to be one of `values`
+type Schema =
+  | "string"
+  | "number"
+  | "boolean"
+  | "any"
+  | ({ optional?: boolean; nullable?: boolean } & (
+      | { type: "string" | "number" | "boolean" | "any" }
+      | { type: "array"; items?: Schema }
+      | { type: "object"; properties?: Record<string, Schema> }
+      | { type: "enum"; values: Primitive[] }
+    ));
+
+// the schemas a rule is checked against
+//  - facts: the facts the rule receives
+//  - value: the value the rule receives, the initial value for the rule which
+//      is run
+//  - output: the value the rule passes on when it matched, the rules inside
+//      of it may produce values of other types
+type RuleSchemas = {
+  facts?: Schema;
+  value?: Schema;
+  output?: Schema;
+};
+
+// a part of some data which doesn't match its schema, `path` is dot
+// separated like the paths of conditions, e.g. `facts.user.age`
+type SchemaIssue = {
+  path: string;
+  expected: string;
+  actual: string;
+};
+
+const schemaTypes = [
+  "string",
+  "number",
+  "boolean",
+  "any",
+  "array",
+  "object",
+  "enum",
+];
+
+const issueMessage = ({ path, expected, actual }: SchemaIssue) =>
+  `${path} must be ${expected}, got ${actual}`;
+
+// thrown when data doesn't match its schema, the runners return it as the
+// `cause` of a `RuleError`
+//  - issues: every part of the data which doesn't match
+class SchemaValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(issues.map(issueMessage).join("; "));
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+  }
+}
+
+const describeActual = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (typeof value === "object") {
+    return "an object";
+  }
+  return JSON.stringify(value) ?? typeof value;
+};
+
+// throws if a schema is malformed, `path` is the path of the data it checks
+const validateSchema = (schema: Schema, path: string): void => {
+  const descriptor = typeof schema === "string" ? { type: schema } : schema;
+  if (
+    typeof descriptor !== "object" ||
+    descriptor === null ||
+    !schemaTypes.includes(descriptor.type)
+  ) {
+    throw new Error(
+      `schema of ${path} must be one of ${schemaTypes.join(
+        ", "
+      )} or an object with such a type, got ${JSON.stringify(schema)}`
+    );
+  }
+  if (descriptor.type === "array" && descriptor.items !== undefined) {
+    validateSchema(descriptor.items, `${path}[]`);
+  }
+  if (descriptor.type === "object") {
+    Object.entries(descriptor.properties ?? {}).forEach(([key, property]) =>
+      validateSchema(property, `${path}.${key}`)
+    );
+  }
+  if (descriptor.type === "enum" && !Array.isArray(descriptor.values)) {
+    throw new Error(`schema of ${path} must list the enum values`);
+  }
+};
+
+// every part of `data` which doesn't match the schema, `path` is the path of
+// the data in the issues
+// example:
+//   checkSchema({ type: "object", properties: { age: "number" } }, {}, "facts.user")
+//   // [{ path: "facts.user.age", expected: "a number", actual: "undefined" }]
+const checkSchema = (
+  schema: Schema,
+  data: unknown,
+  path = "facts"
+): SchemaIssue[] => {
+  const descriptor = typeof schema === "string" ? { type: schema } : schema;
+  if (
+    (data === undefined && "optional" in descriptor && descriptor.optional) ||
+    (data === null && "nullable" in descriptor && descriptor.nullable)
+  ) {
+    return [];
+  }
+  const issue = (expected: string) => [
+    { path, expected, actual: describeActual(data) },
+  ];
+  switch (descriptor.type) {
+    case "any":
+      return data === undefined ? issue("defined") : [];
+    case "number":
+      return typeof data === "number" && !Number.isNaN(data)
+        ? []
+        : issue("a number");
+    case "string":
+    case "boolean":
+      // eslint-disable-next-line valid-typeof
+      return typeof data === descriptor.type
+        ? []
+        : issue(`a ${descriptor.type}`);
+    case "enum":
+      return descriptor.values.includes(data as Primitive)
+        ? []
+        : issue(
+            `one of ${descriptor.values
+              .map((value) => JSON.stringify(value))
+              .join(", ")}`
+          );
+    case "array":
+      if (!Array.isArray(data)) {
+        return issue("an array");
+      }
+      return descriptor.items
+        ? data.flatMap((item, index) =>
+            checkSchema(descriptor.items as Schema, item, `${path}.${index}`)
+          )
+        : [];
+    default:
+      if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        return issue("an object");
+      }
+      return Object.entries(descriptor.properties ?? {}).flatMap(
+        ([key, property]) =>
+          checkSchema(
+            property,
+            (data as Record<string, unknown>)[key],
+            `${path}.${key}`
+          )
+      );
+  }
+};
+
+// throws a `SchemaValidationError` if the data doesn't match the schema
+const assertSchema = (
+  schema: Schema | undefined,
+  data: unknown,
+  path: string
+) => {
+  const issues = schema ? checkSchema(schema, data, path) : [];
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+};
+
+// throws if any of the schemas is malformed
+const validateSchemas = ({ facts, value, output }: RuleSchemas) => {
+  if (facts !== undefined) {
+    validateSchema(facts, "facts");
+  }
+  if (value !== undefined) {
+    validateSchema(value, "value");
+  }
+  if (output !== undefined) {
+    validateSchema(output, "output");
+  }
+};
+
+// a matcher which passes when the facts and the value match their schemas
+// and throws a `SchemaValidationError` otherwise, see `withSchema`
+const schemaMatcher =
+  ({ facts, value }: RuleSchemas): AsyncMatcher =>
+  (currentFacts, currentValue) => {
+    assertSchema(facts, currentFacts, "facts");
+    assertSchema(value, currentValue, "value");
+    return true;
+  };
+
+// a transformer which checks the output of a rule against the schema and
+// passes it on unchanged, see `withSchema`
+const schemaTransformer =
+  (output: Schema): Transformer =>
+  (result) => {
+    assertSchema(output, result, "output");
+    return result;
+  };
+
+// hooks which check the facts and the initial value before the run and its
+// output when the rule matched, pass them to `withHooks` to check every rule
+// run with the returned runners
+// throws if any of the schemas is malformed
+// example:
+//   const { run } = withHooks(schemaHooks({ facts: factsSchema }));
+const schemaHooks = (schemas: RuleSchemas): RunHooks => {
+  validateSchemas(schemas);
+  return {
+    beforeRule: ({ path, facts, value }) => {
+      if (path.length === 0) {
+        assertSchema(schemas.facts, facts, "facts");
+        assertSchema(schemas.value, value, "value");
+      }
+    },
+    afterRule: ({ path, result }) => {
+      if (path.length === 0 && result.foundMatch) {
+        assertSchema(schemas.output, result.value, "output");
+      }
+    },
+  };
+};
+
+export {
+  checkSchema,
+  schemaHooks,
+  schemaMatcher,
+  schemaTransformer,
+  SchemaValidationError,
+  validateSchemas,
+};
+export type { RuleSchemas, Schema, SchemaIssue };
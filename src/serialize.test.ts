@@ -0,0 +1,559 @@
+import { equals, exists, inRollout } from "./conditions";
+import type { Rule } from "./index";
+import {
+  all,
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyFirstByPriority,
+  applyIf,
+  applyRepeatedly,
+  applyToEach,
+  collectAll,
+  concatOutputs,
+  describeRule,
+  detailedRun,
+  experiment,
+  injectFacts,
+  not,
+  onError,
+  rollout,
+  run,
+  transformOutput,
+} from "./index";
+import {
+  createRegistry,
+  deserialize,
+  RuleSerializationError,
+  serialize,
+} from "./serialize";
+
+const registry = createRegistry({
+  matchers: {
+    always: () => always,
+    isCountry:
+      ({ country }) =>
+      (facts: any) =>
+        facts.country === country,
+    hasLength:
+      ({ length }) =>
+      (facts: any, list: any[]) =>
+        list.length === length,
+  },
+  actions: {
+    add:
+      ({ value }) =>
+      (facts: any, list: any[]) =>
+        list.concat(value),
+  },
+  mappers: {
+    setCountry:
+      ({ country }) =>
+      (facts: any) => ({ ...facts, country }),
+  },
+  transformers: {
+    reverse: () => (list: any[]) => [...list].reverse(),
+  },
+  priorities: {
+    score: () => (facts: any) => facts.score,
+  },
+  reducers: {
+    concat: () => concatOutputs,
+  },
+});
+
+const add = (value: string) => registry.action("add", { value });
+const isCountry = (country: string) =>
+  registry.matcher("isCountry", { country });
+
+const rule = applyAll([
+  describeRule(
+    { id: "de", name: "Germany", tags: ["country"] },
+    { matcher: isCountry("DE"), action: add("de") }
+  ),
+  applyFirst([
+    { matcher: isCountry("AT"), action: add("at") },
+    applyIf(registry.matcher("hasLength", { length: 1 }), {
+      matcher: registry.matcher("always"),
+      action: add("one"),
+    }),
+  ]),
+  injectFacts(
+    registry.mapper("setCountry", { country: "AT" }),
+    transformOutput(
+      registry.transformer("reverse"),
+      applyChain([{ matcher: isCountry("AT"), action: add("at") }])
+    )
+  ),
+]);
+
+describe("createRegistry", () => {
+  test("creates functions from registered factories", () => {
+    expect(isCountry("DE")({ country: "DE" }, [])).toBe(true);
+    expect(isCountry("DE")({ country: "AT" }, [])).toBe(false);
+  });
+
+  test("throws for unknown names", () => {
+    expect(() => registry.matcher("isCity")).toThrow(
+      new RuleSerializationError('unknown matcher "isCity"', "")
+    );
+  });
+
+  test("throws if a factory doesn't create a function", () => {
+    const brokenRegistry = createRegistry({
+      matchers: { broken: () => "nope" as any },
+    });
+    expect(() => brokenRegistry.matcher("broken")).toThrow(
+      'matcher "broken" did not create a function'
+    );
+  });
+});
+
+describe("serialize", () => {
+  test("turns a rule into JSON compatible data", () => {
+    const [err, data] = serialize(rule);
+    expect(err).toBe(null);
+    expect(JSON.parse(JSON.stringify(data))).toEqual(data);
+    expect(data).toEqual({
+      type: "all",
+      rules: [
+        {
+          type: "plain",
+          id: "de",
+          name: "Germany",
+          tags: ["country"],
+          matcher: { name: "isCountry", params: { country: "DE" } },
+          action: { name: "add", params: { value: "de" } },
+        },
+        {
+          type: "first",
+          rules: [
+            {
+              type: "plain",
+              matcher: { name: "isCountry", params: { country: "AT" } },
+              action: { name: "add", params: { value: "at" } },
+            },
+            {
+              type: "if",
+              matcher: { name: "hasLength", params: { length: 1 } },
+              rule: {
+                type: "plain",
+                matcher: { name: "always" },
+                action: { name: "add", params: { value: "one" } },
+              },
+            },
+          ],
+        },
+        {
+          type: "injected",
+          mapper: { name: "setCountry", params: { country: "AT" } },
+          rule: {
+            type: "transformed",
+            transformer: { name: "reverse" },
+            rule: {
+              type: "chain",
+              rules: [
+                {
+                  type: "plain",
+                  matcher: { name: "isCountry", params: { country: "AT" } },
+                  action: { name: "add", params: { value: "at" } },
+                },
+              ],
+            },
+          },
+        },
+      ],
+    });
+  });
+
+  test("keeps the policy of rules combined with onError", () => {
+    const guarded = onError({ fallback: ["none"] }, rule);
+    const [, data] = serialize(guarded);
+    expect(data).toMatchObject({
+      type: "guarded",
+      policy: { fallback: ["none"] },
+    });
+    const [, copy] = deserialize(registry, JSON.stringify(data));
+    expect(copy).toMatchObject({
+      type: "guarded",
+      policy: { fallback: ["none"] },
+    });
+  });
+
+  test("keeps the priorities of prioritized rules", () => {
+    const prioritized = applyFirstByPriority([
+      { priority: 5, rule: { matcher: isCountry("DE"), action: add("de") } },
+      { priority: registry.priority("score"), rule },
+    ]);
+    const [, data] = serialize(prioritized);
+    expect(data).toMatchObject({
+      type: "prioritized",
+      mode: "first",
+      priorities: [5, { name: "score" }],
+    });
+    const [, copy] = deserialize(registry, JSON.stringify(data));
+    const facts = { country: "DE", score: 10 };
+    expect(run(copy!, facts, [])).toEqual(run(prioritized, facts, []));
+    expect(run(copy!, { ...facts, score: 1 }, [])).toEqual([null, ["de"]]);
+  });
+
+  test("keeps experiments and rollouts", () => {
+    const split = experiment("checkout", {
+      key: "facts.user.id",
+      variants: [
+        { name: "control", weight: 3, rule },
+        {
+          name: "beta",
+          rule: rollout(
+            50,
+            { key: "facts.user.id", salt: "beta" },
+            { matcher: isCountry("DE"), action: add("beta") }
+          ),
+        },
+      ],
+    });
+    const [, data] = serialize(split);
+    expect(data).toMatchObject({
+      type: "experiment",
+      experiment: "checkout",
+      key: "facts.user.id",
+      salt: "checkout",
+      variants: ["control", "beta"],
+      weights: [3, 1],
+      rules: [
+        { type: "all" },
+        {
+          type: "if",
+          matcher: {
+            condition: inRollout("facts.user.id", 50, "beta").condition,
+          },
+        },
+      ],
+    });
+    const [, copy] = deserialize(registry, JSON.stringify(data));
+    Array.from({ length: 20 }, (_, id) => ({
+      country: "DE",
+      user: { id },
+    })).forEach((facts) =>
+      expect(detailedRun(copy!, facts, [])).toEqual(
+        detailedRun(split, facts, [])
+      )
+    );
+  });
+
+  test("keeps collected rules with and without reducer", () => {
+    const collected = applyAll([
+      collectAll([rule, { matcher: isCountry("DE"), action: add("x") }]),
+      collectAll([rule], registry.reducer("concat")),
+    ]);
+    const [, data] = serialize(collected);
+    expect(data).toMatchObject({
+      rules: [
+        { type: "collect", rules: [{ type: "all" }, { type: "plain" }] },
+        { type: "collect", reducer: { name: "concat" } },
+      ],
+    });
+    expect((data as any).rules[0]).not.toHaveProperty("reducer");
+    const [, copy] = deserialize(registry, JSON.stringify(data));
+    expect(detailedRun(copy!, { country: "DE" }, [])).toEqual(
+      detailedRun(collected, { country: "DE" }, [])
+    );
+  });
+
+  test("keeps rules run for every item and repeated rules", () => {
+    const iterated = applyAll([
+      applyToEach(rule, registry.mapper("setCountry", { country: "DE" })),
+      applyToEach({ matcher: isCountry("AT"), action: add("at") }),
+    ]);
+    const [, data] = serialize(iterated);
+    expect(data).toMatchObject({
+      rules: [
+        { type: "each", mapper: { name: "setCountry" }, rule: { type: "all" } },
+        { type: "each", rule: { type: "plain" } },
+      ],
+    });
+    expect((data as any).rules[1]).not.toHaveProperty("mapper");
+    const [, copy] = deserialize(registry, JSON.stringify(data));
+    expect(detailedRun(copy!, { country: "AT" }, [[], ["x"]])).toEqual(
+      detailedRun(iterated, { country: "AT" }, [[], ["x"]])
+    );
+    const [, repeated] = serialize(
+      applyRepeatedly(3, { matcher: isCountry("DE"), action: add("de") })
+    );
+    expect(repeated).toMatchObject({ type: "repeat", maxIterations: 3 });
+  });
+
+  test("returns an error for functions not created by a registry", () => {
+    const [err, data] = serialize(
+      applyAll([{ matcher: () => true, action: add("x") }])
+    );
+    expect(err).toBeInstanceOf(RuleSerializationError);
+    expect(err?.path).toBe("$.rules[0].matcher");
+    expect(err?.message).toBe(
+      "$.rules[0].matcher: matcher was not created by a registry"
+    );
+    expect(data).toBe(null);
+  });
+
+  test("returns an error for registered functions used in the wrong place", () => {
+    const [err] = serialize({ matcher: add("x"), action: add("x") });
+    expect(err?.message).toBe(
+      '$.matcher: expected a registered matcher but got action "add"'
+    );
+  });
+
+  test("returns other errors as errors of the whole rule", () => {
+    const loop = applyAll<unknown, string[]>([]);
+    loop.rules.push(loop);
+    const [err, data] = serialize(loop);
+    expect(err).toBeInstanceOf(RuleSerializationError);
+    expect(err?.path).toBe("$");
+    expect(err?.cause).toBeInstanceOf(RangeError);
+    expect(data).toBe(null);
+    const [malformedErr] = serialize({ type: "first" } as unknown as Rule);
+    expect(malformedErr).toBeInstanceOf(RuleSerializationError);
+    expect(malformedErr?.cause).toBeInstanceOf(TypeError);
+  });
+});
+
+describe("serializing conditions", () => {
+  const conditionRule = applyIf(all([equals("facts.country", "DE")]), {
+    matcher: not(exists("facts.user")),
+    action: add("guest"),
+  });
+
+  test("conditions are serialized as data", () => {
+    const [err, data] = serialize(conditionRule);
+    expect(err).toBe(null);
+    expect(data).toMatchObject({
+      matcher: {
+        condition: {
+          op: "all",
+          conditions: [{ op: "equals", path: "facts.country", expected: "DE" }],
+        },
+      },
+      rule: {
+        matcher: { condition: { op: "not" } },
+      },
+    });
+  });
+
+  test("conditions round-trip", () => {
+    const [, data] = serialize(conditionRule);
+    const [, restored] = deserialize(registry, JSON.stringify(data));
+    expect(serialize(restored!)).toEqual([null, data]);
+    expect(run(restored!, { country: "DE" }, [])).toEqual([null, ["guest"]]);
+  });
+
+  test("malformed conditions fail with the path of the node", () => {
+    const [, data] = serialize(conditionRule);
+    const [err] = deserialize(
+      registry,
+      JSON.stringify({
+        ...data,
+        matcher: {
+          condition: { op: "in", path: "facts.country", expected: "DE" },
+        },
+      })
+    );
+    expect(err?.message).toBe(
+      "$.matcher: condition.expected must be a list of strings, numbers, booleans or null"
+    );
+  });
+});
+
+describe("deserialize", () => {
+  test("round-trips a serialized rule", () => {
+    const [, data] = serialize(rule);
+    const [err, restored] = deserialize(registry, data!);
+    expect(err).toBe(null);
+    expect(serialize(restored!)).toEqual([null, data]);
+  });
+
+  test("deserialized rules behave like the original rule", () => {
+    const [, data] = serialize(rule);
+    const [, restored] = deserialize(registry, JSON.stringify(data));
+    [{ country: "DE" }, { country: "AT" }, { country: "CH" }].forEach(
+      (facts) => {
+        expect(run(restored!, facts, [])).toEqual(run(rule, facts, []));
+      }
+    );
+  });
+
+  test("keeps the metadata of rules", () => {
+    const [, data] = serialize(rule);
+    const [, restored] = deserialize(registry, data!);
+    expect((restored as any).rules[0]).toMatchObject({
+      id: "de",
+      name: "Germany",
+      tags: ["country"],
+    });
+  });
+
+  const expectError = (data: any, message: string) => {
+    const [err, restored] = deserialize(registry, data);
+    expect(err).toBeInstanceOf(RuleSerializationError);
+    expect(err?.message).toBe(message);
+    expect(restored).toBe(null);
+  };
+
+  test("fails on invalid JSON", () => {
+    const [err] = deserialize(registry, "{ nope");
+    expect(err?.message).toMatch(/^\$: invalid JSON/);
+  });
+
+  test("fails on unknown rule types", () => {
+    expectError(
+      { type: "all", rules: [{ type: "some" }] },
+      '$.rules[0].type: unknown rule type "some"'
+    );
+  });
+
+  test("fails on nodes which are not objects", () => {
+    expectError(
+      { type: "first", rules: [42] },
+      "$.rules[0]: expected a rule object"
+    );
+  });
+
+  test("fails when the list of rules is missing", () => {
+    expectError({ type: "chain" }, "$.rules: expected a list of rules");
+  });
+
+  test("fails on invalid error policies", () => {
+    expectError(
+      { type: "guarded", policy: "ignore", rule: { type: "all", rules: [] } },
+      '$.policy: invalid error policy, expected "abort", "skip" or { "fallback": ... }'
+    );
+  });
+
+  test("fails on malformed prioritized rules", () => {
+    expectError(
+      { type: "prioritized", mode: "best", priorities: [], rules: [] },
+      '$.mode: invalid mode, expected "first" or "all"'
+    );
+    expectError(
+      {
+        type: "prioritized",
+        mode: "all",
+        priorities: [1],
+        rules: [
+          { type: "all", rules: [] },
+          { type: "all", rules: [] },
+        ],
+      },
+      "$.priorities: expected a list with a priority for every rule"
+    );
+  });
+
+  test("fails on invalid maximum iterations", () => {
+    expectError(
+      { type: "repeat", maxIterations: 0, rule: { type: "all", rules: [] } },
+      '$.maxIterations: "maxIterations" must be a whole number of at least 1'
+    );
+  });
+
+  test("fails on malformed experiments", () => {
+    const experimentRule = {
+      type: "experiment",
+      experiment: "checkout",
+      key: "facts.id",
+      salt: "checkout",
+      variants: ["a"],
+      weights: [1],
+      rules: [{ type: "all", rules: [] }],
+    };
+    expectError(
+      { ...experimentRule, key: 42 },
+      '$.key: "key" must be a string'
+    );
+    expectError(
+      { ...experimentRule, variants: ["a", "b"] },
+      "$.variants: expected a list with a variant name for every rule"
+    );
+    expectError(
+      { ...experimentRule, weights: [1, 2] },
+      "$.weights: expected a list with a weight for every rule"
+    );
+    expectError(
+      { ...experimentRule, weights: [-1] },
+      "$.weights: weight of the variant at index 0 must be a number >= 0, got -1"
+    );
+    expectError(
+      { ...experimentRule, weights: [0] },
+      "$.weights: weights of the variants must add up to more than 0"
+    );
+    expectError(
+      { ...experimentRule, key: "user.id" },
+      '$.key: key must be a path starting with "facts" or "value", got "user.id"'
+    );
+  });
+
+  test("fails on unknown function names", () => {
+    expectError(
+      {
+        type: "if",
+        matcher: { name: "isCity" },
+        rule: {
+          type: "plain",
+          matcher: { name: "always" },
+          action: { name: "add" },
+        },
+      },
+      '$.matcher: unknown matcher "isCity"'
+    );
+  });
+
+  test("fails on missing function references", () => {
+    expectError(
+      { type: "plain", matcher: { name: "always" } },
+      '$.action: invalid action reference, expected { "name": "..." }'
+    );
+  });
+
+  test("fails on missing child rules", () => {
+    expectError(
+      { type: "transformed", transformer: { name: "reverse" } },
+      "$.rule: expected a rule object"
+    );
+  });
+
+  test("fails when a factory throws", () => {
+    const [err] = deserialize(registry, {
+      type: "injected",
+      mapper: { name: "setCountry" },
+      rule: {
+        type: "plain",
+        matcher: { name: "always" },
+        action: { name: "add" },
+      },
+    });
+    expect(err?.message).toMatch(
+      /^\$\.mapper: mapper "setCountry" could not be created/
+    );
+    expect(err?.cause).toBeInstanceOf(Error);
+  });
+
+  test("fails on invalid conditions", () => {
+    const [err] = deserialize(registry, {
+      type: "plain",
+      matcher: { condition: { op: "exists", path: "country" } },
+      action: { name: "add" },
+    });
+    expect(err?.message).toBe(
+      '$.matcher: condition.path must start with "facts" or "value"'
+    );
+  });
+
+  test("fails on malformed metadata", () => {
+    expectError(
+      { type: "all", rules: [], id: 1 },
+      '$.id: "id" must be a string'
+    );
+    expectError(
+      { type: "all", rules: [], tags: "a" },
+      '$.tags: "tags" must be a list of strings'
+    );
+  });
+});
@@ -0,0 +1,687 @@
+import type { ConditionDescriptor } from "./conditions";
+import { condition, isCondition } from "./conditions";
+import { isErrorPolicy } from "./errors";
+import { checkKey, checkWeights } from "./experiment";
+import type {
+  Action,
+  ErrorPolicy,
+  Mapper,
+  Matcher,
+  Priority,
+  PriorityMode,
+  Reducer,
+  Rule,
+  RuleMeta,
+  Transformer,
+} from "./types";
+
+/* SERIALIZING RULES
+ * Rules contain functions, so they can't be stored as JSON directly. Instead
+ * matchers, actions, mappers and transformers are created by a registry
+ * from a registered name and JSON parameters. Functions created this way
+ * remember their name and parameters, so a rule built from them can be
+ * serialized into plain JSON and deserialized again using the same registry.
+ */
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+
+// a reference to a registered function in a serialized rule
+type RegisteredRef = {
+  name: string;
+  params?: Json;
+};
+
+// conditions (see ./conditions.ts) are data already and are stored as they are
+type FunctionRef = RegisteredRef | { condition: ConditionDescriptor };
+
+type FunctionKind =
+  | "matcher"
+  | "action"
+  | "mapper"
+  | "transformer"
+  | "priority"
+  | "reducer";
+
+type SerializedRule = RuleMeta &
+  (
+    | { type: "plain"; matcher: FunctionRef; action: FunctionRef }
+    | { type: "injected"; mapper: FunctionRef; rule: SerializedRule }
+    | { type: "transformed"; transformer: FunctionRef; rule: SerializedRule }
+    | { type: "if"; matcher: FunctionRef; rule: SerializedRule }
+    | { type: "guarded"; policy: ErrorPolicy<Json>; rule: SerializedRule }
+    | { type: "all" | "first" | "chain"; rules: SerializedRule[] }
+    | {
+        type: "prioritized";
+        mode: PriorityMode;
+        priorities: (number | FunctionRef)[];
+        rules: SerializedRule[];
+      }
+    | {
+        type: "experiment";
+        experiment: string;
+        key: string;
+        salt: string;
+        variants: string[];
+        weights: number[];
+        rules: SerializedRule[];
+      }
+    | { type: "collect"; reducer?: FunctionRef; rules: SerializedRule[] }
+    | { type: "each"; mapper?: FunctionRef; rule: SerializedRule }
+    | { type: "repeat"; maxIterations: number; rule: SerializedRule }
+  );
+
+type ComputedPriority = Exclude<Priority, number>;
+
+// factories create a function from the JSON parameters of a reference
+type Factory<Fn> = (params?: any) => Fn;
+
+type RegistryDefinition = {
+  matchers?: Record<string, Factory<Matcher>>;
+  actions?: Record<string, Factory<Action<any, any, any>>>;
+  mappers?: Record<string, Factory<Mapper>>;
+  transformers?: Record<string, Factory<Transformer>>;
+  priorities?: Record<string, Factory<ComputedPriority>>;
+  reducers?: Record<string, Factory<Reducer>>;
+};
+
+type Registry = {
+  definition: RegistryDefinition;
+  matcher: (name: string, params?: Json) => Matcher;
+  action: (name: string, params?: Json) => Action<any, any, any>;
+  mapper: (name: string, params?: Json) => Mapper;
+  transformer: (name: string, params?: Json) => Transformer;
+  priority: (name: string, params?: Json) => ComputedPriority;
+  reducer: (name: string, params?: Json) => Reducer;
+};
+
+// returned as error by `serialize` and `deserialize`, thrown by registries
+// `path` points to the offending part of the rule, like `$.rules[1].matcher`
+// `cause` is set when the error was caused by another one, like a factory
+// which threw or a rule which contains itself
+class RuleSerializationError extends Error {
+  path: string;
+
+  constructor(message: string, path: string, cause?: unknown) {
+    super(
+      path ? `${path}: ${message}` : message,
+      cause === undefined ? undefined : { cause }
+    );
+    this.name = "RuleSerializationError";
+    this.path = path;
+  }
+}
+
+// functions created by a registry and the reference they were created from
+const references = new WeakMap<
+  Function,
+  RegisteredRef & { kind: FunctionKind }
+>();
+
+const registryKeys: Record<FunctionKind, keyof RegistryDefinition> = {
+  matcher: "matchers",
+  action: "actions",
+  mapper: "mappers",
+  transformer: "transformers",
+  priority: "priorities",
+  reducer: "reducers",
+};
+
+const createFunction = (
+  definition: RegistryDefinition,
+  kind: FunctionKind,
+  ref: RegisteredRef,
+  path: string
+) => {
+  const factory = definition[registryKeys[kind]]?.[ref.name];
+  if (typeof factory !== "function") {
+    throw new RuleSerializationError(`unknown ${kind} "${ref.name}"`, path);
+  }
+  let fn: Function;
+  try {
+    fn = factory(ref.params);
+  } catch (err) {
+    throw new RuleSerializationError(
+      `${kind} "${ref.name}" could not be created: ${(err as Error)?.message}`,
+      path,
+      err
+    );
+  }
+  if (typeof fn !== "function") {
+    throw new RuleSerializationError(
+      `${kind} "${ref.name}" did not create a function`,
+      path
+    );
+  }
+  references.set(
+    fn,
+    ref.params === undefined
+      ? { kind, name: ref.name }
+      : { kind, name: ref.name, params: ref.params }
+  );
+  return fn;
+};
+
+// create a registry of named function factories, the registry can create
+// functions which can be used in rules that need to be serialized
+// example:
+//   const registry = createRegistry({
+//     matchers: { isCountry: ({ country }) => (facts) => facts.country === country },
+//     actions: { addOffer: ({ offer }) => (facts, offers) => [...offers, offer] },
+//   });
+//   const rule = {
+//     matcher: registry.matcher('isCountry', { country: 'DE' }),
+//     action: registry.action('addOffer', { offer: 'free shipping' }),
+//   };
+const createRegistry = (definition: RegistryDefinition): Registry => ({
+  definition,
+  matcher: (name, params) =>
+    createFunction(definition, "matcher", { name, params }, "") as Matcher,
+  action: (name, params) =>
+    createFunction(definition, "action", { name, params }, "") as Action<
+      any,
+      any,
+      any
+    >,
+  mapper: (name, params) =>
+    createFunction(definition, "mapper", { name, params }, "") as Mapper,
+  transformer: (name, params) =>
+    createFunction(
+      definition,
+      "transformer",
+      { name, params },
+      ""
+    ) as Transformer,
+  priority: (name, params) =>
+    createFunction(
+      definition,
+      "priority",
+      { name, params },
+      ""
+    ) as ComputedPriority,
+  reducer: (name, params) =>
+    createFunction(definition, "reducer", { name, params }, "") as Reducer,
+});
+
+const metaKeys = ["id", "name", "description", "tags"] as const;
+
+const serializeMeta = (rule: RuleMeta): RuleMeta =>
+  Object.fromEntries(
+    metaKeys
+      .filter((key) => rule[key] !== undefined)
+      .map((key) => [key, rule[key]])
+  );
+
+const serializeFunction = (
+  fn: Function,
+  kind: FunctionKind,
+  path: string
+): FunctionRef => {
+  if (kind === "matcher" && isCondition(fn)) {
+    return { condition: fn.condition };
+  }
+  const ref = references.get(fn);
+  if (!ref) {
+    throw new RuleSerializationError(
+      `${kind} was not created by a registry`,
+      path
+    );
+  }
+  if (ref.kind !== kind) {
+    throw new RuleSerializationError(
+      `expected a registered ${kind} but got ${ref.kind} "${ref.name}"`,
+      path
+    );
+  }
+  const { name, params } = ref;
+  return params === undefined ? { name } : { name, params };
+};
+
+// the name and parameters a function was created from by a registry,
+// `undefined` for functions which weren't created by a registry
+const registeredRef = (fn: Function): RegisteredRef | undefined => {
+  const ref = references.get(fn);
+  if (!ref) {
+    return undefined;
+  }
+  const { name, params } = ref;
+  return params === undefined ? { name } : { name, params };
+};
+
+const serializeHelp = (rule: Rule, path: string): SerializedRule => {
+  const meta = serializeMeta(rule);
+  switch (rule.type) {
+    case "injected":
+      return {
+        ...meta,
+        type: "injected",
+        mapper: serializeFunction(rule.mapper, "mapper", `${path}.mapper`),
+        rule: serializeHelp(rule.childRule, `${path}.rule`),
+      };
+    case "transformed":
+      return {
+        ...meta,
+        type: "transformed",
+        transformer: serializeFunction(
+          rule.transformer,
+          "transformer",
+          `${path}.transformer`
+        ),
+        rule: serializeHelp(rule.rule, `${path}.rule`),
+      };
+    case "if":
+      return {
+        ...meta,
+        type: "if",
+        matcher: serializeFunction(rule.matcher, "matcher", `${path}.matcher`),
+        rule: serializeHelp(rule.rule, `${path}.rule`),
+      };
+    case "guarded":
+      return {
+        ...meta,
+        type: "guarded",
+        policy: rule.policy,
+        rule: serializeHelp(rule.rule, `${path}.rule`),
+      };
+    case "all":
+    case "first":
+    case "chain":
+      return {
+        ...meta,
+        type: rule.type,
+        rules: rule.rules.map((subRule, index) =>
+          serializeHelp(subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    case "prioritized":
+      return {
+        ...meta,
+        type: "prioritized",
+        mode: rule.mode,
+        priorities: rule.priorities.map((priority, index) =>
+          typeof priority === "number"
+            ? priority
+            : serializeFunction(
+                priority,
+                "priority",
+                `${path}.priorities[${index}]`
+              )
+        ),
+        rules: rule.rules.map((subRule, index) =>
+          serializeHelp(subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    case "experiment":
+      return {
+        ...meta,
+        type: "experiment",
+        experiment: rule.experiment,
+        key: rule.key,
+        salt: rule.salt,
+        variants: rule.variants,
+        weights: rule.weights,
+        rules: rule.rules.map((subRule, index) =>
+          serializeHelp(subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    case "collect":
+      return {
+        ...meta,
+        type: "collect",
+        ...(rule.reducer
+          ? {
+              reducer: serializeFunction(
+                rule.reducer,
+                "reducer",
+                `${path}.reducer`
+              ),
+            }
+          : {}),
+        rules: rule.rules.map((subRule, index) =>
+          serializeHelp(subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    case "each":
+      return {
+        ...meta,
+        type: "each",
+        ...(rule.mapper
+          ? {
+              mapper: serializeFunction(
+                rule.mapper,
+                "mapper",
+                `${path}.mapper`
+              ),
+            }
+          : {}),
+        rule: serializeHelp(rule.rule, `${path}.rule`),
+      };
+    case "repeat":
+      return {
+        ...meta,
+        type: "repeat",
+        maxIterations: rule.maxIterations,
+        rule: serializeHelp(rule.rule, `${path}.rule`),
+      };
+    default:
+      return {
+        ...meta,
+        type: "plain",
+        matcher: serializeFunction(rule.matcher, "matcher", `${path}.matcher`),
+        action: serializeFunction(rule.action, "action", `${path}.action`),
+      };
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const deserializeMeta = (node: Record<string, any>, path: string) => {
+  metaKeys.forEach((key) => {
+    if (
+      key !== "tags" &&
+      node[key] !== undefined &&
+      typeof node[key] !== "string"
+    ) {
+      throw new RuleSerializationError(
+        `"${key}" must be a string`,
+        `${path}.${key}`
+      );
+    }
+  });
+  const { tags } = node;
+  if (
+    tags !== undefined &&
+    !(Array.isArray(tags) && tags.every((tag) => typeof tag === "string"))
+  ) {
+    throw new RuleSerializationError(
+      `"tags" must be a list of strings`,
+      `${path}.tags`
+    );
+  }
+  return serializeMeta(node);
+};
+
+const deserializeFunction = (
+  registry: Registry,
+  ref: unknown,
+  kind: FunctionKind,
+  path: string
+) => {
+  if (kind === "matcher" && isObject(ref) && "condition" in ref) {
+    try {
+      return condition(ref.condition);
+    } catch (err) {
+      throw new RuleSerializationError((err as Error).message, path, err);
+    }
+  }
+  if (!isObject(ref) || typeof ref.name !== "string") {
+    throw new RuleSerializationError(
+      `invalid ${kind} reference, expected { "name": "..." }`,
+      path
+    );
+  }
+  return createFunction(registry.definition, kind, ref as RegisteredRef, path);
+};
+
+const deserializeHelp = (
+  registry: Registry,
+  node: unknown,
+  path: string
+): Rule => {
+  if (!isObject(node)) {
+    throw new RuleSerializationError("expected a rule object", path);
+  }
+  const meta = deserializeMeta(node, path);
+  const fn = (kind: FunctionKind): any =>
+    deserializeFunction(registry, node[kind], kind, `${path}.${kind}`);
+  const child = () => deserializeHelp(registry, node.rule, `${path}.rule`);
+  switch (node.type) {
+    case "plain":
+      return { ...meta, matcher: fn("matcher"), action: fn("action") };
+    case "injected":
+      return {
+        ...meta,
+        type: "injected",
+        mapper: fn("mapper"),
+        childRule: child(),
+      };
+    case "transformed":
+      return {
+        ...meta,
+        type: "transformed",
+        transformer: fn("transformer"),
+        rule: child(),
+      };
+    case "if":
+      return { ...meta, type: "if", matcher: fn("matcher"), rule: child() };
+    case "guarded":
+      if (!isErrorPolicy(node.policy)) {
+        throw new RuleSerializationError(
+          `invalid error policy, expected "abort", "skip" or { "fallback": ... }`,
+          `${path}.policy`
+        );
+      }
+      return { ...meta, type: "guarded", policy: node.policy, rule: child() };
+    case "all":
+    case "first":
+    case "chain":
+      if (!Array.isArray(node.rules)) {
+        throw new RuleSerializationError(
+          "expected a list of rules",
+          `${path}.rules`
+        );
+      }
+      return {
+        ...meta,
+        type: node.type,
+        rules: node.rules.map((subRule: unknown, index: number) =>
+          deserializeHelp(registry, subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    case "prioritized": {
+      if (node.mode !== "first" && node.mode !== "all") {
+        throw new RuleSerializationError(
+          `invalid mode, expected "first" or "all"`,
+          `${path}.mode`
+        );
+      }
+      if (!Array.isArray(node.rules)) {
+        throw new RuleSerializationError(
+          "expected a list of rules",
+          `${path}.rules`
+        );
+      }
+      if (
+        !Array.isArray(node.priorities) ||
+        node.priorities.length !== node.rules.length
+      ) {
+        throw new RuleSerializationError(
+          "expected a list with a priority for every rule",
+          `${path}.priorities`
+        );
+      }
+      return {
+        ...meta,
+        type: "prioritized",
+        mode: node.mode,
+        priorities: node.priorities.map(
+          (priority: unknown, index: number): Priority =>
+            typeof priority === "number"
+              ? priority
+              : (deserializeFunction(
+                  registry,
+                  priority,
+                  "priority",
+                  `${path}.priorities[${index}]`
+                ) as ComputedPriority)
+        ),
+        rules: node.rules.map((subRule: unknown, index: number) =>
+          deserializeHelp(registry, subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    }
+    case "experiment": {
+      ["experiment", "key", "salt"].forEach((key) => {
+        if (typeof node[key] !== "string") {
+          throw new RuleSerializationError(
+            `"${key}" must be a string`,
+            `${path}.${key}`
+          );
+        }
+      });
+      if (!Array.isArray(node.rules)) {
+        throw new RuleSerializationError(
+          "expected a list of rules",
+          `${path}.rules`
+        );
+      }
+      if (
+        !Array.isArray(node.variants) ||
+        node.variants.length !== node.rules.length ||
+        !node.variants.every((variant: unknown) => typeof variant === "string")
+      ) {
+        throw new RuleSerializationError(
+          "expected a list with a variant name for every rule",
+          `${path}.variants`
+        );
+      }
+      if (
+        !Array.isArray(node.weights) ||
+        node.weights.length !== node.rules.length
+      ) {
+        throw new RuleSerializationError(
+          "expected a list with a weight for every rule",
+          `${path}.weights`
+        );
+      }
+      [
+        () => checkKey(node.key),
+        () => checkWeights(node.weights as unknown[]),
+      ].forEach((check, index) => {
+        try {
+          check();
+        } catch (err) {
+          throw new RuleSerializationError(
+            (err as Error).message,
+            `${path}.${index === 0 ? "key" : "weights"}`,
+            err
+          );
+        }
+      });
+      return {
+        ...meta,
+        type: "experiment",
+        experiment: node.experiment,
+        key: node.key,
+        salt: node.salt,
+        variants: node.variants,
+        weights: node.weights,
+        rules: node.rules.map((subRule: unknown, index: number) =>
+          deserializeHelp(registry, subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    }
+    case "collect":
+      if (!Array.isArray(node.rules)) {
+        throw new RuleSerializationError(
+          "expected a list of rules",
+          `${path}.rules`
+        );
+      }
+      return {
+        ...meta,
+        type: "collect",
+        ...(node.reducer === undefined ? {} : { reducer: fn("reducer") }),
+        rules: node.rules.map((subRule: unknown, index: number) =>
+          deserializeHelp(registry, subRule, `${path}.rules[${index}]`)
+        ),
+      };
+    case "each":
+      return {
+        ...meta,
+        type: "each",
+        ...(node.mapper === undefined ? {} : { mapper: fn("mapper") }),
+        rule: child(),
+      };
+    case "repeat":
+      if (!Number.isInteger(node.maxIterations) || node.maxIterations < 1) {
+        throw new RuleSerializationError(
+          `"maxIterations" must be a whole number of at least 1`,
+          `${path}.maxIterations`
+        );
+      }
+      return {
+        ...meta,
+        type: "repeat",
+        maxIterations: node.maxIterations,
+        rule: child(),
+      };
+    default:
+      throw new RuleSerializationError(
+        `unknown rule type ${JSON.stringify(node.type)}`,
+        `${path}.type`
+      );
+  }
+};
+
+// errors which don't come from checking the rule, like the RangeError of a
+// rule which contains itself, become an error of the whole rule caused by them
+const toSerializationError = (err: unknown): RuleSerializationError =>
+  err instanceof RuleSerializationError
+    ? err
+    : new RuleSerializationError((err as Error)?.message, "$", err);
+
+// turn a rule into JSON compatible data, all functions of the rule need to be
+// created by a registry
+// returns a tuple like [error, serializedRule]
+const serialize = (
+  rule: Rule
+): [RuleSerializationError, null] | [null, SerializedRule] => {
+  try {
+    return [null, serializeHelp(rule, "$")];
+  } catch (err) {
+    return [toSerializationError(err), null];
+  }
+};
+
+// turn serialized rule data (or a JSON string of it) back into a rule using
+// the functions of the registry
+// returns a tuple like [error, rule]
+const deserialize = (
+  registry: Registry,
+  data: SerializedRule | string
+): [RuleSerializationError, null] | [null, Rule] => {
+  try {
+    let node: unknown = data;
+    if (typeof data === "string") {
+      try {
+        node = JSON.parse(data);
+      } catch (err) {
+        throw new RuleSerializationError(
+          `invalid JSON: ${(err as Error).message}`,
+          "$",
+          err
+        );
+      }
+    }
+    return [null, deserializeHelp(registry, node, "$")];
+  } catch (err) {
+    return [toSerializationError(err), null];
+  }
+};
+
+export {
+  createRegistry,
+  registeredRef,
+  serialize,
+  deserialize,
+  RuleSerializationError,
+};
+export type {
+  Json,
+  FunctionRef,
+  RegisteredRef,
+  SerializedRule,
+  RegistryDefinition,
+  Registry,
+};
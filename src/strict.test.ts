@@ -0,0 +1,279 @@
+import {
+  applyAll,
+  applyFirstByPriority,
+  applyToEach,
+  collectAll,
+  dateBetween,
+  describeRule,
+  detailedRun,
+  injectFacts,
+  MutationError,
+  not,
+  RuleError,
+  run,
+  tracedRun,
+  transformOutput,
+  withHooks,
+} from "./index";
+
+type Facts = {
+  country: string;
+  user: { name: string; tags: string[] };
+  date: Date;
+};
+type Cart = { items: { price: number }[]; total: number };
+
+const facts = (): Facts => ({
+  country: "DE",
+  user: { name: "Jane", tags: ["new"] },
+  date: new Date("2023-07-15T12:00:00Z"),
+});
+
+const always = () => true;
+
+describe("strict mode", () => {
+  test("fails the rule whose action mutates the value", () => {
+    const rule = applyAll([
+      { matcher: always, action: (f: Facts, list: string[]) => [...list, "a"] },
+      describeRule(
+        { name: "pushes" },
+        {
+          matcher: always,
+          action: (f: Facts, list: string[]) => {
+            list.push("b");
+            return list;
+          },
+        }
+      ),
+    ]);
+    const initialValue: string[] = [];
+    const [err] = detailedRun(rule, facts(), initialValue, { strict: true });
+    expect(err?.message).toBe(
+      'rule "pushes" at [1] failed: the action tried to change value.1, facts and values must not be mutated'
+    );
+    expect(err?.cause).toBeInstanceOf(MutationError);
+    expect(err?.cause).toMatchObject({ fn: "action", path: "value.1" });
+    expect(run(rule, facts(), initialValue)).toEqual([null, ["a", "b"]]);
+  });
+
+  test("reports nested properties of the facts", () => {
+    const original = facts();
+    const mapper = (current: Facts) => {
+      // eslint-disable-next-line no-param-reassign
+      current.user.name = "John";
+      return current;
+    };
+    const rule = injectFacts(mapper, {
+      matcher: (current: Facts) => {
+        // eslint-disable-next-line no-param-reassign
+        delete (current as Partial<Facts>).country;
+        return true;
+      },
+      action: (current: Facts, value: string) => value,
+    });
+    const [err] = run(rule, original, "", { strict: true });
+    expect(err?.message).toContain(
+      "the mapper tried to change facts.user.name"
+    );
+    expect(original.user.name).toBe("Jane");
+    const [matcherErr] = run(
+      injectFacts((current: Facts) => ({ ...current }), rule.childRule),
+      original,
+      "",
+      { strict: true }
+    );
+    expect(matcherErr?.message).toContain(
+      'rule "plain" at [0] failed: the matcher tried to delete facts.country'
+    );
+  });
+
+  test("guards transformers and the items of each rules", () => {
+    const sort = transformOutput((list: string[]) => list.sort(), {
+      matcher: always,
+      action: (f: Facts, list: string[]) => list,
+    });
+    expect(
+      run(sort, facts(), ["b", "a"], { strict: true })[0]?.message
+    ).toContain("the transformer tried to change value.0");
+    const each = applyToEach(
+      {
+        matcher: always,
+        action: (f: Facts, item: { price: number }) => item.price,
+      },
+      (current: Facts, item: { price: number }) => {
+        // eslint-disable-next-line no-param-reassign
+        item.price = 0;
+        return current;
+      }
+    );
+    expect(
+      run(each, facts(), [{ price: 1 }], { strict: true })[0]?.message
+    ).toContain("the mapper tried to change item.price");
+  });
+
+  test("guards reducers and priority functions", () => {
+    const collect = collectAll(
+      [{ matcher: always, action: (f: Facts, list: string[]) => list }],
+      (outputs, list: string[]) => {
+        list.push("collected");
+        return list;
+      }
+    );
+    expect(
+      run(collect, facts(), ["a"], { strict: true })[0]?.message
+    ).toContain("the reducer tried to change value.1");
+    const byPriority = applyFirstByPriority([
+      {
+        priority: (current: Facts) => {
+          current.user.tags.push("scored");
+          return 1;
+        },
+        rule: { matcher: always, action: (f: Facts, value: string) => value },
+      },
+    ]);
+    expect(
+      run(byPriority, facts(), "", { strict: true })[0]?.message
+    ).toContain("the priority tried to change facts.user.tags.1");
+  });
+
+  test("guards the facts and values hooks receive", () => {
+    const { run: hookedRun } = withHooks({
+      afterRule: ({ facts: current, value }) => {
+        // eslint-disable-next-line no-param-reassign
+        current.user.name = "John";
+        return { foundMatch: true, value };
+      },
+    });
+    const original = facts();
+    const [err] = hookedRun(
+      { matcher: always, action: (f: Facts, value: string) => value },
+      original,
+      "",
+      { strict: true }
+    );
+    expect(err?.message).toContain("the hook tried to change facts.user.name");
+    expect(original.user.name).toBe("Jane");
+  });
+
+  test("guards the nested objects of frozen facts and values", () => {
+    const original = Object.freeze(facts());
+    const rule = {
+      matcher: (current: Facts) => {
+        current.user.tags.push("seen");
+        return true;
+      },
+      action: (f: Facts, value: string) => value,
+    };
+    expect(run(rule, original, "", { strict: true })[0]?.message).toContain(
+      "the matcher tried to change facts.user.tags.1"
+    );
+    expect(original.user.tags).toEqual(["new"]);
+    const frozen = Object.freeze([{ price: 1 }]);
+    const [, result] = run(
+      {
+        matcher: (f: Facts, items: readonly { price: number }[]) =>
+          Array.isArray(items) && Object.keys(items[0]).length === 1,
+        action: (f: Facts, items: readonly { price: number }[]) =>
+          items.map(({ price }) => price * 2),
+      },
+      facts(),
+      frozen,
+      { strict: true }
+    );
+    expect(result).toEqual([2]);
+  });
+
+  test("guards the matchers of combined matchers when explaining", () => {
+    const rule = {
+      matcher: not((current: Facts) => {
+        // eslint-disable-next-line no-param-reassign
+        current.country = "AT";
+        return false;
+      }),
+      action: (f: Facts, value: string) => value,
+    };
+    const [err] = detailedRun(rule, facts(), "", {
+      strict: true,
+      explain: true,
+    });
+    expect(err?.message).toContain("the matcher tried to change facts.country");
+  });
+
+  test("reports the original rules in errors and hooks", () => {
+    const pushes = {
+      matcher: always,
+      action: (f: Facts, list: string[]) => {
+        list.push("a");
+        return list;
+      },
+    };
+    const rule = applyAll([pushes]);
+    const [err] = run(rule, facts(), [], { strict: true });
+    expect((err as RuleError).rule).toBe(pushes);
+    const rules: unknown[] = [];
+    const { run: hookedRun } = withHooks({
+      beforeRule: (context) => {
+        rules.push(context.rule);
+      },
+      onError: (context) => {
+        rules.push(context.error.rule);
+      },
+    });
+    hookedRun(rule, facts(), [], { strict: true });
+    expect(rules).toHaveLength(3);
+    expect(rules[0]).toBe(rule);
+    expect(rules[1]).toBe(pushes);
+    expect(rules[2]).toBe(pushes);
+  });
+
+  test("doesn't change what the functions return", () => {
+    const returned: Cart[] = [];
+    const keep = (result: Cart) => {
+      returned.push(result);
+      return result;
+    };
+    const rule = applyAll([
+      {
+        matcher: always,
+        action: (f: Facts, cart: Cart) => keep({ ...cart }),
+      },
+      {
+        matcher: always,
+        action: (f: Facts, cart: Cart) => keep(Object.freeze({ ...cart })),
+      },
+    ]);
+    const cart: Cart = { items: [{ price: 2 }], total: 0 };
+    const [, value] = run(rule, facts(), cart, { strict: true });
+    expect(value?.items).toBe(cart.items);
+    expect(Object.isFrozen(value)).toBe(true);
+    // the returned objects still hold the read-only views
+    returned.forEach((result) => {
+      expect(result.items).not.toBe(cart.items);
+      expect(result.items).toEqual(cart.items);
+    });
+  });
+
+  test("runs rules which copy the facts and values like without it", () => {
+    const rule = applyAll([
+      {
+        matcher: dateBetween("facts.date", "2023-07-01", "2023-07-31"),
+        action: (f: Facts, cart: Cart) => ({
+          ...cart,
+          total: cart.items.reduce((sum, { price }) => sum + price, 0),
+        }),
+      },
+      {
+        matcher: (current: Facts) => current.user.tags.includes("new"),
+        action: (f: Facts, cart: Cart) => ({ ...cart, items: cart.items }),
+      },
+    ]);
+    const cart: Cart = { items: [{ price: 2 }, { price: 3 }], total: 0 };
+    const [, result] = detailedRun(rule, facts(), cart, { strict: true });
+    expect(result).toEqual({ foundMatch: true, value: { ...cart, total: 5 } });
+    // the value holds the objects themselves, not read-only views of them
+    expect(result?.value.items).toBe(cart.items);
+    result?.value.items.push({ price: 1 });
+    expect(cart.items).toHaveLength(3);
+    expect(tracedRun(rule, facts(), cart, { strict: true })[0]).toBeNull();
+  });
+});
@@ -0,0 +1,284 @@
+import { isCombinedMatcher } from "./explain";
+import type { HookContext, RunHooks } from "./hooks";
+import { mapRules, ruleAtPath } from "./tree";
+import type { Priority, Rule, RuleType } from "./types";
+
+/* STRICT MODE
+ * Facts and values must not be mutated, rules should copy them instead.
+ * Running a rule with `{ strict: true }` enforces that: every matcher,
+ * action, mapper, transformer, reducer, priority function and hook receives
+ * read-only views of the facts and values, which throw a `MutationError`
+ * naming the property on any attempt to change them. The error is reported
+ * like any other error of the rule.
+ * Only plain objects and arrays are guarded, other objects like dates or
+ * maps are passed as they are. Meant for development and tests, as every
+ * access to the facts and values goes through a proxy.
+ */
+
+type StrictFunction =
+  | "matcher"
+  | "action"
+  | "mapper"
+  | "transformer"
+  | "reducer"
+  | "priority"
+  | "hook";
+
+// the functions of every type of rule that are guarded and what they receive,
+// the names start the paths of properties in errors
+const guardedArguments: Partial<
+  Record<RuleType, Partial<Record<StrictFunction, string[]>>>
+> = {
+  plain: { matcher: ["facts", "value"], action: ["facts", "value"] },
+  if: { matcher: ["facts", "value"] },
+  injected: { mapper: ["facts"] },
+  transformed: { transformer: ["value"] },
+  each: { mapper: ["facts", "item"] },
+  collect: { reducer: ["outputs", "value"] },
+};
+
+// thrown when a function of a rule run in strict mode tries to change the
+// facts or a value
+//  - fn: the kind of function which tried it, like "action"
+//  - path: the dot separated path of the property, like `facts.user.name`
+class MutationError extends Error {
+  fn: StrictFunction;
+
+  path: string;
+
+  constructor(fn: StrictFunction, operation: string, path: string) {
+    super(
+      `the ${fn} tried to ${operation} ${path}, facts and values must not be mutated`
+    );
+    this.name = "MutationError";
+    this.fn = fn;
+    this.path = path;
+  }
+}
+
+// the objects behind the read-only views
+const targets = new WeakMap<object, object>();
+
+const isGuardable = (value: unknown): value is object => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    Array.isArray(value) || prototype === Object.prototype || prototype === null
+  );
+};
+
+// a read-only view of `value` for one call of a function, `views` makes
+// sure the same object always gets the same view during the call
+// the proxy wraps an empty shadow of the object and reads from the object
+// itself, a proxy of the object would have to hand out the properties of
+// frozen objects as they are, so their nested objects couldn't be guarded
+const readOnly = (
+  value: unknown,
+  path: string,
+  fn: StrictFunction,
+  views: WeakMap<object, object>
+): unknown => {
+  if (!isGuardable(value)) {
+    return value;
+  }
+  const known = views.get(value);
+  if (known) {
+    return known;
+  }
+  const reject = (operation: string, key?: string | symbol) => () => {
+    throw new MutationError(
+      fn,
+      operation,
+      key === undefined ? path : `${path}.${String(key)}`
+    );
+  };
+  const shadow = Array.isArray(value)
+    ? []
+    : Object.create(Object.getPrototypeOf(value));
+  const view = new Proxy(shadow, {
+    get: (target, key, receiver) =>
+      readOnly(
+        Reflect.get(value, key, receiver),
+        `${path}.${String(key)}`,
+        fn,
+        views
+      ),
+    has: (target, key) => Reflect.has(value, key),
+    ownKeys: () => Reflect.ownKeys(value),
+    getOwnPropertyDescriptor: (target, key) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+      if (!descriptor) {
+        return undefined;
+      }
+      if ("value" in descriptor) {
+        descriptor.value = readOnly(
+          descriptor.value,
+          `${path}.${String(key)}`,
+          fn,
+          views
+        );
+      }
+      // the descriptors have to fit the shadow, which only has the length of
+      // arrays as a property that can't be configured
+      return Reflect.getOwnPropertyDescriptor(target, key)
+        ? { ...descriptor, configurable: false, writable: true }
+        : { ...descriptor, configurable: true };
+    },
+    set: (target, key) => reject("change", key)(),
+    deleteProperty: (target, key) => reject("delete", key)(),
+    defineProperty: (target, key) => reject("define", key)(),
+    setPrototypeOf: () => reject("change the prototype of")(),
+    preventExtensions: () => reject("prevent extensions of")(),
+  });
+  views.set(value, view);
+  targets.set(view, value);
+  return view;
+};
+
+// replace the read-only views in what a function returned with the objects
+// behind them, so they don't leak into the result of the run
+// objects holding views are copied, what the function returned isn't changed
+const unwrap = (value: unknown, seen = new Map<object, unknown>()): unknown => {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const target = targets.get(value);
+  if (target) {
+    return target;
+  }
+  if (!isGuardable(value)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+  // objects containing themselves keep referring to themselves
+  seen.set(value, value);
+  const properties = value as Record<string, unknown>;
+  const keys = Object.keys(value);
+  const unwrapped = keys.map((key) => unwrap(properties[key], seen));
+  if (keys.every((key, index) => unwrapped[index] === properties[key])) {
+    return value;
+  }
+  const copy = Array.isArray(value)
+    ? [...value]
+    : Object.create(Object.getPrototypeOf(value));
+  keys.forEach((key, index) => {
+    copy[key] = unwrapped[index];
+  });
+  const result = Object.isFrozen(value) ? Object.freeze(copy) : copy;
+  seen.set(value, result);
+  return result;
+};
+
+// the guarded function keeps the name and properties of the function, like
+// the descriptor of a condition, so it can still be described and explained
+// explaining a combined matcher calls the matchers it combines, so those are
+// guarded as well
+const guarded = (
+  fn: Function,
+  kind: StrictFunction,
+  names: string[]
+): Function => {
+  const wrapper = Object.defineProperty(
+    Object.assign((...args: unknown[]) => {
+      const views = new WeakMap<object, object>();
+      return unwrap(
+        fn(
+          ...args.map((arg, index) =>
+            index < names.length
+              ? readOnly(arg, names[index], kind, views)
+              : arg
+          )
+        )
+      );
+    }, fn),
+    "name",
+    { value: fn.name }
+  );
+  return isCombinedMatcher(fn)
+    ? Object.assign(wrapper, {
+        combination: {
+          ...fn.combination,
+          matchers: fn.combination.matchers.map((matcher) =>
+            guarded(matcher, kind, names)
+          ),
+        },
+      })
+    : wrapper;
+};
+
+// the guarded copies of rules, rules aren't changed after creating them
+const strictRules = new WeakMap<Rule, Rule>();
+
+// the rules the guarded copies were made from
+const originalRules = new WeakMap<Rule, Rule>();
+
+// the rule a guarded copy was made from, other rules are returned as they are
+// errors and hooks refer to the original rules, which callers know
+const originalRule = (rule: Rule): Rule => originalRules.get(rule) || rule;
+
+// a copy of the tree whose functions receive read-only views of the facts
+// and values, the rule itself stays untouched
+const strictRule = (rule: Rule): Rule => {
+  const known = strictRules.get(rule);
+  if (known) {
+    return known;
+  }
+  const copy = mapRules(rule, (current, path) => {
+    const guardedRule = Object.entries(
+      guardedArguments[current.type || "plain"] || {}
+    ).reduce(
+      (result, [kind, names]) =>
+        typeof (current as any)[kind] === "function"
+          ? {
+              ...result,
+              [kind]: guarded(
+                (current as any)[kind],
+                kind as StrictFunction,
+                names
+              ),
+            }
+          : result,
+      current.type === "prioritized"
+        ? {
+            ...current,
+            priorities: current.priorities.map((priority) =>
+              typeof priority === "function"
+                ? (guarded(priority, "priority", ["facts"]) as Priority)
+                : priority
+            ),
+          }
+        : current
+    );
+    originalRules.set(guardedRule, ruleAtPath(rule, path) as Rule);
+    return guardedRule;
+  });
+  strictRules.set(rule, copy);
+  return copy;
+};
+
+// hooks which receive read-only views of the facts and the value in their
+// context and the original rule, the rest of the context is passed as it is
+const strictHooks = (hooks: RunHooks): RunHooks =>
+  Object.fromEntries(
+    Object.entries(hooks).map(([name, hook]) => [
+      name,
+      (context: HookContext) => {
+        const views = new WeakMap<object, object>();
+        return unwrap(
+          (hook as (current: HookContext) => unknown)({
+            ...context,
+            rule: originalRule(context.rule),
+            facts: readOnly(context.facts, "facts", "hook", views),
+            value: readOnly(context.value, "value", "hook", views),
+          })
+        );
+      },
+    ])
+  );
+
+export { MutationError, originalRule, strictHooks, strictRule };
+export type { StrictFunction };
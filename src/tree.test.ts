@@ -0,0 +1,141 @@
+import { always, applyAll, applyFirst, applyIf, run, tracedRun } from "./index";
+import {
+  childRules,
+  describeRule,
+  findRule,
+  findRulesByTag,
+  listRules,
+  mapRules,
+  ruleAtPath,
+  ruleLabel,
+} from "./tree";
+
+const makeRule = (value: any) => ({
+  matcher: always,
+  action: (facts: unknown, list: any[]) => list.concat(value),
+});
+
+const summerRule = describeRule(
+  { id: "summer", name: "Summer sale", tags: ["seasonal"] },
+  makeRule("summer")
+);
+const winterRule = describeRule(
+  { id: "winter", tags: ["seasonal", "cold"] },
+  makeRule("winter")
+);
+const tree = describeRule(
+  { id: "root" },
+  applyAll([
+    applyIf(always, summerRule),
+    applyFirst([winterRule, makeRule("fallback")]),
+  ])
+);
+
+describe("describeRule", () => {
+  test("adds metadata to a copy of the rule", () => {
+    const rule = makeRule(1);
+    const described = describeRule(
+      { id: "a", description: "adds a one" },
+      rule
+    );
+    expect(described).toEqual({ ...rule, id: "a", description: "adds a one" });
+    expect(rule).not.toHaveProperty("id");
+  });
+
+  test("doesn't change how the rule runs", () => {
+    const [, result] = run(tree, null, []);
+    expect(result).toEqual(["summer", "winter"]);
+  });
+
+  test("names show up in traces", () => {
+    const [, result] = tracedRun(tree, null, []);
+    const { trace } = result!;
+    expect(trace.id).toBe("root");
+    expect(trace.children[0].children[0].name).toBe("Summer sale");
+  });
+});
+
+describe("childRules", () => {
+  test("returns the directly contained rules", () => {
+    expect(childRules(tree)).toHaveLength(2);
+    expect(childRules(childRules(tree)[0])).toEqual([summerRule]);
+    expect(childRules(summerRule)).toEqual([]);
+  });
+});
+
+describe("mapRules", () => {
+  test("replaces every rule without mutating the tree", () => {
+    const tagged = mapRules(tree, (rule, path) => ({
+      ...rule,
+      tags: [path.join(".")],
+    }));
+    expect(listRules(tagged).map(({ rule }) => rule.tags)).toEqual([
+      [""],
+      ["0"],
+      ["0.0"],
+      ["1"],
+      ["1.0"],
+      ["1.1"],
+    ]);
+    expect(listRules(tree)[2].rule.tags).toEqual(["seasonal"]);
+    expect(run(tagged, null, [])).toEqual(run(tree, null, []));
+  });
+});
+
+describe("ruleLabel", () => {
+  test("prefers the name over the id over the type", () => {
+    expect(ruleLabel(summerRule)).toBe("Summer sale");
+    expect(ruleLabel(winterRule)).toBe("winter");
+    expect(ruleLabel(applyAll([]))).toBe("all");
+    expect(ruleLabel(makeRule(1))).toBe("plain");
+  });
+});
+
+describe("listRules", () => {
+  test("lists all rules depth first with their paths", () => {
+    const entries = listRules(tree);
+    expect(entries.map(({ path }) => path)).toEqual([
+      [],
+      [0],
+      [0, 0],
+      [1],
+      [1, 0],
+      [1, 1],
+    ]);
+    expect(entries[2].rule).toBe(summerRule);
+  });
+});
+
+describe("findRule", () => {
+  test("finds a nested rule by id", () => {
+    expect(findRule(tree, "winter")).toBe(winterRule);
+  });
+
+  test("returns undefined if no rule has the id", () => {
+    expect(findRule(tree, "spring")).toBeUndefined();
+  });
+
+  test("found rules can be run on their own", () => {
+    const [, result] = run(findRule(tree, "summer")!, null, []);
+    expect(result).toEqual(["summer"]);
+  });
+});
+
+describe("findRulesByTag", () => {
+  test("finds all rules with a tag", () => {
+    expect(findRulesByTag(tree, "seasonal")).toEqual([summerRule, winterRule]);
+    expect(findRulesByTag(tree, "cold")).toEqual([winterRule]);
+    expect(findRulesByTag(tree, "hot")).toEqual([]);
+  });
+});
+
+describe("ruleAtPath", () => {
+  test("returns the rule at a path", () => {
+    expect(ruleAtPath(tree, [])).toBe(tree);
+    expect(ruleAtPath(tree, [1, 0])).toBe(winterRule);
+  });
+
+  test("returns undefined for paths that don't exist", () => {
+    expect(ruleAtPath(tree, [3, 0])).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import type { AsyncRule, RuleMeta } from "./types";
+
+/* WORKING WITH RULE TREES
+ * Combined rules form a tree. These helpers make it possible to attach
+ * metadata to rules and to find rules inside of a tree, e.g. to test or log a
+ * single rule out of hundreds.
+ */
+
+// the position of a rule inside a tree, a list of indexes into the child
+// rules (see `childRules`) starting from the root rule
+type RulePath = number[];
+
+type RuleEntry<R extends AsyncRule = AsyncRule> = {
+  rule: R;
+  path: RulePath;
+};
+
+// attach metadata like an `id`, `name`, `description` or `tags` to a rule
+// the rule is copied and NOT mutated
+// example:
+//   describeRule({ id: 'lemonade', tags: ['summer'] }, lemonadeRule)
+const describeRule = <R extends AsyncRule>(meta: RuleMeta, rule: R): R => ({
+  ...rule,
+  ...meta,
+});
+
+// the rules directly contained in a rule, plain rules have none
+const childRules = <R extends AsyncRule>(rule: R): R[] => {
+  switch (rule.type) {
+    case "injected":
+      return [rule.childRule as R];
+    case "transformed":
+    case "if":
+    case "guarded":
+    case "each":
+    case "repeat":
+      return [rule.rule as R];
+    case "all":
+    case "first":
+    case "chain":
+    case "prioritized":
+    case "experiment":
+    case "collect":
+      return rule.rules as R[];
+    default:
+      return [];
+  }
+};
+
+// a copy of a rule with other child rules, in the same order as `childRules`
+const withChildRules = <R extends AsyncRule>(rule: R, children: R[]): R => {
+  switch (rule.type) {
+    case "injected":
+      return { ...rule, childRule: children[0] };
+    case "transformed":
+    case "if":
+    case "guarded":
+    case "each":
+    case "repeat":
+      return { ...rule, rule: children[0] };
+    case "all":
+    case "first":
+    case "chain":
+    case "prioritized":
+    case "experiment":
+    case "collect":
+      return { ...rule, rules: children };
+    default:
+      return rule;
+  }
+};
+
+// create a new tree by replacing every rule with the result of `fn`, child
+// rules are replaced before the rules containing them
+// the original tree is NOT mutated
+// example:
+//   mapRules(rule, (current) => ({ ...current, tags: ["checked"] }))
+const mapRules = <R extends AsyncRule>(
+  rule: R,
+  fn: (rule: R, path: RulePath) => R,
+  path: RulePath = []
+): R =>
+  fn(
+    withChildRules(
+      rule,
+      childRules(rule).map((child, index) =>
+        mapRules(child, fn, [...path, index])
+      )
+    ),
+    path
+  );
+
+// a human readable label for a rule, preferring its name over its id
+const ruleLabel = (rule: AsyncRule): string =>
+  rule.name || rule.id || rule.type || "plain";
+
+// all rules of a tree including the root rule itself, depth first in the
+// order they would be run
+const listRules = <R extends AsyncRule>(
+  rule: R,
+  path: RulePath = []
+): RuleEntry<R>[] => [
+  { rule, path },
+  ...childRules(rule).flatMap((child, index) =>
+    listRules(child, [...path, index])
+  ),
+];
+
+// find a rule inside of a tree by its `id`, returns `undefined` if there is
+// no such rule
+const findRule = <R extends AsyncRule>(rule: R, id: string): R | undefined =>
+  listRules(rule).find((entry) => entry.rule.id === id)?.rule;
+
+// find all rules inside of a tree which have the given tag
+const findRulesByTag = <R extends AsyncRule>(rule: R, tag: string): R[] =>
+  listRules(rule)
+    .filter((entry) => entry.rule.tags?.includes(tag))
+    .map((entry) => entry.rule);
+
+// get the rule at a given path, returns `undefined` if there is no such rule
+const ruleAtPath = <R extends AsyncRule>(
+  rule: R,
+  path: RulePath
+): R | undefined =>
+  path.reduce<R | undefined>(
+    (current, index) => current && childRules(current)[index],
+    rule
+  );
+
+export {
+  describeRule,
+  childRules,
+  withChildRules,
+  mapRules,
+  ruleLabel,
+  listRules,
+  findRule,
+  findRulesByTag,
+  ruleAtPath,
+};
+export type { RulePath, RuleEntry };
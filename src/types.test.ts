@@ -0,0 +1,180 @@
+import type { Rule, RuleResult } from "./index";
+import {
+  always,
+  applyAll,
+  applyChain,
+  applyFirst,
+  applyIf,
+  applyToEach,
+  detailedRun,
+  equals,
+  injectFacts,
+  not,
+  run,
+  runAsync,
+  transformOutput,
+} from "./index";
+
+/* TYPE LEVEL TESTS
+ * These tests are mostly checked by the compiler, lines marked with
+ * `@ts-expect-error` must not compile.
+ */
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+
+// only compiles when the type parameter is `true`
+const expectType = <Check extends true>(check?: Check) => check;
+
+type Facts = { country: string; price: number };
+type Offer = { title: string };
+
+const isGermany = (facts: Facts) => facts.country === "DE";
+const addOffer = (facts: Facts, offers: Offer[]) => [
+  ...offers,
+  { title: `${facts.country} offer` },
+];
+const offerRule = { matcher: isGermany, action: addOffer };
+
+describe("type inference", () => {
+  test("run returns the type of the value produced by the rule", () => {
+    const [err, offers] = run(applyAll([offerRule, offerRule]), {
+      country: "DE",
+      price: 3,
+    })([]);
+    if (!err) {
+      expectType<Equals<typeof offers, Offer[]>>();
+    }
+    expect(offers).toHaveLength(2);
+  });
+
+  test("detailedRun returns a typed rule result", () => {
+    const result = detailedRun(offerRule, { country: "AT", price: 3 }, []);
+    expectType<
+      Equals<
+        typeof result,
+        [null, RuleResult<Offer[] | never[]>] | [Error, null]
+      >
+    >();
+    expect(result[1]?.foundMatch).toBe(false);
+  });
+
+  test("the error has to be checked before using the value", () => {
+    const [err, offers] = run(offerRule, { country: "DE", price: 3 }, []);
+    // @ts-expect-error the value might be `null`
+    expect(offers.length).toBe(1);
+    if (!err) {
+      expect(offers.length).toBe(1);
+    }
+  });
+
+  test("facts have to match the facts of the rule", () => {
+    // @ts-expect-error `price` is missing
+    run(offerRule, { country: "DE" }, []);
+    // @ts-expect-error the rule was created for other facts
+    run(applyFirst([offerRule]))({ language: "de" }, []);
+    expect(true).toBe(true);
+  });
+
+  test("rules with mismatching values can't be combined", () => {
+    const countRule = {
+      matcher: always,
+      action: (facts: Facts, count: number) => count + 1,
+    };
+    // @ts-expect-error offers and counts don't mix
+    applyAll([offerRule, countRule]);
+    // @ts-expect-error the initial value doesn't fit the rule
+    run(countRule, { country: "DE", price: 3 }, "0");
+    expect(true).toBe(true);
+  });
+
+  test("rules with mismatching facts can't be combined", () => {
+    const isCheap = (facts: { price: string }) => facts.price === "0";
+    const rule = applyChain([
+      offerRule,
+      // @ts-expect-error the price can't be a string and a number
+      { matcher: isCheap, action: addOffer },
+    ]);
+    expect(rule.type).toBe("chain");
+  });
+
+  test("injectFacts can change the type of the facts for its rule", () => {
+    const rule = injectFacts(
+      (facts: { country: string }) => ({ ...facts, price: 0 }),
+      offerRule
+    );
+    const [, offers] = run(rule, { country: "DE" }, []);
+    expect(offers).toEqual([{ title: "DE offer" }]);
+    // @ts-expect-error the mapper needs a country
+    run(rule, { price: 1 }, []);
+  });
+
+  test("transformOutput can change the type of the value", () => {
+    const rule = transformOutput(
+      (offers: Offer[]) => offers.map((offer) => offer.title),
+      offerRule
+    );
+    const [err, titles] = run(rule, { country: "DE", price: 1 }, []);
+    if (!err) {
+      expectType<Equals<typeof titles, string[] | never[]>>();
+    }
+    // @ts-expect-error the transformer has to accept offers
+    transformOutput((list: string[]) => list.length, offerRule);
+    expect(titles).toEqual(["DE offer"]);
+  });
+
+  test("applyToEach rules are typed by the lists they run on", () => {
+    const discount = {
+      matcher: (facts: Facts, price: number) => price > facts.price,
+      action: (facts: Facts, price: number) => `${price * 0.9}`,
+    };
+    const rule = applyToEach(discount);
+    const typed: Rule<Facts, string[], number[]> = rule;
+    const [err, prices] = run(rule, { country: "DE", price: 5 }, [4, 10]);
+    if (!err) {
+      expectType<Equals<typeof prices, string[] | number[]>>();
+    }
+    // @ts-expect-error the value has to be a list of prices
+    run(rule, { country: "DE", price: 5 }, 4);
+    expect(typed).toBe(rule);
+    expect(prices).toEqual([4, "9"]);
+  });
+
+  test("matchers of applyIf have to accept the facts of the rule", () => {
+    const rule = applyIf((facts: Facts) => facts.price > 2, offerRule);
+    const typed: Rule<Facts, Offer[]> = rule;
+    // @ts-expect-error `language` is not part of the facts
+    applyIf((facts: { language: string }) => !!facts.language, offerRule);
+    expect(typed).toBe(rule);
+  });
+
+  test("matcher combinators and conditions fit every rule", () => {
+    const rule = applyIf(equals("facts.country", "DE"), {
+      matcher: not(isGermany),
+      action: addOffer,
+    });
+    const typed: Rule<Facts, Offer[]> = rule;
+    expect(typed).toBe(rule);
+  });
+
+  test("async rules can't be run synchronously", async () => {
+    const asyncRule = applyAll([
+      offerRule,
+      { matcher: async () => true, action: addOffer },
+    ]);
+    // @ts-expect-error async rules need runAsync
+    run(asyncRule, { country: "DE", price: 3 }, []);
+    const [err, offers] = await runAsync(
+      asyncRule,
+      { country: "DE", price: 3 },
+      []
+    );
+    if (!err) {
+      expectType<Equals<typeof offers, Offer[] | never[]>>();
+    }
+    expect(offers).toHaveLength(2);
+  });
+});
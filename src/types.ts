@@ -0,0 +1,547 @@
+import type { MatcherFailure } from "./explain";
+import type { RuleSchemas } from "./schema";
+
+/* TYPES
+ * Rules are generic over the type of the facts they receive, the type of the
+ * value their action returns (`Result`) and the type of the value they get
+ * passed in (`Input`). For most rules the value keeps its type, so `Input`
+ * defaults to `Result`.
+ * When a rule doesn't match, the incoming value is passed on unchanged, so
+ * the value produced by running a `Rule<Facts, Result, Input>` is of type
+ * `Result | Input`.
+ */
+
+type Rule<Facts = any, Result = any, Input = Result> =
+  | PlainRule<Facts, Result, Input>
+  | InjectedRule<Facts, Result, Input>
+  | TransformedRule<Facts, Result, Input>
+  | FirstRule<Facts, Result, Input>
+  | AllRule<Facts, Result, Input>
+  | ChainRule<Facts, Result, Input>
+  | IfRule<Facts, Result, Input>
+  | GuardedRule<Facts, Result, Input>
+  | PrioritizedRule<Facts, Result, Input>
+  | ExperimentRule<Facts, Result, Input>
+  | CollectRule<Facts, Result, Input>
+  | EachRule<Facts, Result, Input>
+  | RepeatRule<Facts, Result, Input>;
+
+type Matcher<Facts = any, Input = any> = (
+  facts: Facts,
+  input: Input
+) => boolean;
+type Mapper<Facts = any, MappedFacts = Facts> = (facts: Facts) => MappedFacts;
+// like a mapper but also receives an item of the value and its index
+type ItemMapper<Facts = any, Item = any, MappedFacts = Facts> = (
+  facts: Facts,
+  item: Item,
+  index: number
+) => MappedFacts;
+type Action<Facts = any, Result = any, Input = Result> = (
+  facts: Facts,
+  input: Input
+) => Result;
+type Transformer<Value = any, Result = any> = (value: Value) => Result;
+
+// optional metadata every rule can carry to refer to it in logs, tests and
+// tooling, see `describeRule`
+type RuleMeta = {
+  id?: string;
+  name?: string;
+  description?: string;
+  tags?: string[];
+};
+
+type PlainRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type?: "plain";
+  matcher: Matcher<Facts, Input>;
+  action: Action<Facts, Result, Input>;
+};
+
+// the child rule of an injected rule receives the mapped facts
+type InjectedRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildFacts = any
+> = RuleMeta & {
+  type: "injected";
+  mapper: Mapper<Facts, ChildFacts>;
+  childRule: Rule<ChildFacts, Result, Input>;
+};
+
+// the transformer receives the result of the contained rule
+type TransformedRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildResult = any
+> = RuleMeta & {
+  type: "transformed";
+  transformer: Transformer<ChildResult, Result>;
+  rule: Rule<Facts, ChildResult, Input>;
+};
+
+type IfRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "if";
+  matcher: Matcher<Facts, Input>;
+  rule: Rule<Facts, Result, Input>;
+};
+
+type AllRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "all";
+  rules: Rule<Facts, Result, Input>[];
+};
+
+type FirstRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "first";
+  rules: Rule<Facts, Result, Input>[];
+};
+
+type ChainRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "chain";
+  rules: Rule<Facts, Result, Input>[];
+};
+
+// what happens when a rule throws, see `onError`
+//  - "abort": the error ends the run, even when an outer rule has another policy
+//  - "skip": the rule counts as not matched and the value stays unchanged
+//  - { fallback }: the rule counts as matched and produces the fallback value
+type ErrorPolicy<Value = any> = "abort" | "skip" | { fallback: Value };
+
+type GuardedRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "guarded";
+  policy: ErrorPolicy<Result>;
+  rule: Rule<Facts, Result, Input>;
+};
+
+// the priority of a child rule of a "prioritized" rule, either fixed or
+// computed from the facts, rules with higher priorities are run first
+type Priority<Facts = any> = number | ((facts: Facts) => number);
+
+// how the child rules of a "prioritized" rule are run
+//  - "first": only the matching rule with the highest priority, like `applyFirst`
+//  - "all": every matching rule, highest priority first, like `applyAll`
+type PriorityMode = "first" | "all";
+
+// `priorities` holds the priority of the rule at the same index of `rules`
+type PrioritizedRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "prioritized";
+  mode: PriorityMode;
+  priorities: Priority<Facts>[];
+  rules: Rule<Facts, Result, Input>[];
+};
+
+// the child rules of an "experiment" rule are its variants, only the variant
+// the value at `key` is assigned to is run, see `experiment`
+// `variants` and `weights` hold the name and weight of the rule at the same
+// index of `rules`
+type ExperimentRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "experiment";
+  experiment: string;
+  key: string;
+  salt: string;
+  variants: string[];
+  weights: number[];
+  rules: Rule<Facts, Result, Input>[];
+};
+
+// the output of a matching child rule of a "collect" rule, `index` is the
+// position of the rule among the child rules, `id` and `name` are taken from
+// its metadata, if it has any
+type CollectedOutput<Value = any> = {
+  index: number;
+  id?: string;
+  name?: string;
+  value: Value;
+};
+
+// combines the outputs of the matching child rules of a "collect" rule into
+// its result, it also receives the value the rule received
+type Reducer<Value = any, Result = any, Input = any> = (
+  outputs: CollectedOutput<Value>[],
+  input: Input
+) => Result;
+
+// every child rule of a "collect" rule receives the same incoming value, the
+// outputs of the matching ones are combined by the reducer, without a reducer
+// the result is the list of outputs, see `collectAll`
+type CollectRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildResult = any
+> = RuleMeta & {
+  type: "collect";
+  reducer?: Reducer<ChildResult, Result, Input>;
+  rules: Rule<Facts, ChildResult, Input>[];
+};
+
+// the type of the items of a list
+type ItemOf<List> = List extends readonly (infer Item)[] ? Item : any;
+
+// the value of an "each" rule is a list, the child rule is run for every
+// item with the item as value, the mapper can pass other facts for every
+// item, see `applyToEach`
+// the type of the child rule doesn't refer to the items, the types of nested
+// "each" rules would never end, `applyToEach` checks it against them instead
+type EachRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildFacts = any
+> = RuleMeta & {
+  type: "each";
+  mapper?: ItemMapper<Facts, ItemOf<Input>, ChildFacts>;
+  rule: Rule<ChildFacts>;
+};
+
+// the child rule of a "repeat" rule is run on its own output as long as it
+// matches, at most `maxIterations` times, see `applyRepeatedly`
+type RepeatRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "repeat";
+  maxIterations: number;
+  rule: Rule<Facts, Result, Input | Result>;
+};
+
+// variants: only set on the result of a run when experiments were run, the
+//   name of the chosen variant by the name of the experiment
+// explanations: only set on the result of `detailedRun` with
+//   `{ explain: true }` when the matcher of a plain or "if" rule failed, why
+//   it failed, in the order the rules were run
+type RuleResult<Value = any> = {
+  foundMatch: boolean;
+  value: Value;
+  variants?: Record<string, string>;
+  explanations?: MatcherFailure[];
+};
+
+type RuleType = NonNullable<Rule["type"]>;
+
+// one node of the tree returned by `tracedRun`, it mirrors the rule structure
+//  - id, name: taken from the rule's metadata, if it has any
+//  - matcherPassed: only set for plain and "if" rules, the outcome of their matcher
+//  - matchedIndex: only set for "first" rules, the index of the child rule that won
+//  - stoppedAt: only set for "chain" rules, the index of the child rule that
+//      didn't match and therefore stopped the chain
+//  - priorities, order: only set for "prioritized" rules, the priorities of
+//      the child rules and their indexes in the order they were run, the
+//      children of the trace are in this order as well
+//  - variant: only set for "experiment" rules which ran a variant, its name,
+//      `order` holds the index of the variant
+//  - order is also set for "each" and "repeat" rules, they have a child for
+//      every time their child rule ran, all of them at index 0
+//  - error: only set for rules which threw or contain a rule which threw
+type RuleTrace<Value = any> = {
+  type: RuleType;
+  id?: string;
+  name?: string;
+  foundMatch: boolean;
+  valueBefore: Value;
+  valueAfter: Value;
+  matcherPassed?: boolean;
+  matchedIndex?: number;
+  stoppedAt?: number;
+  priorities?: number[];
+  order?: number[];
+  variant?: string;
+  error?: Error;
+  children: RuleTrace<Value>[];
+};
+
+type TracedRuleResult<Value = any> = RuleResult<Value> & {
+  trace: RuleTrace<Value>;
+};
+
+/* ASYNC RULES
+ * have the same shape as the rules above but their matchers, actions,
+ * mappers and transformers may return promises. Synchronous rules can be used
+ * wherever an async rule is expected.
+ */
+
+type MaybePromise<T> = T | Promise<T>;
+
+// used by the combinators to only accept rules producing promises as async rules
+type NotAsync<T> = T extends PromiseLike<any> ? never : unknown;
+
+type AsyncRule<Facts = any, Result = any, Input = Result> =
+  | AsyncPlainRule<Facts, Result, Input>
+  | AsyncInjectedRule<Facts, Result, Input>
+  | AsyncTransformedRule<Facts, Result, Input>
+  | AsyncFirstRule<Facts, Result, Input>
+  | AsyncAllRule<Facts, Result, Input>
+  | AsyncChainRule<Facts, Result, Input>
+  | AsyncIfRule<Facts, Result, Input>
+  | AsyncGuardedRule<Facts, Result, Input>
+  | AsyncPrioritizedRule<Facts, Result, Input>
+  | AsyncExperimentRule<Facts, Result, Input>
+  | AsyncCollectRule<Facts, Result, Input>
+  | AsyncEachRule<Facts, Result, Input>
+  | AsyncRepeatRule<Facts, Result, Input>;
+
+type AsyncMatcher<Facts = any, Input = any> = (
+  facts: Facts,
+  input: Input
+) => MaybePromise<boolean>;
+type AsyncMapper<Facts = any, MappedFacts = Facts> = (
+  facts: Facts
+) => MaybePromise<MappedFacts>;
+type AsyncAction<Facts = any, Result = any, Input = Result> = (
+  facts: Facts,
+  input: Input
+) => MaybePromise<Result>;
+type AsyncTransformer<Value = any, Result = any> = (
+  value: Value
+) => MaybePromise<Result>;
+type AsyncItemMapper<Facts = any, Item = any, MappedFacts = Facts> = (
+  facts: Facts,
+  item: Item,
+  index: number
+) => MaybePromise<MappedFacts>;
+type AsyncReducer<Value = any, Result = any, Input = any> = (
+  outputs: CollectedOutput<Value>[],
+  input: Input
+) => MaybePromise<Result>;
+type AsyncPriority<Facts = any> =
+  | number
+  | ((facts: Facts) => MaybePromise<number>);
+
+type AsyncPlainRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type?: "plain";
+  matcher: AsyncMatcher<Facts, Input>;
+  action: AsyncAction<Facts, Result, Input>;
+};
+
+type AsyncInjectedRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildFacts = any
+> = RuleMeta & {
+  type: "injected";
+  mapper: AsyncMapper<Facts, ChildFacts>;
+  childRule: AsyncRule<ChildFacts, Result, Input>;
+};
+
+type AsyncTransformedRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildResult = any
+> = RuleMeta & {
+  type: "transformed";
+  transformer: AsyncTransformer<ChildResult, Result>;
+  rule: AsyncRule<Facts, ChildResult, Input>;
+};
+
+type AsyncIfRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "if";
+  matcher: AsyncMatcher<Facts, Input>;
+  rule: AsyncRule<Facts, Result, Input>;
+};
+
+type AsyncAllRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "all";
+  rules: AsyncRule<Facts, Result, Input>[];
+};
+
+type AsyncFirstRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "first";
+  rules: AsyncRule<Facts, Result, Input>[];
+};
+
+type AsyncChainRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "chain";
+  rules: AsyncRule<Facts, Result, Input>[];
+};
+
+type AsyncGuardedRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "guarded";
+  policy: ErrorPolicy<Result>;
+  rule: AsyncRule<Facts, Result, Input>;
+};
+
+type AsyncPrioritizedRule<
+  Facts = any,
+  Result = any,
+  Input = Result
+> = RuleMeta & {
+  type: "prioritized";
+  mode: PriorityMode;
+  priorities: AsyncPriority<Facts>[];
+  rules: AsyncRule<Facts, Result, Input>[];
+};
+
+type AsyncExperimentRule<
+  Facts = any,
+  Result = any,
+  Input = Result
+> = RuleMeta & {
+  type: "experiment";
+  experiment: string;
+  key: string;
+  salt: string;
+  variants: string[];
+  weights: number[];
+  rules: AsyncRule<Facts, Result, Input>[];
+};
+
+type AsyncCollectRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildResult = any
+> = RuleMeta & {
+  type: "collect";
+  reducer?: AsyncReducer<ChildResult, Result, Input>;
+  rules: AsyncRule<Facts, ChildResult, Input>[];
+};
+
+type AsyncEachRule<
+  Facts = any,
+  Result = any,
+  Input = Result,
+  ChildFacts = any
+> = RuleMeta & {
+  type: "each";
+  mapper?: AsyncItemMapper<Facts, ItemOf<Input>, ChildFacts>;
+  rule: AsyncRule<ChildFacts>;
+};
+
+type AsyncRepeatRule<Facts = any, Result = any, Input = Result> = RuleMeta & {
+  type: "repeat";
+  maxIterations: number;
+  rule: AsyncRule<Facts, Result, Input | Result>;
+};
+
+/* RUNNERS
+ * `run`, `detailedRun` and friends are curried, they can be called with all
+ * arguments at once or one after another.
+ */
+
+// the error is `null` when the rule ran without errors, otherwise the
+// result is `null`
+type RunResult<Value> = [null, Value] | [Error, null];
+
+// what the different runners return for a rule producing values of type `Value`
+type RunOutputs<Value> = {
+  value: Value;
+  detailed: RuleResult<Value>;
+  traced: TracedRuleResult<Value>;
+};
+
+type RunOutput<Kind extends keyof RunOutputs<any>, Value> = RunResult<
+  RunOutputs<Value>[Kind]
+>;
+
+// the options the runners take after the initial value
+//  - explain: explain why the matchers of plain and "if" rules failed, see
+//      `explainMatcher`, not reported by `run`
+//  - strict: throw a `MutationError` when a function of a rule or a hook
+//      tries to change the facts or a value, see ./strict.ts
+//  - schemas: check the facts and the initial value before the run and the
+//      output when the rule matched, like `withSchema`
+type RunOptions = {
+  explain?: boolean;
+  strict?: boolean;
+  schemas?: RuleSchemas;
+};
+
+type RunWithFacts<Facts, Input, Output> = {
+  (facts: Facts, initialValue: Input): Output;
+  (facts: Facts): (initialValue: Input) => Output;
+};
+
+type Runner<Kind extends keyof RunOutputs<any>> = {
+  <Facts, Result, Input>(
+    rule: Rule<Facts, Result, Input>,
+    facts: Facts,
+    initialValue: Input,
+    options?: RunOptions
+  ): RunOutput<Kind, Result | Input>;
+  <Facts, Result, Input>(rule: Rule<Facts, Result, Input>, facts: Facts): (
+    initialValue: Input
+  ) => RunOutput<Kind, Result | Input>;
+  <Facts, Result, Input>(rule: Rule<Facts, Result, Input>): RunWithFacts<
+    Facts,
+    Input,
+    RunOutput<Kind, Result | Input>
+  >;
+};
+
+type AsyncRunner<Kind extends keyof RunOutputs<any>> = {
+  <Facts, Result, Input>(
+    rule: AsyncRule<Facts, Result, Input>,
+    facts: Facts,
+    initialValue: Input
+  ): Promise<RunOutput<Kind, Result | Input>>;
+  <Facts, Result, Input>(rule: AsyncRule<Facts, Result, Input>, facts: Facts): (
+    initialValue: Input
+  ) => Promise<RunOutput<Kind, Result | Input>>;
+  <Facts, Result, Input>(rule: AsyncRule<Facts, Result, Input>): RunWithFacts<
+    Facts,
+    Input,
+    Promise<RunOutput<Kind, Result | Input>>
+  >;
+};
+
+export type {
+  Action,
+  AllRule,
+  AsyncAction,
+  AsyncAllRule,
+  AsyncChainRule,
+  AsyncCollectRule,
+  AsyncEachRule,
+  AsyncExperimentRule,
+  AsyncFirstRule,
+  AsyncGuardedRule,
+  AsyncIfRule,
+  AsyncInjectedRule,
+  AsyncItemMapper,
+  AsyncMapper,
+  AsyncMatcher,
+  AsyncPlainRule,
+  AsyncPrioritizedRule,
+  AsyncPriority,
+  AsyncReducer,
+  AsyncRepeatRule,
+  AsyncRule,
+  AsyncRunner,
+  AsyncTransformedRule,
+  AsyncTransformer,
+  ChainRule,
+  CollectedOutput,
+  CollectRule,
+  EachRule,
+  ErrorPolicy,
+  ExperimentRule,
+  FirstRule,
+  GuardedRule,
+  IfRule,
+  InjectedRule,
+  ItemMapper,
+  Mapper,
+  Matcher,
+  MaybePromise,
+  NotAsync,
+  PlainRule,
+  PrioritizedRule,
+  Priority,
+  PriorityMode,
+  Reducer,
+  RepeatRule,
+  Rule,
+  RuleMeta,
+  RuleResult,
+  RuleTrace,
+  RuleType,
+  RunOptions,
+  RunOutput,
+  RunResult,
+  Runner,
+  RunWithFacts,
+  TracedRuleResult,
+  TransformedRule,
+  Transformer,
+};
@@ -12,4 +12,50 @@ const curryToArity = (fn: Function, arity: number) => {
   return resolver();
 };
 
+// a matcher that always matches, lives here so that modules re-exported by
+// ./index.ts can compare against it
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+const always = (...args: any[]) => true;
+
+// get the value at a dot separated path starting with `facts` or `value`,
+// like `facts.user.country`
+const getPath = (path: string, facts: any, value: any) =>
+  path
+    .split(".")
+    .slice(1)
+    .reduce(
+      (current, key) => (current == null ? undefined : current[key]),
+      path.startsWith("value") ? value : facts
+    );
+
+// compare plain data structurally, dates by their time
+const isEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key])
+    )
+  );
+};
+
+export { always, getPath, isEqual };
 export default curryToArity;
@@ -0,0 +1,284 @@
+import type { AsyncRule, Rule } from "./index";
+import {
+  always,
+  applyAll,
+  applyAllByPriority,
+  applyChain,
+  applyFirst,
+  applyIf,
+  applyRepeatedly,
+  applyToEach,
+  collectAll,
+  describeRule,
+  equals,
+  experiment,
+  injectFacts,
+  onError,
+  transformOutput,
+} from "./index";
+import { validateRule } from "./validate";
+
+type Facts = { country: string };
+
+const isGermany = (facts: Facts) => facts.country === "DE";
+const add = (value: number) => (facts: unknown, list: number[]) =>
+  [...list, value];
+const makeRule = (value: number, matcher = isGermany) => ({
+  matcher,
+  action: add(value),
+});
+
+const codes = (rule: AsyncRule) =>
+  validateRule(rule).map(({ code, path }) => [code, path]);
+
+describe("validateRule", () => {
+  test("returns no diagnostics for a valid rule tree", () => {
+    const rule = applyAll([
+      applyIf(isGermany, makeRule(1)),
+      applyFirst([makeRule(2), makeRule(3, always)]),
+      applyChain([
+        injectFacts((facts: Facts) => facts, makeRule(4)),
+        transformOutput((list: number[]) => list, makeRule(5)),
+      ]),
+    ]);
+    expect(validateRule(rule)).toEqual([]);
+  });
+
+  test("reports unknown rule types", () => {
+    const rule: unknown = {
+      type: "all",
+      rules: [makeRule(1), { type: "some" }],
+    };
+    expect(validateRule(rule as AsyncRule)).toEqual([
+      {
+        severity: "error",
+        code: "unknown-type",
+        message: 'unknown rule type "some"',
+        path: [1],
+      },
+    ]);
+  });
+
+  test("reports missing and malformed fields", () => {
+    const rule: unknown = {
+      type: "first",
+      rules: [
+        { matcher: isGermany },
+        { type: "if", matcher: "DE", rule: makeRule(1) },
+        { type: "injected", mapper: (facts: Facts) => facts },
+        { type: "chain" },
+        null,
+        { type: "guarded", policy: "ignore", rule: makeRule(1) },
+        { type: "prioritized", mode: "best", priorities: [1], rules: [] },
+        {
+          type: "experiment",
+          experiment: 1,
+          key: "user.id",
+          salt: "checkout",
+          variants: ["a"],
+          weights: [-1],
+          rules: [makeRule(1)],
+        },
+        { type: "collect", reducer: "concat", rules: [makeRule(1)] },
+        { type: "each", mapper: {}, rule: makeRule(1) },
+        { type: "repeat", maxIterations: 2.5, rule: makeRule(1) },
+        { type: "guarded", rule: makeRule(1) },
+      ],
+    };
+    expect(validateRule(rule as AsyncRule)).toEqual([
+      expect.objectContaining({
+        code: "missing-field",
+        message: '"action" must be a function',
+        path: [0],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"matcher" must be a function',
+        path: [1],
+      }),
+      expect.objectContaining({
+        code: "invalid-rule",
+        message: "rule must be an object",
+        path: [2, 0],
+      }),
+      expect.objectContaining({
+        code: "missing-field",
+        message: '"rules" must be a list',
+        path: [3],
+      }),
+      expect.objectContaining({ code: "invalid-rule", path: [4] }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"policy" must be "abort", "skip" or { fallback }',
+        path: [5],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"mode" must be "first" or "all"',
+        path: [6],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message:
+          '"priorities" must be a list with a number or function for every rule',
+        path: [6],
+      }),
+      expect.objectContaining({ code: "empty-rules", path: [6] }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"experiment" must be a string',
+        path: [7],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"key" must be a path starting with "facts" or "value"',
+        path: [7],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"weights" must be a list with a number >= 0 for every rule',
+        path: [7],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"reducer" must be a function when given',
+        path: [8],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"mapper" must be a function when given',
+        path: [9],
+      }),
+      expect.objectContaining({
+        code: "invalid-field",
+        message: '"maxIterations" must be a whole number of at least 1',
+        path: [10],
+      }),
+      expect.objectContaining({
+        code: "missing-field",
+        message: '"policy" must be "abort", "skip" or { fallback }',
+        path: [11],
+      }),
+    ]);
+  });
+
+  test("returns no diagnostics for experiments", () => {
+    const rule = experiment("checkout", {
+      key: "facts.user.id",
+      variants: [
+        { name: "a", rule: makeRule(1) },
+        { name: "b", weight: 0, rule: makeRule(2) },
+      ],
+    });
+    expect(validateRule(rule)).toEqual([]);
+  });
+
+  test("returns no diagnostics for collectAll with and without reducer", () => {
+    const rule = applyAll([
+      collectAll([makeRule(1), makeRule(2)]),
+      collectAll([makeRule(3)], (outputs) => outputs.length),
+    ]);
+    expect(validateRule(rule)).toEqual([]);
+  });
+
+  test("returns no diagnostics for applyToEach and applyRepeatedly", () => {
+    const rule = applyAll([
+      applyToEach(makeRule(1)),
+      applyToEach(makeRule(2), (facts: Facts, item: number[]) => ({
+        ...facts,
+        item,
+      })),
+      applyRepeatedly(3, makeRule(3)),
+    ]);
+    expect(validateRule(rule)).toEqual([]);
+  });
+
+  test("warns about empty lists of rules", () => {
+    const rule = applyChain([makeRule(1), applyAll([])]);
+    expect(validateRule(rule)).toEqual([
+      {
+        severity: "warning",
+        code: "empty-rules",
+        message: '"all" rule has no rules',
+        path: [1],
+      },
+    ]);
+  });
+
+  test("warns about rules in applyFirst following a rule that always matches", () => {
+    const rule = applyFirst([
+      makeRule(1),
+      makeRule(2, always),
+      makeRule(3),
+      applyIf(isGermany, makeRule(4)),
+    ]);
+    expect(codes(rule)).toEqual([
+      ["unreachable-rule", [2]],
+      ["unreachable-rule", [3]],
+    ]);
+    expect(validateRule(rule)[0].message).toBe(
+      "rule can never be reached because the rule at index 1 always matches"
+    );
+  });
+
+  test("knows which combined rules always match", () => {
+    const alwaysRules = [
+      applyIf(always, makeRule(1, always)),
+      injectFacts((facts: Facts) => facts, makeRule(1, always)),
+      applyAll([makeRule(1), makeRule(2, always)]),
+      applyChain([makeRule(1, always), makeRule(2)]),
+      onError({ fallback: [] }, makeRule(1, always)),
+      applyAllByPriority([
+        { priority: 1, rule: makeRule(1) },
+        { priority: 0, rule: makeRule(2, always) },
+      ]),
+    ];
+    alwaysRules.forEach((alwaysRule) =>
+      expect(codes(applyFirst([alwaysRule, makeRule(3)]))).toEqual([
+        ["unreachable-rule", [1]],
+      ])
+    );
+    const sometimesRules = [
+      applyIf(isGermany, makeRule(1, always)),
+      applyIf(always, makeRule(1)),
+      applyChain([makeRule(1), makeRule(2, always)]),
+      makeRule(1, equals("facts.country", "DE")),
+      onError("skip", makeRule(1, always)),
+    ];
+    sometimesRules.forEach((sometimesRule) =>
+      expect(validateRule(applyFirst([sometimesRule, makeRule(3)]))).toEqual([])
+    );
+  });
+
+  test("reports cycles", () => {
+    const rules: Rule<Facts, number[]>[] = [makeRule(1)];
+    const rule = applyFirst(rules);
+    rules.push(applyIf(isGermany, rule));
+    expect(codes(rule)).toEqual([["cycle", [1, 0]]]);
+  });
+
+  test("does not report rules used twice as cycles or duplicates", () => {
+    const shared = describeRule({ id: "shared" }, makeRule(1));
+    expect(validateRule(applyAll([shared, applyIf(always, shared)]))).toEqual(
+      []
+    );
+  });
+
+  test("reports duplicate ids", () => {
+    const rule = describeRule(
+      { id: "root" },
+      applyAll([
+        describeRule({ id: "offer" }, makeRule(1)),
+        applyIf(isGermany, describeRule({ id: "offer" }, makeRule(2))),
+      ])
+    );
+    expect(validateRule(rule)).toEqual([
+      {
+        severity: "error",
+        code: "duplicate-id",
+        message: 'id "offer" is already used by the rule at [0]',
+        path: [1, 0],
+      },
+    ]);
+  });
+});
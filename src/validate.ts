@@ -0,0 +1,310 @@
+import { isErrorPolicy } from "./errors";
+import type { RulePath } from "./tree";
+import type { AsyncRule, RuleType } from "./types";
+import { always } from "./util";
+
+/* VALIDATING RULES
+ * Rules are plain objects, so nothing stops them from being malformed. The
+ * validator walks a rule tree and reports structural problems before the
+ * rule is ever run.
+ */
+
+type DiagnosticCode =
+  | "invalid-rule"
+  | "unknown-type"
+  | "missing-field"
+  | "invalid-field"
+  | "empty-rules"
+  | "unreachable-rule"
+  | "cycle"
+  | "duplicate-id";
+
+// a problem found in a rule tree, `path` points to the offending rule
+// (see `ruleAtPath`)
+type RuleDiagnostic = {
+  severity: "error" | "warning";
+  code: DiagnosticCode;
+  message: string;
+  path: RulePath;
+};
+
+type FieldKind =
+  | "function"
+  | "rule"
+  | "rules"
+  | "policy"
+  | "mode"
+  | "priorities"
+  | "string"
+  | "key"
+  | "variants"
+  | "weights"
+  | "optionalFunction"
+  | "count";
+
+// the fields each type of rule needs, rule fields hold the child rules
+const ruleFields: Record<RuleType, [string, FieldKind][]> = {
+  plain: [
+    ["matcher", "function"],
+    ["action", "function"],
+  ],
+  injected: [
+    ["mapper", "function"],
+    ["childRule", "rule"],
+  ],
+  transformed: [
+    ["transformer", "function"],
+    ["rule", "rule"],
+  ],
+  if: [
+    ["matcher", "function"],
+    ["rule", "rule"],
+  ],
+  guarded: [
+    ["policy", "policy"],
+    ["rule", "rule"],
+  ],
+  all: [["rules", "rules"]],
+  first: [["rules", "rules"]],
+  chain: [["rules", "rules"]],
+  prioritized: [
+    ["mode", "mode"],
+    ["priorities", "priorities"],
+    ["rules", "rules"],
+  ],
+  experiment: [
+    ["experiment", "string"],
+    ["key", "key"],
+    ["salt", "string"],
+    ["variants", "variants"],
+    ["weights", "weights"],
+    ["rules", "rules"],
+  ],
+  collect: [
+    ["reducer", "optionalFunction"],
+    ["rules", "rules"],
+  ],
+  each: [
+    ["mapper", "optionalFunction"],
+    ["rule", "rule"],
+  ],
+  repeat: [
+    ["maxIterations", "count"],
+    ["rule", "rule"],
+  ],
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null;
+
+// whether a field holds a list with an entry for every child rule
+const isListForRules = (
+  node: Record<string, any>,
+  value: unknown,
+  check: (entry: unknown) => boolean
+) =>
+  Array.isArray(value) &&
+  value.length === (Array.isArray(node.rules) ? node.rules.length : 0) &&
+  value.every(check);
+
+// whether a rule matches no matter what the facts and value are, malformed
+// and cyclic rules are reported elsewhere and never count as always matching
+const alwaysMatches = (rule: unknown, ancestors: unknown[] = []): boolean => {
+  if (!isObject(rule) || ancestors.includes(rule)) {
+    return false;
+  }
+  const check = (child: unknown) => alwaysMatches(child, [...ancestors, rule]);
+  const rules = Array.isArray(rule.rules) ? rule.rules : [];
+  switch (rule.type) {
+    case "injected":
+      return check(rule.childRule);
+    case "transformed":
+      return check(rule.rule);
+    case "if":
+      return rule.matcher === always && check(rule.rule);
+    case "guarded":
+      // with "skip" a rule that throws doesn't match
+      return rule.policy !== "skip" && check(rule.rule);
+    case "all":
+    case "first":
+    case "prioritized":
+    case "collect":
+      return rules.some(check);
+    case "chain":
+      return rules.length > 0 && check(rules[0]);
+    case undefined:
+    case "plain":
+      return rule.matcher === always && typeof rule.action === "function";
+    default:
+      return false;
+  }
+};
+
+// check a rule tree for structural problems like unknown rule types, missing
+// matchers or actions, empty lists of rules, rules in `applyFirst` that can
+// never be reached, cycles and duplicate ids
+// returns a list of diagnostics which is empty when no problems were found
+const validateRule = (rule: AsyncRule): RuleDiagnostic[] => {
+  const diagnostics: RuleDiagnostic[] = [];
+  // the same rule may be used in several places, only other rules with the
+  // same id are duplicates
+  const ids = new Map<string, { node: unknown; path: RulePath }>();
+  const report = (
+    severity: RuleDiagnostic["severity"],
+    code: DiagnosticCode,
+    message: string,
+    path: RulePath
+  ) => diagnostics.push({ severity, code, message, path });
+
+  const visit = (node: unknown, path: RulePath, ancestors: unknown[]) => {
+    if (!isObject(node)) {
+      report("error", "invalid-rule", "rule must be an object", path);
+      return;
+    }
+    if (ancestors.includes(node)) {
+      report("error", "cycle", "rule contains itself", path);
+      return;
+    }
+    if (typeof node.id === "string") {
+      const first = ids.get(node.id);
+      if (!first) {
+        ids.set(node.id, { node, path });
+      } else if (first.node !== node) {
+        report(
+          "error",
+          "duplicate-id",
+          `id "${node.id}" is already used by the rule at [${first.path}]`,
+          path
+        );
+      }
+    }
+    const type: RuleType = node.type === undefined ? "plain" : node.type;
+    const fields = ruleFields[type];
+    if (!fields) {
+      report(
+        "error",
+        "unknown-type",
+        `unknown rule type ${JSON.stringify(node.type)}`,
+        path
+      );
+      return;
+    }
+    const children: unknown[] = [];
+    fields.forEach(([field, kind]) => {
+      const value = node[field];
+      // fields which are there but malformed are invalid instead of missing
+      const code = value === undefined ? "missing-field" : "invalid-field";
+      if (kind === "function" && typeof value !== "function") {
+        report("error", code, `"${field}" must be a function`, path);
+      } else if (kind === "policy" && !isErrorPolicy(value)) {
+        report(
+          "error",
+          code,
+          `"${field}" must be "abort", "skip" or { fallback }`,
+          path
+        );
+      } else if (kind === "mode" && value !== "first" && value !== "all") {
+        report("error", code, `"${field}" must be "first" or "all"`, path);
+      } else if (
+        kind === "priorities" &&
+        !isListForRules(
+          node,
+          value,
+          (priority) =>
+            typeof priority === "number" || typeof priority === "function"
+        )
+      ) {
+        report(
+          "error",
+          code,
+          `"${field}" must be a list with a number or function for every rule`,
+          path
+        );
+      } else if (kind === "string" && typeof value !== "string") {
+        report("error", code, `"${field}" must be a string`, path);
+      } else if (
+        kind === "key" &&
+        !(typeof value === "string" && /^(facts|value)(\.|$)/.test(value))
+      ) {
+        report(
+          "error",
+          code,
+          `"${field}" must be a path starting with "facts" or "value"`,
+          path
+        );
+      } else if (
+        kind === "variants" &&
+        !isListForRules(node, value, (variant) => typeof variant === "string")
+      ) {
+        report(
+          "error",
+          code,
+          `"${field}" must be a list with a name for every rule`,
+          path
+        );
+      } else if (
+        kind === "weights" &&
+        !isListForRules(
+          node,
+          value,
+          (weight) => typeof weight === "number" && weight >= 0
+        )
+      ) {
+        report(
+          "error",
+          code,
+          `"${field}" must be a list with a number >= 0 for every rule`,
+          path
+        );
+      } else if (
+        kind === "optionalFunction" &&
+        value !== undefined &&
+        typeof value !== "function"
+      ) {
+        report("error", code, `"${field}" must be a function when given`, path);
+      } else if (kind === "count" && !(Number.isInteger(value) && value >= 1)) {
+        report(
+          "error",
+          code,
+          `"${field}" must be a whole number of at least 1`,
+          path
+        );
+      } else if (kind === "rule") {
+        children.push(value);
+      } else if (kind === "rules" && !Array.isArray(value)) {
+        report("error", code, `"${field}" must be a list`, path);
+      } else if (kind === "rules") {
+        if (value.length === 0) {
+          report("warning", "empty-rules", `"${type}" rule has no rules`, path);
+        }
+        children.push(...value);
+      }
+    });
+    const childAncestors = [...ancestors, node];
+    children.forEach((child, index) =>
+      visit(child, [...path, index], childAncestors)
+    );
+    const alwaysIndex =
+      type === "first"
+        ? children.findIndex((child) => alwaysMatches(child))
+        : -1;
+    if (alwaysIndex >= 0) {
+      children
+        .slice(alwaysIndex + 1)
+        .forEach((child, offset) =>
+          report(
+            "warning",
+            "unreachable-rule",
+            `rule can never be reached because the rule at index ${alwaysIndex} always matches`,
+            [...path, alwaysIndex + 1 + offset]
+          )
+        );
+    }
+  };
+
+  visit(rule, [], []);
+  return diagnostics;
+};
+
+export { validateRule };
+export type { RuleDiagnostic, DiagnosticCode };